@@ -1,5 +1,5 @@
-import { AlertCircle, Loader2 } from "lucide-react";
-import { useState } from "react";
+import { AlertCircle, FileUp, Loader2 } from "lucide-react";
+import { type DragEvent, useEffect, useRef, useState } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,13 +12,17 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { parseCapturedRequests } from "@/providers/credential-import";
 import type { ProviderDescriptor, ProviderUser } from "@/providers/types";
 
 interface AuthSetupModalProps {
 	provider: ProviderDescriptor;
-	onAuthSuccess: (auth: unknown, user: ProviderUser) => void;
+	/** Called with the validated credentials; the caller persists them. */
+	onAuthSuccess: (auth: unknown, user: ProviderUser, label: string) => void;
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
+	/** Label of the account being updated; omitted when adding an account. */
+	accountLabel?: string;
 }
 
 export function AuthSetupModal({
@@ -26,18 +30,30 @@ export function AuthSetupModal({
 	onAuthSuccess,
 	open,
 	onOpenChange,
+	accountLabel,
 }: AuthSetupModalProps) {
 	const [values, setValues] = useState<Record<string, string>>({});
+	const [label, setLabel] = useState("");
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	// Pasted cURL command, and whether a HAR file is dragged over the drop zone
+	const [capture, setCapture] = useState("");
+	const [isDragging, setIsDragging] = useState(false);
+	const fileInput = useRef<HTMLInputElement>(null);
+	const importCredentials = provider.auth.importCredentials;
+
+	// Pre-fill the label when the modal opens for an existing account
+	useEffect(() => {
+		if (open) setLabel(accountLabel ?? "");
+	}, [open, accountLabel]);
 
 	const setField = (key: string, value: string) => {
 		setValues((prev) => ({ ...prev, [key]: value }));
 	};
 
-	const handleSubmit = async () => {
+	const connectWith = async (input: Record<string, string>) => {
 		const missing = provider.auth.fields.find(
-			(field) => !values[field.key]?.trim(),
+			(field) => !field.optional && !input[field.key]?.trim(),
 		);
 		if (missing) {
 			setError(`${missing.label} is required`);
@@ -48,20 +64,17 @@ export function AuthSetupModal({
 		setError(null);
 
 		try {
-			const result = await provider.connect(values);
+			const result = await provider.connect(input);
 
 			if ("error" in result) {
 				setError(result.error);
 				return;
 			}
 
-			localStorage.setItem(
-				provider.authStorageKey,
-				JSON.stringify(result.auth),
-			);
-			onAuthSuccess(result.auth, result.user);
+			onAuthSuccess(result.auth, result.user, label.trim());
 			onOpenChange(false);
 			setValues({});
+			setCapture("");
 		} catch (err) {
 			setError(err instanceof Error ? err.message : "Authentication failed");
 		} finally {
@@ -69,11 +82,66 @@ export function AuthSetupModal({
 		}
 	};
 
+	const handleSubmit = () => connectWith(values);
+
+	// Fill the fields from a HAR file or cURL command, then connect with them
+	const handleImport = async (text: string) => {
+		if (!importCredentials) return;
+		let result: ReturnType<typeof importCredentials>;
+		try {
+			const requests = parseCapturedRequests(text);
+			if (!requests) {
+				setError("That is not a HAR file or a cURL command");
+				return;
+			}
+			result = importCredentials(requests);
+		} catch (err) {
+			setError(
+				err instanceof Error
+					? `Could not read the capture: ${err.message}`
+					: "Could not read the capture",
+			);
+			return;
+		}
+		if ("error" in result) {
+			setError(result.error);
+			return;
+		}
+		setValues(result.values);
+		await connectWith(result.values);
+	};
+
+	const handleFile = async (file: File | undefined) => {
+		if (!file) return;
+		let text: string;
+		try {
+			text = await file.text();
+		} catch (err) {
+			setError(
+				err instanceof Error
+					? `Could not read ${file.name}: ${err.message}`
+					: `Could not read ${file.name}`,
+			);
+			return;
+		}
+		await handleImport(text);
+	};
+
+	const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+		e.preventDefault();
+		setIsDragging(false);
+		handleFile(e.dataTransfer.files[0]);
+	};
+
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
 			<DialogContent className="max-w-2xl w-[95vw] max-h-[90vh] overflow-y-auto">
 				<DialogHeader>
-					<DialogTitle>Connect Your {provider.name} Account</DialogTitle>
+					<DialogTitle>
+						{accountLabel === undefined
+							? `Connect Your ${provider.name} Account`
+							: `Update ${provider.name} Account`}
+					</DialogTitle>
 					<DialogDescription>
 						To fetch your ride history, provide your {provider.name} session
 						credentials. Follow the instructions below.
@@ -86,6 +154,74 @@ export function AuthSetupModal({
 						<AlertDescription>{provider.auth.instructions}</AlertDescription>
 					</Alert>
 
+					<div className="space-y-2">
+						<Label htmlFor="auth-account-label">Account Label</Label>
+						<Input
+							id="auth-account-label"
+							placeholder="e.g. Personal, Work (optional)"
+							value={label}
+							onChange={(e) => setLabel(e.target.value)}
+						/>
+					</div>
+
+					{importCredentials && (
+						<section
+							aria-label="Import credentials"
+							className={`space-y-2 rounded-lg border border-dashed p-3 ${
+								isDragging ? "border-primary bg-muted/50" : ""
+							}`}
+							onDragOver={(e) => {
+								e.preventDefault();
+								setIsDragging(true);
+							}}
+							onDragLeave={() => setIsDragging(false)}
+							onDrop={handleDrop}
+						>
+							<Label htmlFor="auth-capture">Import from DevTools</Label>
+							<p className="text-xs text-muted-foreground">
+								Drop a <span className="font-mono">.har</span> export of the
+								Network tab here, or paste a request copied with "Copy as cURL".
+								The credentials are picked out and connected for you.
+							</p>
+							<Textarea
+								id="auth-capture"
+								placeholder="curl 'https://…' -H 'cookie: …'"
+								value={capture}
+								onChange={(e) => setCapture(e.target.value)}
+								className="h-[72px] font-mono text-xs w-full resize-none overflow-y-auto overflow-x-hidden break-all"
+							/>
+							<div className="flex justify-end gap-2">
+								<input
+									ref={fileInput}
+									type="file"
+									accept=".har,application/json"
+									className="hidden"
+									onChange={(e) => {
+										handleFile(e.target.files?.[0]);
+										e.target.value = "";
+									}}
+								/>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => fileInput.current?.click()}
+									disabled={isLoading}
+								>
+									<FileUp className="mr-2 h-4 w-4" />
+									Choose HAR File
+								</Button>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => handleImport(capture)}
+									disabled={isLoading || !capture.trim()}
+								>
+									Import cURL
+								</Button>
+							</div>
+						</section>
+					)}
+
 					{provider.auth.fields.map((field) => (
 						<div key={field.key} className="space-y-2">
 							<Label htmlFor={`auth-${field.key}`}>{field.label}</Label>
@@ -106,13 +242,18 @@ export function AuthSetupModal({
 									className="font-mono text-xs"
 								/>
 							)}
+							{field.hint && (
+								<p className="text-xs text-muted-foreground">{field.hint}</p>
+							)}
 						</div>
 					))}
 
 					{error && (
 						<Alert variant="destructive">
 							<AlertCircle className="h-4 w-4" />
-							<AlertDescription>{error}</AlertDescription>
+							<AlertDescription className="whitespace-pre-line">
+								{error}
+							</AlertDescription>
 						</Alert>
 					)}
 
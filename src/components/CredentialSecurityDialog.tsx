@@ -0,0 +1,213 @@
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	AUTO_LOCK_MINUTES,
+	type CredentialSecurity,
+} from "@/lib/credential-vault";
+
+/** What the dialog changes; the caller re-saves the stored credentials. */
+export interface CredentialSecurityChange {
+	storage: CredentialSecurity["storage"];
+	autoLockMinutes: number;
+	/** A new passphrase, null to stop encrypting, or omitted to keep it. */
+	passphrase?: string | null;
+}
+
+interface CredentialSecurityDialogProps {
+	security: CredentialSecurity;
+	onSave: (change: CredentialSecurityChange) => Promise<void>;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function CredentialSecurityDialog({
+	security,
+	onSave,
+	open,
+	onOpenChange,
+}: CredentialSecurityDialogProps) {
+	const hasPassphrase = security.encryption !== null;
+	const [sessionOnly, setSessionOnly] = useState(false);
+	const [encrypt, setEncrypt] = useState(false);
+	const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+	const [passphrase, setPassphrase] = useState("");
+	const [confirmation, setConfirmation] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Start each edit from the saved settings
+	useEffect(() => {
+		if (!open) return;
+		setSessionOnly(security.storage === "session");
+		setEncrypt(security.encryption !== null);
+		setAutoLockMinutes(security.autoLockMinutes);
+		setPassphrase("");
+		setConfirmation("");
+		setError(null);
+	}, [open, security]);
+
+	const handleSave = async () => {
+		// Keeping encryption on, a blank passphrase keeps the current one
+		const changesPassphrase = encrypt && (!hasPassphrase || passphrase !== "");
+		if (changesPassphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+			setError(
+				`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+			);
+			return;
+		}
+		if (changesPassphrase && passphrase !== confirmation) {
+			setError("Passphrases do not match");
+			return;
+		}
+
+		setIsSaving(true);
+		setError(null);
+		try {
+			await onSave({
+				storage: sessionOnly ? "session" : "local",
+				autoLockMinutes,
+				passphrase: !encrypt
+					? null
+					: changesPassphrase
+						? passphrase
+						: undefined,
+			});
+			onOpenChange(false);
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to save credentials",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-xl w-[95vw] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Credential Security</DialogTitle>
+					<DialogDescription>
+						Provider cookies and tokens give full access to your accounts.
+						Choose how this browser keeps them.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-1">
+						<div className="flex items-center gap-2 text-sm">
+							<Checkbox
+								id="credentials-session-only"
+								checked={sessionOnly}
+								onCheckedChange={setSessionOnly}
+							/>
+							<Label htmlFor="credentials-session-only">
+								Forget credentials when this tab closes
+							</Label>
+						</div>
+						<p className="pl-6 text-xs text-muted-foreground">
+							Kept in session storage instead of local storage, so each new tab
+							asks you to connect again.
+						</p>
+					</div>
+
+					<div className="space-y-1">
+						<div className="flex items-center gap-2 text-sm">
+							<Checkbox
+								id="credentials-encrypt"
+								checked={encrypt}
+								onCheckedChange={setEncrypt}
+							/>
+							<Label htmlFor="credentials-encrypt">
+								Encrypt with a passphrase
+							</Label>
+						</div>
+						<p className="pl-6 text-xs text-muted-foreground">
+							AES-GCM with a key derived from your passphrase. You enter it each
+							time the page loads; it cannot be recovered if lost.
+						</p>
+					</div>
+
+					{encrypt && (
+						<>
+							<div className="grid gap-4 sm:grid-cols-2">
+								<div className="space-y-2">
+									<Label htmlFor="credentials-passphrase">
+										{hasPassphrase ? "New Passphrase" : "Passphrase"}
+									</Label>
+									<Input
+										id="credentials-passphrase"
+										type="password"
+										autoComplete="new-password"
+										placeholder={hasPassphrase ? "Leave blank to keep" : ""}
+										value={passphrase}
+										onChange={(e) => setPassphrase(e.target.value)}
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor="credentials-confirm">Confirm</Label>
+									<Input
+										id="credentials-confirm"
+										type="password"
+										autoComplete="new-password"
+										value={confirmation}
+										onChange={(e) => setConfirmation(e.target.value)}
+									/>
+								</div>
+							</div>
+
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Lock After Inactivity</p>
+								<div className="flex flex-wrap gap-2">
+									{AUTO_LOCK_MINUTES.map((minutes) => (
+										<Button
+											key={minutes}
+											variant={
+												autoLockMinutes === minutes ? "default" : "outline"
+											}
+											size="sm"
+											onClick={() => setAutoLockMinutes(minutes)}
+										>
+											{minutes === 0 ? "Never" : `${minutes} min`}
+										</Button>
+									))}
+								</div>
+							</div>
+						</>
+					)}
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+
+					<div className="flex justify-end gap-2">
+						<Button variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave} disabled={isSaving}>
+							{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+							Save
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,237 @@
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ExchangeRateSettings } from "@/lib/exchange-rates";
+
+interface ExchangeRatesDialogProps {
+	settings: ExchangeRateSettings;
+	/** Called with the edited table; the caller persists it. */
+	onSave: (settings: ExchangeRateSettings) => void;
+	/** Currencies in the current selection, offered as quick-add rows. */
+	suggestedCurrencies: string[];
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+/** Editable row; values stay strings until saved. */
+interface DraftRate {
+	key: number;
+	currency: string;
+	date: string;
+	rate: string;
+}
+
+let nextDraftKey = 0;
+
+function toDraft(rate: {
+	currency: string;
+	date?: string;
+	rate?: number;
+}): DraftRate {
+	return {
+		key: nextDraftKey++,
+		currency: rate.currency,
+		date: rate.date ?? "",
+		rate: rate.rate?.toString() ?? "",
+	};
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export function ExchangeRatesDialog({
+	settings,
+	onSave,
+	suggestedCurrencies,
+	open,
+	onOpenChange,
+}: ExchangeRatesDialogProps) {
+	const [reportingCurrency, setReportingCurrency] = useState("");
+	const [rates, setRates] = useState<DraftRate[]>([]);
+	const [error, setError] = useState<string | null>(null);
+
+	// Start each edit from the saved table
+	useEffect(() => {
+		if (!open) return;
+		setReportingCurrency(settings.reportingCurrency);
+		setRates(settings.rates.map(toDraft));
+		setError(null);
+	}, [open, settings]);
+
+	const updateRate = (key: number, patch: Partial<DraftRate>) => {
+		setRates((prev) =>
+			prev.map((r) => (r.key === key ? { ...r, ...patch } : r)),
+		);
+	};
+
+	const missingSuggestions = suggestedCurrencies.filter(
+		(c) => c !== reportingCurrency && !rates.some((r) => r.currency === c),
+	);
+
+	const handleSave = () => {
+		const reporting = reportingCurrency.trim().toUpperCase();
+		if (!CURRENCY_CODE.test(reporting)) {
+			setError("Reporting currency must be a 3-letter code such as INR");
+			return;
+		}
+		const parsed = [];
+		for (const draft of rates) {
+			const currency = draft.currency.trim().toUpperCase();
+			const rate = Number(draft.rate);
+			if (!CURRENCY_CODE.test(currency)) {
+				setError(`"${draft.currency}" is not a 3-letter currency code`);
+				return;
+			}
+			if (!Number.isFinite(rate) || rate <= 0) {
+				setError(`Rate for ${currency} must be a positive number`);
+				return;
+			}
+			parsed.push(
+				draft.date ? { currency, rate, date: draft.date } : { currency, rate },
+			);
+		}
+		onSave({ version: 1, reportingCurrency: reporting, rates: parsed });
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl w-[95vw] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Exchange Rates</DialogTitle>
+					<DialogDescription>
+						Rides in other currencies are converted into your reporting currency
+						using these rates. They are stored in this browser only; nothing is
+						fetched online.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="reporting-currency">Reporting Currency</Label>
+						<Input
+							id="reporting-currency"
+							placeholder="INR"
+							value={reportingCurrency}
+							onChange={(e) =>
+								setReportingCurrency(e.target.value.toUpperCase())
+							}
+							className="w-32 font-mono"
+							maxLength={3}
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<p className="text-sm font-medium">Rates</p>
+						<p className="text-xs text-muted-foreground">
+							{`1 unit of the currency = rate × ${reportingCurrency || "reporting currency"}. `}
+							A dated rate applies from that day until the next dated rate;
+							leave the date empty for a fixed rate.
+						</p>
+						{rates.length === 0 && (
+							<p className="text-sm text-muted-foreground italic">
+								No rates yet.
+							</p>
+						)}
+						{rates.map((draft) => (
+							<div key={draft.key} className="flex items-center gap-2">
+								<Input
+									aria-label="Currency"
+									placeholder="USD"
+									value={draft.currency}
+									onChange={(e) =>
+										updateRate(draft.key, {
+											currency: e.target.value.toUpperCase(),
+										})
+									}
+									className="w-24 font-mono"
+									maxLength={3}
+								/>
+								<Input
+									aria-label="From date"
+									type="date"
+									value={draft.date}
+									onChange={(e) =>
+										updateRate(draft.key, { date: e.target.value })
+									}
+									className="w-44"
+								/>
+								<Input
+									aria-label="Rate"
+									type="number"
+									inputMode="decimal"
+									min="0"
+									step="any"
+									placeholder="83.25"
+									value={draft.rate}
+									onChange={(e) =>
+										updateRate(draft.key, { rate: e.target.value })
+									}
+									className="flex-1"
+								/>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() =>
+										setRates((prev) => prev.filter((r) => r.key !== draft.key))
+									}
+								>
+									<Trash2 className="h-4 w-4" />
+									<span className="sr-only">Remove rate</span>
+								</Button>
+							</div>
+						))}
+						<div className="flex flex-wrap gap-2">
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() =>
+									setRates((prev) => [...prev, toDraft({ currency: "" })])
+								}
+							>
+								<Plus className="mr-1 h-4 w-4" />
+								Add Rate
+							</Button>
+							{missingSuggestions.map((currency) => (
+								<Button
+									key={currency}
+									variant="outline"
+									size="sm"
+									onClick={() =>
+										setRates((prev) => [...prev, toDraft({ currency })])
+									}
+								>
+									<Plus className="mr-1 h-4 w-4" />
+									{currency}
+								</Button>
+							))}
+						</div>
+					</div>
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+
+					<div className="flex justify-end gap-2">
+						<Button variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave}>Save Rates</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
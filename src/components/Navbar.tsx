@@ -1,4 +1,16 @@
-import { Key, LogOut, Moon, MoreVertical, Sun, User } from "lucide-react";
+import {
+	Check,
+	Key,
+	Layers,
+	Lock,
+	LogOut,
+	Moon,
+	MoreVertical,
+	ShieldCheck,
+	Sun,
+	User,
+	UserPlus,
+} from "lucide-react";
 import { useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -11,9 +23,11 @@ import {
 	DropdownMenuSeparator,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { ALL_PROVIDERS } from "@/providers/registry";
 import type {
 	ProviderDescriptor,
 	ProviderId,
+	ProviderSelection,
 	ProviderUser,
 } from "@/providers/types";
 
@@ -21,20 +35,38 @@ interface NavbarProps {
 	user: ProviderUser | null;
 	isAuthenticated: boolean;
 	providers: ProviderDescriptor[];
-	selectedProviderId: ProviderId;
-	onSelectProvider: (id: ProviderId) => void;
-	onOpenAuthModal: () => void;
+	/** Providers with a restored session; listed in the "All" view menu. */
+	connectedProviderIds: ProviderId[];
+	selectedProviderId: ProviderSelection;
+	onSelectProvider: (id: ProviderSelection) => void;
+	/** Open the auth modal, optionally for a provider other than the active one. */
+	onOpenAuthModal: (id?: ProviderId) => void;
+	/** Stored accounts of the selected provider, for the account switcher. */
+	accounts: { id: string; label: string }[];
+	activeAccountId: string | null;
+	onSelectAccount: (accountId: string) => void;
+	onAddAccount: () => void;
 	onLogout: () => void;
+	onOpenCredentialSecurity: () => void;
+	/** Lock encrypted credentials now; omitted when they are not encrypted. */
+	onLock?: () => void;
 }
 
 export function Navbar({
 	user,
 	isAuthenticated,
 	providers,
+	connectedProviderIds,
 	selectedProviderId,
 	onSelectProvider,
 	onOpenAuthModal,
+	accounts,
+	activeAccountId,
+	onSelectAccount,
+	onAddAccount,
 	onLogout,
+	onOpenCredentialSecurity,
+	onLock,
 }: NavbarProps) {
 	const [isDarkMode, setIsDarkMode] = useState(() => {
 		if (typeof window !== "undefined") {
@@ -55,6 +87,7 @@ export function Navbar({
 		}
 	};
 
+	const isAllView = selectedProviderId === ALL_PROVIDERS;
 	const userInitials = user
 		? `${user.firstName?.[0] || ""}${user.lastName?.[0] || ""}`
 		: "";
@@ -83,10 +116,42 @@ export function Navbar({
 							</button>
 						);
 					})}
+					<button
+						type="button"
+						onClick={() => onSelectProvider(ALL_PROVIDERS)}
+						className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-sm font-medium transition-all ${
+							isAllView
+								? "bg-background text-foreground shadow-sm"
+								: "text-muted-foreground hover:text-foreground"
+						}`}
+					>
+						<Layers className="h-4 w-4" />
+						<span className="hidden sm:inline">All</span>
+					</button>
 				</div>
 
 				{/* Right side actions */}
 				<div className="flex items-center gap-2">
+					{/* Credential storage and encryption */}
+					{onLock && (
+						<Button
+							variant="ghost"
+							size="icon"
+							onClick={onLock}
+							title="Lock credentials"
+						>
+							<Lock className="h-5 w-5" />
+						</Button>
+					)}
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={onOpenCredentialSecurity}
+						title="Credential security"
+					>
+						<ShieldCheck className="h-5 w-5" />
+					</Button>
+
 					{/* Dark mode toggle */}
 					<Button
 						variant="ghost"
@@ -106,7 +171,7 @@ export function Navbar({
 						<DropdownMenuGroup>
 							<DropdownMenuTrigger
 								render={(props) =>
-									isAuthenticated && user ? (
+									!isAllView && isAuthenticated && user ? (
 										<Button
 											{...props}
 											variant="ghost"
@@ -130,7 +195,33 @@ export function Navbar({
 								}
 							/>
 							<DropdownMenuContent align="end" className="w-56">
-								{isAuthenticated && user ? (
+								{isAllView ? (
+									<>
+										<DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+											Providers
+										</DropdownMenuLabel>
+										{providers.map((p) => {
+											const Icon = p.icon;
+											const isConnected = connectedProviderIds.includes(p.id);
+											return (
+												<DropdownMenuItem
+													key={p.id}
+													onClick={() =>
+														isConnected
+															? onSelectProvider(p.id)
+															: onOpenAuthModal(p.id)
+													}
+												>
+													<Icon className="mr-2 h-4 w-4" />
+													{isConnected ? p.name : `Connect ${p.name}`}
+													{isConnected && (
+														<Check className="ml-auto h-4 w-4 text-muted-foreground" />
+													)}
+												</DropdownMenuItem>
+											);
+										})}
+									</>
+								) : isAuthenticated && user ? (
 									<>
 										<DropdownMenuLabel className="font-normal">
 											<div className="flex flex-col space-y-1">
@@ -143,7 +234,27 @@ export function Navbar({
 											</div>
 										</DropdownMenuLabel>
 										<DropdownMenuSeparator />
-										<DropdownMenuItem onClick={onOpenAuthModal}>
+										<DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+											Accounts
+										</DropdownMenuLabel>
+										{accounts.map((account) => (
+											<DropdownMenuItem
+												key={account.id}
+												onClick={() => onSelectAccount(account.id)}
+											>
+												<User className="mr-2 h-4 w-4" />
+												<span className="truncate">{account.label}</span>
+												{account.id === activeAccountId && (
+													<Check className="ml-auto h-4 w-4 text-muted-foreground" />
+												)}
+											</DropdownMenuItem>
+										))}
+										<DropdownMenuItem onClick={onAddAccount}>
+											<UserPlus className="mr-2 h-4 w-4" />
+											Add Account
+										</DropdownMenuItem>
+										<DropdownMenuSeparator />
+										<DropdownMenuItem onClick={() => onOpenAuthModal()}>
 											<Key className="mr-2 h-4 w-4" />
 											Update Auth
 										</DropdownMenuItem>
@@ -154,7 +265,7 @@ export function Navbar({
 										</DropdownMenuItem>
 									</>
 								) : (
-									<DropdownMenuItem onClick={onOpenAuthModal}>
+									<DropdownMenuItem onClick={() => onOpenAuthModal()}>
 										<User className="mr-2 h-4 w-4" />
 										Connect Account
 									</DropdownMenuItem>
@@ -0,0 +1,404 @@
+import {
+	AlertCircle,
+	ArrowDown,
+	ArrowUp,
+	Copy,
+	Plus,
+	Trash2,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	DEFAULT_PDF_TEMPLATE,
+	type PdfTemplate,
+	type PdfTemplateSettings,
+	SUMMARY_COLUMN_LABELS,
+	type SummaryColumnId,
+} from "@/lib/pdf-templates";
+
+interface PdfTemplatesDialogProps {
+	settings: PdfTemplateSettings;
+	/** Called with the edited templates; the caller persists them. */
+	onSave: (settings: PdfTemplateSettings) => void;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const ALL_COLUMNS = Object.keys(SUMMARY_COLUMN_LABELS) as SummaryColumnId[];
+
+/** Logos are stored in localStorage, so keep them small. */
+const MAX_LOGO_BYTES = 200 * 1024;
+
+export function PdfTemplatesDialog({
+	settings,
+	onSave,
+	open,
+	onOpenChange,
+}: PdfTemplatesDialogProps) {
+	const [templates, setTemplates] = useState<PdfTemplate[]>([]);
+	const [editingId, setEditingId] = useState("");
+	const [error, setError] = useState<string | null>(null);
+
+	// Start each edit from the saved templates
+	useEffect(() => {
+		if (!open) return;
+		setTemplates(settings.templates);
+		setEditingId(settings.selectedId);
+		setError(null);
+	}, [open, settings]);
+
+	const editing = templates.find((t) => t.id === editingId) ?? templates[0];
+
+	const updateTemplate = (patch: Partial<PdfTemplate>) => {
+		setTemplates((prev) =>
+			prev.map((t) => (t.id === editing?.id ? { ...t, ...patch } : t)),
+		);
+	};
+
+	const addTemplate = (base: PdfTemplate, name: string) => {
+		const template = { ...base, id: crypto.randomUUID(), name };
+		setTemplates((prev) => [...prev, template]);
+		setEditingId(template.id);
+	};
+
+	const removeTemplate = () => {
+		if (!editing || templates.length <= 1) return;
+		const remaining = templates.filter((t) => t.id !== editing.id);
+		setTemplates(remaining);
+		setEditingId(remaining[0].id);
+	};
+
+	const toggleColumn = (id: SummaryColumnId, checked: boolean) => {
+		if (!editing) return;
+		updateTemplate({
+			columns: checked
+				? [...editing.columns, id]
+				: editing.columns.filter((c) => c !== id),
+		});
+	};
+
+	const moveColumn = (index: number, offset: -1 | 1) => {
+		if (!editing) return;
+		const columns = [...editing.columns];
+		[columns[index], columns[index + offset]] = [
+			columns[index + offset],
+			columns[index],
+		];
+		updateTemplate({ columns });
+	};
+
+	const handleLogoChange = (file: File | undefined) => {
+		if (!file) return;
+		if (file.type !== "image/png" && file.type !== "image/jpeg") {
+			setError("The logo must be a PNG or JPEG image");
+			return;
+		}
+		if (file.size > MAX_LOGO_BYTES) {
+			setError("The logo must be smaller than 200 KB");
+			return;
+		}
+		const reader = new FileReader();
+		reader.onload = () => {
+			updateTemplate({ logoDataUrl: reader.result as string });
+			setError(null);
+		};
+		reader.readAsDataURL(file);
+	};
+
+	const handleSave = () => {
+		const unnamed = templates.find((t) => !t.name.trim());
+		if (unnamed) {
+			setEditingId(unnamed.id);
+			setError("Every template needs a name");
+			return;
+		}
+		onSave({
+			...settings,
+			templates: templates.map((t) => ({ ...t, name: t.name.trim() })),
+			selectedId: templates.some((t) => t.id === settings.selectedId)
+				? settings.selectedId
+				: templates[0].id,
+		});
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl w-[95vw] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>PDF Templates</DialogTitle>
+					<DialogDescription>
+						Layout and branding for the summary PDF. Templates are stored in
+						this browser; pick one from the export menu before downloading.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="flex flex-wrap gap-2">
+						{templates.map((t) => (
+							<Button
+								key={t.id}
+								variant={t.id === editing?.id ? "default" : "outline"}
+								size="sm"
+								onClick={() => setEditingId(t.id)}
+							>
+								{t.name || "Untitled"}
+							</Button>
+						))}
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => addTemplate(DEFAULT_PDF_TEMPLATE, "New template")}
+						>
+							<Plus className="mr-1 h-4 w-4" />
+							New
+						</Button>
+						{editing && (
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() => addTemplate(editing, `${editing.name} copy`)}
+							>
+								<Copy className="mr-1 h-4 w-4" />
+								Duplicate
+							</Button>
+						)}
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={removeTemplate}
+							disabled={templates.length <= 1}
+						>
+							<Trash2 className="mr-1 h-4 w-4" />
+							Delete
+						</Button>
+					</div>
+
+					{editing && (
+						<div className="grid gap-4 sm:grid-cols-2">
+							<div className="space-y-2">
+								<Label htmlFor="template-name">Template Name</Label>
+								<Input
+									id="template-name"
+									value={editing.name}
+									onChange={(e) => updateTemplate({ name: e.target.value })}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="template-title">Document Title</Label>
+								<Input
+									id="template-title"
+									placeholder="Uber Expense Summary"
+									value={editing.title}
+									onChange={(e) => updateTemplate({ title: e.target.value })}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="template-company">Company Name</Label>
+								<Input
+									id="template-company"
+									value={editing.companyName}
+									onChange={(e) =>
+										updateTemplate({ companyName: e.target.value })
+									}
+								/>
+							</div>
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Orientation</p>
+								<div className="flex gap-2">
+									{(["landscape", "portrait"] as const).map((orientation) => (
+										<Button
+											key={orientation}
+											variant={
+												editing.orientation === orientation
+													? "default"
+													: "outline"
+											}
+											size="sm"
+											className="capitalize"
+											onClick={() => updateTemplate({ orientation })}
+										>
+											{orientation}
+										</Button>
+									))}
+								</div>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="template-employee">Employee ID</Label>
+								<Input
+									id="template-employee"
+									value={editing.employeeId}
+									onChange={(e) =>
+										updateTemplate({ employeeId: e.target.value })
+									}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="template-cost-centre">Cost Centre</Label>
+								<Input
+									id="template-cost-centre"
+									value={editing.costCentre}
+									onChange={(e) =>
+										updateTemplate({ costCentre: e.target.value })
+									}
+								/>
+							</div>
+
+							<div className="space-y-2">
+								<Label htmlFor="template-logo">Header Logo</Label>
+								<div className="flex items-center gap-2">
+									{editing.logoDataUrl && (
+										<img
+											src={editing.logoDataUrl}
+											alt="Template logo"
+											className="h-9 max-w-24 rounded border object-contain"
+										/>
+									)}
+									<Input
+										id="template-logo"
+										type="file"
+										accept="image/png,image/jpeg"
+										onChange={(e) => handleLogoChange(e.target.files?.[0])}
+									/>
+									{editing.logoDataUrl && (
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => updateTemplate({ logoDataUrl: undefined })}
+										>
+											<Trash2 className="h-4 w-4" />
+											<span className="sr-only">Remove logo</span>
+										</Button>
+									)}
+								</div>
+							</div>
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Colours</p>
+								<div className="flex gap-4 text-xs text-muted-foreground">
+									{(
+										[
+											["headerColor", "Header"],
+											["headerTextColor", "Header text"],
+											["totalRowColor", "Totals"],
+										] as const
+									).map(([key, label]) => (
+										<label key={key} className="flex items-center gap-1.5">
+											<input
+												type="color"
+												value={editing[key]}
+												onChange={(e) =>
+													updateTemplate({ [key]: e.target.value })
+												}
+												className="h-7 w-9 cursor-pointer rounded border bg-transparent"
+											/>
+											{label}
+										</label>
+									))}
+								</div>
+							</div>
+
+							<div className="space-y-2 sm:col-span-2">
+								<Label htmlFor="template-disclaimer">Footer Disclaimer</Label>
+								<Textarea
+									id="template-disclaimer"
+									placeholder="I certify that these expenses were incurred on company business."
+									value={editing.footerDisclaimer}
+									onChange={(e) =>
+										updateTemplate({ footerDisclaimer: e.target.value })
+									}
+								/>
+							</div>
+
+							<div className="space-y-2 sm:col-span-2">
+								<p className="text-sm font-medium">Columns</p>
+								<p className="text-xs text-muted-foreground">
+									Provider, account, distance, duration and converted amounts
+									only appear when the selected rides have them.
+								</p>
+								<div className="divide-y rounded-md border">
+									{editing.columns.map((id, index) => (
+										<div
+											key={id}
+											className="flex items-center gap-2 px-3 py-1.5 text-sm"
+										>
+											<Checkbox
+												checked
+												disabled={id === "amount"}
+												onCheckedChange={() => toggleColumn(id, false)}
+												aria-label={`Show ${SUMMARY_COLUMN_LABELS[id]}`}
+											/>
+											<span className="flex-1">
+												{SUMMARY_COLUMN_LABELS[id]}
+											</span>
+											<Button
+												variant="ghost"
+												size="icon"
+												disabled={index === 0}
+												onClick={() => moveColumn(index, -1)}
+											>
+												<ArrowUp className="h-4 w-4" />
+												<span className="sr-only">Move up</span>
+											</Button>
+											<Button
+												variant="ghost"
+												size="icon"
+												disabled={index === editing.columns.length - 1}
+												onClick={() => moveColumn(index, 1)}
+											>
+												<ArrowDown className="h-4 w-4" />
+												<span className="sr-only">Move down</span>
+											</Button>
+										</div>
+									))}
+									{ALL_COLUMNS.filter(
+										(id) => !editing.columns.includes(id),
+									).map((id) => (
+										<div
+											key={id}
+											className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground"
+										>
+											<Checkbox
+												checked={false}
+												onCheckedChange={() => toggleColumn(id, true)}
+												aria-label={`Show ${SUMMARY_COLUMN_LABELS[id]}`}
+											/>
+											<span className="flex-1">
+												{SUMMARY_COLUMN_LABELS[id]}
+											</span>
+										</div>
+									))}
+								</div>
+							</div>
+						</div>
+					)}
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+
+					<div className="flex justify-end gap-2">
+						<Button variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave}>Save Templates</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
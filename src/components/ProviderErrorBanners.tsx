@@ -0,0 +1,109 @@
+import { AlertTriangle, RefreshCw, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	describeProviderError,
+	getProviderErrorAction,
+	type ProviderError,
+} from "@/providers/provider-errors";
+import type { ProviderId } from "@/providers/types";
+
+/** An error from one account's last fetch or download. */
+export interface ProviderErrorEntry {
+	/** Stable across renders, for keys and dismissing. */
+	id: string;
+	providerId: ProviderId;
+	/**
+	 * Unset for errors about the provider's stored credentials as a whole,
+	 * which are forgotten before reconnecting.
+	 */
+	accountId?: string;
+	providerName: string;
+	/** Account label, shown when several accounts are in view. */
+	accountLabel?: string;
+	error: ProviderError;
+	/**
+	 * Set for errors from a receipt download. Retry fetches rides again, so
+	 * it is not offered for these.
+	 */
+	fromReceiptDownload?: boolean;
+}
+
+interface ProviderErrorBannersProps {
+	errors: ProviderErrorEntry[];
+	/** Reconnect the account the error came from, or the provider. */
+	onReconnect: (entry: ProviderErrorEntry) => void;
+	onRetry: () => void;
+	onDismiss: (id: string) => void;
+	/** Disables Retry while a fetch is already running. */
+	isRetrying?: boolean;
+}
+
+export function ProviderErrorBanners({
+	errors,
+	onReconnect,
+	onRetry,
+	onDismiss,
+	isRetrying,
+}: ProviderErrorBannersProps) {
+	if (errors.length === 0) return null;
+
+	return (
+		<div className="flex flex-col gap-2 mb-6">
+			{errors.map((entry) => {
+				const errorAction = getProviderErrorAction(entry.error);
+				const action =
+					errorAction === "retry" && entry.fromReceiptDownload
+						? null
+						: errorAction;
+				const name = entry.accountLabel
+					? `${entry.providerName} (${entry.accountLabel})`
+					: entry.providerName;
+				return (
+					<Alert key={entry.id} variant="destructive">
+						<AlertTriangle />
+						<AlertTitle className="pr-8">
+							{describeProviderError(entry.error, name)}
+						</AlertTitle>
+						<AlertDescription>
+							<p className="break-all">{entry.error.message}</p>
+							{action && (
+								<Button
+									variant="outline"
+									size="sm"
+									className="mt-1"
+									disabled={action === "retry" && isRetrying}
+									onClick={() =>
+										action === "reconnect" ? onReconnect(entry) : onRetry()
+									}
+								>
+									{action === "reconnect" ? (
+										entry.accountId === undefined ? (
+											"Forget and Reconnect"
+										) : (
+											"Reconnect"
+										)
+									) : (
+										<>
+											<RefreshCw className="mr-2 h-3 w-3" />
+											Retry
+										</>
+									)}
+								</Button>
+							)}
+						</AlertDescription>
+						<Button
+							variant="ghost"
+							size="icon-sm"
+							className="absolute top-2 right-2"
+							aria-label="Dismiss"
+							onClick={() => onDismiss(entry.id)}
+						>
+							<X />
+						</Button>
+					</Alert>
+				);
+			})}
+		</div>
+	);
+}
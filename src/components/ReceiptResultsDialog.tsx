@@ -0,0 +1,137 @@
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCurrency } from "@/lib/currency";
+import type { ReceiptOutcome } from "@/types/rides";
+import type { TransformedRide } from "@/types/uber-api";
+
+interface ReceiptResultsDialogProps {
+	/**
+	 * Which export ran: a summary report, the receipts merged into one PDF,
+	 * or the receipts as separate files in a ZIP.
+	 */
+	kind: "report" | "invoices" | "archive";
+	/** Outcome per ride of the last export, in table order. */
+	outcomes: ReceiptOutcome[];
+	/** Rides of the last export, for dates, routes and amounts. */
+	rides: TransformedRide[];
+	/** Whether the export added placeholder pages for missing receipts. */
+	placeholderPages: boolean;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const FAILURE_LABELS: Record<string, string> = {
+	"download-failed": "Download failed",
+	"merge-failed": "Unreadable PDF",
+};
+
+function formatRideDate(isoTime: string): string {
+	const date = new Date(isoTime);
+	return Number.isNaN(date.getTime())
+		? isoTime
+		: format(date, "MMM d, yyyy HH:mm");
+}
+
+export function ReceiptResultsDialog({
+	kind,
+	outcomes,
+	rides,
+	placeholderPages,
+	open,
+	onOpenChange,
+}: ReceiptResultsDialogProps) {
+	const ridesById = new Map(rides.map((ride) => [ride.rideId, ride]));
+	const requested = outcomes.filter((o) => o.status !== "not-requested");
+	const merged = requested.filter((o) => o.status === "merged");
+	const failed = requested.filter((o) => o.status !== "merged");
+	const notRequested = outcomes.length - requested.length;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl w-[95vw] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Export Results</DialogTitle>
+					<DialogDescription>
+						{`${merged.length} of ${requested.length} receipts included.`}
+						{notRequested > 0 &&
+							` ${notRequested} ${notRequested === 1 ? "ride has" : "rides have"} no receipt from ${notRequested === 1 ? "its" : "their"} provider and ${notRequested === 1 ? "is" : "are"} listed in the summary only.`}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{failed.length === 0 ? (
+						<Alert>
+							<CheckCircle2 className="h-4 w-4" />
+							<AlertDescription>Every receipt was included.</AlertDescription>
+						</Alert>
+					) : (
+						<>
+							<Alert variant="destructive">
+								<AlertTriangle className="h-4 w-4" />
+								<AlertDescription>
+									{failed.length === 1
+										? "1 receipt is missing."
+										: `${failed.length} receipts are missing.`}{" "}
+									{kind === "invoices"
+										? "They are not in the downloaded file."
+										: kind === "archive"
+											? "They are not in the ZIP."
+											: placeholderPages
+												? "The rides are still in the summary table, numbered in amber, with a placeholder page in place of each receipt."
+												: "The rides are still in the summary table, numbered in amber. Turn on placeholder pages in the export menu to mark where the receipts belong."}
+								</AlertDescription>
+							</Alert>
+							<ul className="divide-y rounded-md border">
+								{failed.map((outcome) => {
+									const ride = ridesById.get(outcome.rideId);
+									// Same numbering as the summary table
+									const rideNumber =
+										outcomes.findIndex((o) => o.rideId === outcome.rideId) + 1;
+									return (
+										<li key={outcome.rideId} className="space-y-1 p-3 text-sm">
+											<div className="flex items-center justify-between gap-2">
+												<span className="font-medium">
+													{kind === "report" && `${rideNumber}. `}
+													{ride
+														? formatRideDate(ride.startTime)
+														: outcome.rideId}
+												</span>
+												<Badge variant="outline">
+													{FAILURE_LABELS[outcome.status]}
+												</Badge>
+											</div>
+											{ride && (
+												<p className="text-muted-foreground">
+													{`${ride.startLocation} → ${ride.endLocation} · ${formatCurrency(ride.totalAmount, ride.currency)}`}
+												</p>
+											)}
+											{outcome.error && (
+												<p className="text-xs text-amber-700 dark:text-amber-400">
+													{outcome.error}
+												</p>
+											)}
+										</li>
+									);
+								})}
+							</ul>
+						</>
+					)}
+
+					<div className="flex justify-end">
+						<Button onClick={() => onOpenChange(false)}>Close</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
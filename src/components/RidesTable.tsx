@@ -1,4 +1,5 @@
 import {
+	type Column,
 	type ColumnDef,
 	type ColumnFiltersState,
 	type FilterFn,
@@ -34,16 +35,20 @@ import {
 	TableHeader,
 	TableRow,
 } from "@/components/ui/table";
-import type { TransformedRide } from "@/types/uber-api";
+import { formatCurrency } from "@/lib/currency";
+import { getProvider } from "@/providers/registry";
+import type { NormalizedRide, ProviderId } from "@/providers/types";
 
 interface RidesTableProps {
-	rides: TransformedRide[];
+	rides: NormalizedRide[];
 	rowSelection: RowSelectionState;
 	onRowSelectionChange: (selection: RowSelectionState) => void;
 	sorting: SortingState;
 	onSortingChange: (sorting: SortingState) => void;
 	statusFilter: "all" | "COMPLETED";
 	onStatusFilterChange: (value: "all" | "COMPLETED") => void;
+	/** Show the provider column and provider filter chips (aggregated view). */
+	showProvider?: boolean;
 }
 
 function formatDateTime(dateStr: string): { date: string; time: string } {
@@ -61,6 +66,40 @@ function formatDateTime(dateStr: string): { date: string; time: string } {
 	}
 }
 
+function formatDuration(minutes: number): string {
+	if (minutes < 60) return `${minutes} min`;
+	const hours = Math.floor(minutes / 60);
+	const rest = minutes % 60;
+	return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function SortableHeader({
+	column,
+	label,
+	className = "",
+}: {
+	column: Column<NormalizedRide, unknown>;
+	label: string;
+	className?: string;
+}) {
+	return (
+		<button
+			type="button"
+			className={`flex items-center gap-1 hover:text-foreground transition-colors ${className}`}
+			onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+		>
+			{label}
+			{column.getIsSorted() === "asc" ? (
+				<ArrowUp className="h-4 w-4" />
+			) : column.getIsSorted() === "desc" ? (
+				<ArrowDown className="h-4 w-4" />
+			) : (
+				<ArrowUpDown className="h-4 w-4 opacity-50" />
+			)}
+		</button>
+	);
+}
+
 function getVehicleIcon(vehicleType: string) {
 	const lower = vehicleType?.toLowerCase() || "";
 	if (lower.includes("moto") || lower.includes("bike")) {
@@ -73,7 +112,7 @@ function getVehicleIcon(vehicleType: string) {
 }
 
 // Custom global filter that searches across route, driver, and vehicle type
-const globalFilterFn: FilterFn<TransformedRide> = (
+const globalFilterFn: FilterFn<NormalizedRide> = (
 	row,
 	_columnId,
 	filterValue,
@@ -102,9 +141,12 @@ export function RidesTable({
 	sorting,
 	statusFilter,
 	onStatusFilterChange,
+	showProvider = false,
 }: RidesTableProps) {
 	// Filter state
 	const [searchQuery, setSearchQuery] = useState("");
+	const [providerFilter, setProviderFilter] = useState<ProviderId[]>([]);
+	const [profileFilter, setProfileFilter] = useState<string[]>([]);
 	const [vehicleTypeFilter, setVehicleTypeFilter] = useState<string[]>([]);
 	const [amountMin, setAmountMin] = useState<string>("");
 	const [amountMax, setAmountMax] = useState<string>("");
@@ -113,6 +155,37 @@ export function RidesTable({
 	// Shift+click tracking
 	const lastSelectedIndexRef = useRef<number | null>(null);
 
+	// Extract unique providers from ride data (aggregated view only)
+	const availableProviders = useMemo(() => {
+		if (!showProvider) return [];
+		const ids = new Set<ProviderId>();
+		for (const ride of rides) {
+			ids.add(ride.provider);
+		}
+		return Array.from(ids).map(getProvider);
+	}, [rides, showProvider]);
+
+	// Distance / duration columns only when some ride reports them
+	const hasDistance = useMemo(
+		() => rides.some((ride) => ride.distanceKm !== undefined),
+		[rides],
+	);
+	const hasDuration = useMemo(
+		() => rides.some((ride) => ride.durationMinutes !== undefined),
+		[rides],
+	);
+
+	// Extract unique billing profiles (e.g. Personal / Business) from ride data
+	const availableProfiles = useMemo(() => {
+		const names = new Set<string>();
+		for (const ride of rides) {
+			if (ride.profile) {
+				names.add(ride.profile);
+			}
+		}
+		return Array.from(names).sort();
+	}, [rides]);
+
 	// Extract unique vehicle types from ride data
 	const availableVehicleTypes = useMemo(() => {
 		const types = new Set<string>();
@@ -128,16 +201,32 @@ export function RidesTable({
 	const activeFilterCount = useMemo(() => {
 		let count = 0;
 		if (searchQuery) count++;
+		if (providerFilter.length > 0) count++;
+		if (profileFilter.length > 0) count++;
 		if (vehicleTypeFilter.length > 0) count++;
 		if (amountMin || amountMax) count++;
 		if (statusFilter !== "COMPLETED") count++;
 		return count;
-	}, [searchQuery, vehicleTypeFilter, amountMin, amountMax, statusFilter]);
-
-	// Update column filters when vehicle type or amount filters change
+	}, [
+		searchQuery,
+		providerFilter,
+		profileFilter,
+		vehicleTypeFilter,
+		amountMin,
+		amountMax,
+		statusFilter,
+	]);
+
+	// Update column filters when provider, vehicle type or amount filters change
 	useEffect(() => {
 		const filters: ColumnFiltersState = [];
 
+		if (providerFilter.length > 0) {
+			filters.push({ id: "provider", value: providerFilter });
+		}
+		if (profileFilter.length > 0) {
+			filters.push({ id: "profile", value: profileFilter });
+		}
 		if (vehicleTypeFilter.length > 0) {
 			filters.push({ id: "vehicleType", value: vehicleTypeFilter });
 		}
@@ -155,10 +244,19 @@ export function RidesTable({
 		}
 
 		setColumnFilters(filters);
-	}, [vehicleTypeFilter, amountMin, amountMax, statusFilter]);
+	}, [
+		providerFilter,
+		profileFilter,
+		vehicleTypeFilter,
+		amountMin,
+		amountMax,
+		statusFilter,
+	]);
 
 	const clearAllFilters = useCallback(() => {
 		setSearchQuery("");
+		setProviderFilter([]);
+		setProfileFilter([]);
 		setVehicleTypeFilter([]);
 		setAmountMin("");
 		setAmountMax("");
@@ -171,8 +269,40 @@ export function RidesTable({
 		);
 	}, []);
 
+	const toggleProvider = useCallback((id: ProviderId) => {
+		setProviderFilter((prev) =>
+			prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id],
+		);
+	}, []);
+
+	const toggleProfile = useCallback((name: string) => {
+		setProfileFilter((prev) =>
+			prev.includes(name) ? prev.filter((p) => p !== name) : [...prev, name],
+		);
+	}, []);
+
+	// Profile column filter
+	const profileFilterFn: FilterFn<NormalizedRide> = useCallback(
+		(row, _columnId, filterValue) => {
+			const names = filterValue as string[];
+			if (!names || names.length === 0) return true;
+			return names.includes(row.original.profile || "");
+		},
+		[],
+	);
+
+	// Provider column filter
+	const providerFilterFn: FilterFn<NormalizedRide> = useCallback(
+		(row, _columnId, filterValue) => {
+			const ids = filterValue as ProviderId[];
+			if (!ids || ids.length === 0) return true;
+			return ids.includes(row.original.provider);
+		},
+		[],
+	);
+
 	// Vehicle type column filter
-	const vehicleTypeFilterFn: FilterFn<TransformedRide> = useCallback(
+	const vehicleTypeFilterFn: FilterFn<NormalizedRide> = useCallback(
 		(row, _columnId, filterValue) => {
 			const types = filterValue as string[];
 			if (!types || types.length === 0) return true;
@@ -182,7 +312,7 @@ export function RidesTable({
 	);
 
 	// Amount range column filter
-	const amountRangeFilterFn: FilterFn<TransformedRide> = useCallback(
+	const amountRangeFilterFn: FilterFn<NormalizedRide> = useCallback(
 		(row, _columnId, filterValue) => {
 			const { min, max } = filterValue as {
 				min?: number;
@@ -197,7 +327,7 @@ export function RidesTable({
 	);
 
 	// Status column filter
-	const statusFilterFn: FilterFn<TransformedRide> = useCallback(
+	const statusFilterFn: FilterFn<NormalizedRide> = useCallback(
 		(row, _columnId, filterValue) => {
 			if (filterValue === "all") return true;
 			return row.original.status === filterValue;
@@ -205,7 +335,7 @@ export function RidesTable({
 		[],
 	);
 
-	const columns = useMemo<ColumnDef<TransformedRide>[]>(
+	const columns = useMemo<ColumnDef<NormalizedRide>[]>(
 		() => [
 			{
 				id: "select",
@@ -254,26 +384,9 @@ export function RidesTable({
 			{
 				accessorKey: "startTime",
 				sortingFn: "datetime",
-				header: ({ column }) => {
-					return (
-						<button
-							type="button"
-							className="flex items-center gap-1 hover:text-foreground transition-colors"
-							onClick={() =>
-								column.toggleSorting(column.getIsSorted() === "asc")
-							}
-						>
-							Date/Time
-							{column.getIsSorted() === "asc" ? (
-								<ArrowUp className="h-4 w-4" />
-							) : column.getIsSorted() === "desc" ? (
-								<ArrowDown className="h-4 w-4" />
-							) : (
-								<ArrowUpDown className="h-4 w-4 opacity-50" />
-							)}
-						</button>
-					);
-				},
+				header: ({ column }) => (
+					<SortableHeader column={column} label="Date/Time" />
+				),
 				cell: ({ row }) => {
 					const startTime = row.getValue("startTime") as string;
 					const endTime = row.original.endTime;
@@ -293,6 +406,29 @@ export function RidesTable({
 					);
 				},
 			},
+			{
+				accessorKey: "provider",
+				header: "Provider",
+				cell: ({ row }) => {
+					const descriptor = getProvider(row.original.provider);
+					const Icon = descriptor.icon;
+					return (
+						<div className="flex flex-col items-start gap-0.5">
+							<Badge variant="outline" className="gap-1 font-normal">
+								<Icon className="h-3 w-3" />
+								{descriptor.name}
+							</Badge>
+							{row.original.accountLabel && (
+								<span className="text-xs text-muted-foreground">
+									{row.original.accountLabel}
+								</span>
+							)}
+						</div>
+					);
+				},
+				filterFn: providerFilterFn,
+				enableSorting: false,
+			},
 			{
 				id: "route",
 				header: "Route",
@@ -345,6 +481,10 @@ export function RidesTable({
 				},
 				filterFn: vehicleTypeFilterFn,
 			},
+			{
+				accessorKey: "profile",
+				filterFn: profileFilterFn,
+			},
 			{
 				accessorKey: "status",
 				header: () => null,
@@ -366,46 +506,50 @@ export function RidesTable({
 				},
 			},
 			{
-				accessorKey: "totalAmount",
-				header: ({ column }) => {
-					return (
-						<button
-							type="button"
-							className="flex items-center gap-1 hover:text-foreground transition-colors ml-auto"
-							onClick={() =>
-								column.toggleSorting(column.getIsSorted() === "asc")
-							}
-						>
-							Amount
-							{column.getIsSorted() === "asc" ? (
-								<ArrowUp className="h-4 w-4" />
-							) : column.getIsSorted() === "desc" ? (
-								<ArrowDown className="h-4 w-4" />
-							) : (
-								<ArrowUpDown className="h-4 w-4 opacity-50" />
-							)}
-						</button>
+				accessorKey: "distanceKm",
+				header: ({ column }) => (
+					<SortableHeader column={column} label="Distance" />
+				),
+				cell: ({ row }) => {
+					const km = row.original.distanceKm;
+					return km === undefined ? (
+						<span className="text-sm text-muted-foreground italic">—</span>
+					) : (
+						<span className="text-sm whitespace-nowrap">
+							{km.toFixed(1)} km
+						</span>
+					);
+				},
+				sortUndefined: "last",
+			},
+			{
+				accessorKey: "durationMinutes",
+				header: ({ column }) => (
+					<SortableHeader column={column} label="Duration" />
+				),
+				cell: ({ row }) => {
+					const minutes = row.original.durationMinutes;
+					return minutes === undefined ? (
+						<span className="text-sm text-muted-foreground italic">—</span>
+					) : (
+						<span className="text-sm whitespace-nowrap">
+							{formatDuration(minutes)}
+						</span>
 					);
 				},
+				sortUndefined: "last",
+			},
+			{
+				accessorKey: "totalAmount",
+				header: ({ column }) => (
+					<SortableHeader column={column} label="Amount" className="ml-auto" />
+				),
 				cell: ({ row }) => {
 					const amount = row.getValue("totalAmount") as number;
-					const currency = row.original.currency;
-					const currencySymbol =
-						currency === "INR"
-							? "₹"
-							: currency === "USD"
-								? "$"
-								: currency === "EUR"
-									? "€"
-									: currency === "GBP"
-										? "£"
-										: currency || "₹";
-
 					return (
 						<div className="flex items-center justify-end gap-2">
 							<span className="text-right font-medium">
-								{currencySymbol}
-								{amount.toFixed(2)}
+								{formatCurrency(amount, row.original.currency)}
 							</span>
 						</div>
 					);
@@ -414,6 +558,8 @@ export function RidesTable({
 			},
 		],
 		[
+			providerFilterFn,
+			profileFilterFn,
 			vehicleTypeFilterFn,
 			amountRangeFilterFn,
 			statusFilterFn,
@@ -430,6 +576,13 @@ export function RidesTable({
 			sorting,
 			globalFilter: searchQuery,
 			columnFilters,
+			// profile is filter-only; its name shows through the chips
+			columnVisibility: {
+				provider: showProvider,
+				profile: false,
+				distanceKm: hasDistance,
+				durationMinutes: hasDuration,
+			},
 		},
 		enableRowSelection: true,
 		onRowSelectionChange: (updater) => {
@@ -555,8 +708,58 @@ export function RidesTable({
 					</div>
 				</div>
 
-				{/* Row 2: Vehicle Type Chips + Filter info */}
+				{/* Row 2: Provider + Vehicle Type Chips + Filter info */}
 				<div className="flex flex-wrap items-center gap-2">
+					{/* Provider chips (aggregated view) */}
+					{availableProviders.length > 0 && (
+						<>
+							<span className="text-sm text-muted-foreground">Provider:</span>
+							{availableProviders.map((p) => {
+								const Icon = p.icon;
+								const isActive = providerFilter.includes(p.id);
+								return (
+									<button
+										key={p.id}
+										type="button"
+										onClick={() => toggleProvider(p.id)}
+										className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-all border ${
+											isActive
+												? "bg-primary text-primary-foreground border-primary"
+												: "bg-muted/50 text-muted-foreground border-transparent hover:bg-muted hover:text-foreground"
+										}`}
+									>
+										<Icon className="h-3 w-3" />
+										{p.name}
+									</button>
+								);
+							})}
+						</>
+					)}
+
+					{/* Billing profile chips (e.g. Uber personal vs business) */}
+					{availableProfiles.length > 1 && (
+						<>
+							<span className="text-sm text-muted-foreground">Profile:</span>
+							{availableProfiles.map((name) => {
+								const isActive = profileFilter.includes(name);
+								return (
+									<button
+										key={name}
+										type="button"
+										onClick={() => toggleProfile(name)}
+										className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-all border ${
+											isActive
+												? "bg-primary text-primary-foreground border-primary"
+												: "bg-muted/50 text-muted-foreground border-transparent hover:bg-muted hover:text-foreground"
+										}`}
+									>
+										{name}
+									</button>
+								);
+							})}
+						</>
+					)}
+
 					{/* Vehicle type chips */}
 					{availableVehicleTypes.length > 0 && (
 						<>
@@ -670,7 +873,7 @@ export function RidesTable({
 						) : (
 							<TableRow>
 								<TableCell
-									colSpan={columns.length - 1}
+									colSpan={table.getVisibleLeafColumns().length - 1}
 									className="h-32 text-center"
 								>
 									<div className="flex flex-col items-center gap-2">
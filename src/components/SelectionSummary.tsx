@@ -1,32 +1,51 @@
 import {
+	AlertTriangle,
 	Ban,
 	Download,
+	FileArchive,
 	FileSpreadsheet,
 	FileText,
+	LayoutTemplate,
 	MoreVertical,
+	Repeat,
 	User,
+	X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
 	DropdownMenu,
+	DropdownMenuCheckboxItem,
 	DropdownMenuContent,
+	DropdownMenuGroup,
 	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
 	DropdownMenuSeparator,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
+import { formatCurrency, formatCurrencyTotals } from "@/lib/currency";
+import type { PdfTemplate } from "@/lib/pdf-templates";
+import type { CurrencyConversion, CurrencyTotal } from "@/types/rides";
 import type { TransformedRide } from "@/types/uber-api";
 
 interface RidesSummary {
 	selectedCount: number;
-	totalAmount: number;
-	currency: string;
+	/** One entry per currency in the selection. */
+	totals: CurrencyTotal[];
+	/** Converted grand total in the reporting currency. */
+	conversion?: CurrencyConversion;
 	rides: TransformedRide[];
 }
 
 interface SelectionSummaryProps {
 	summary: RidesSummary;
 	isLoading: boolean;
+	/** Receipt download progress while isLoading, e.g. "Downloading receipts (3/40)...". */
+	downloadProgress?: string;
+	/** Cancels the receipt download in flight. */
+	onCancelDownload?: () => void;
 	userName?: string;
 	/** Active provider's display name, used in capability labels. */
 	providerName: string;
@@ -34,22 +53,46 @@ interface SelectionSummaryProps {
 	supportsReceiptPdf: boolean;
 	onDownloadReport: () => void;
 	onDownloadInvoices: () => void;
+	/** Opens the ZIP export options; one PDF per receipt. */
+	onDownloadZip: () => void;
 	onDownloadSummaryPdf: () => void;
 	onDownloadCsv: () => void;
+	onOpenExchangeRates: () => void;
+	/** Saved summary PDF templates and the one the next export uses. */
+	pdfTemplates: PdfTemplate[];
+	selectedPdfTemplateId: string;
+	onSelectPdfTemplate: (id: string) => void;
+	onOpenPdfTemplates: () => void;
+	/** Whether reports get a placeholder page for each missing receipt. */
+	placeholderPages: boolean;
+	onPlaceholderPagesChange: (enabled: boolean) => void;
 }
 
 export function SelectionSummary({
 	summary,
 	isLoading,
+	downloadProgress,
+	onCancelDownload,
 	userName,
 	providerName,
 	supportsReceiptPdf,
 	onDownloadReport,
 	onDownloadInvoices,
+	onDownloadZip,
 	onDownloadSummaryPdf,
 	onDownloadCsv,
+	onOpenExchangeRates,
+	pdfTemplates,
+	selectedPdfTemplateId,
+	onSelectPdfTemplate,
+	onOpenPdfTemplates,
+	placeholderPages,
+	onPlaceholderPagesChange,
 }: SelectionSummaryProps) {
 	const hasSelection = summary.selectedCount > 0;
+	const isMixedCurrency = summary.totals.length > 1;
+	// Only set when one of the user's exchange rates applies
+	const { conversion } = summary;
 	// Providers without receipt PDFs (e.g. Rapido) can only export a summary.
 	const primaryAction = supportsReceiptPdf
 		? onDownloadReport
@@ -92,15 +135,60 @@ export function SelectionSummary({
 						<Separator orientation="vertical" className="h-6 hidden sm:block" />
 						<div className="flex items-center gap-1.5">
 							<span className="text-2xl font-bold">
-								{summary.currency} {summary.totalAmount.toFixed(2)}
+								{formatCurrencyTotals(summary.totals)}
 							</span>
 							<span className="text-sm text-muted-foreground hidden sm:inline">
-								total
+								{isMixedCurrency ? "totals" : "total"}
 							</span>
 						</div>
+						{conversion && (
+							<button
+								type="button"
+								onClick={onOpenExchangeRates}
+								className="flex items-center gap-1.5 text-sm hover:underline"
+								title="Edit exchange rates"
+							>
+								<Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+								<span className="font-semibold">
+									≈ {formatCurrency(conversion.total, conversion.currency)}
+								</span>
+								{conversion.missingCurrencies.length > 0 && (
+									<span className="text-xs text-amber-700 dark:text-amber-400">
+										(no rate for {conversion.missingCurrencies.join(", ")})
+									</span>
+								)}
+							</button>
+						)}
+						{isMixedCurrency && (
+							<div
+								className="flex items-center gap-1.5 rounded-md border border-amber-500/50 bg-amber-500/10 px-2 py-1 text-xs text-amber-700 dark:text-amber-400"
+								title="Amounts in different currencies are totalled separately and never added together."
+							>
+								<AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+								<span>
+									Mixed currencies (
+									{summary.totals.map((t) => t.currency).join(", ")})
+								</span>
+							</div>
+						)}
 					</div>
 
 					<div className="flex items-center">
+						{isLoading && downloadProgress && (
+							<span className="mr-3 hidden text-sm text-muted-foreground md:inline">
+								{downloadProgress}
+							</span>
+						)}
+						{isLoading && onCancelDownload && (
+							<Button
+								variant="ghost"
+								onClick={onCancelDownload}
+								className="mr-2"
+							>
+								<X className="mr-1 h-4 w-4" />
+								Cancel
+							</Button>
+						)}
 						<div className="flex items-center">
 							<Button
 								onClick={primaryAction}
@@ -132,6 +220,10 @@ export function SelectionSummary({
 												<Download className="mr-2 h-4 w-4" />
 												Download Invoices
 											</DropdownMenuItem>
+											<DropdownMenuItem onClick={onDownloadZip}>
+												<FileArchive className="mr-2 h-4 w-4" />
+												Download as ZIP
+											</DropdownMenuItem>
 											<DropdownMenuItem onClick={onDownloadSummaryPdf}>
 												<FileText className="mr-2 h-4 w-4" />
 												PDF Summary
@@ -150,6 +242,40 @@ export function SelectionSummary({
 										<FileSpreadsheet className="mr-2 h-4 w-4" />
 										CSV Summary
 									</DropdownMenuItem>
+									<DropdownMenuSeparator />
+									<DropdownMenuItem onClick={onOpenExchangeRates}>
+										<Repeat className="mr-2 h-4 w-4" />
+										Exchange Rates
+									</DropdownMenuItem>
+									<DropdownMenuSeparator />
+									<DropdownMenuGroup>
+										<DropdownMenuLabel>PDF Template</DropdownMenuLabel>
+										<DropdownMenuRadioGroup
+											value={selectedPdfTemplateId}
+											onValueChange={(value) => onSelectPdfTemplate(value)}
+										>
+											{pdfTemplates.map((template) => (
+												<DropdownMenuRadioItem
+													key={template.id}
+													value={template.id}
+												>
+													{template.name}
+												</DropdownMenuRadioItem>
+											))}
+										</DropdownMenuRadioGroup>
+									</DropdownMenuGroup>
+									<DropdownMenuItem onClick={onOpenPdfTemplates}>
+										<LayoutTemplate className="mr-2 h-4 w-4" />
+										Edit Templates
+									</DropdownMenuItem>
+									{supportsReceiptPdf && (
+										<DropdownMenuCheckboxItem
+											checked={placeholderPages}
+											onCheckedChange={onPlaceholderPagesChange}
+										>
+											Placeholder pages for missing receipts
+										</DropdownMenuCheckboxItem>
+									)}
 								</DropdownMenuContent>
 							</DropdownMenu>
 						</div>
@@ -0,0 +1,126 @@
+import { AlertCircle, Loader2, Lock } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface UnlockCredentialsDialogProps {
+	open: boolean;
+	/** Resolves false when the passphrase is wrong. */
+	onUnlock: (passphrase: string) => Promise<boolean>;
+	/** Delete the encrypted credentials, for a forgotten passphrase. */
+	onForget: () => void;
+}
+
+/**
+ * Asks for the passphrase of encrypted credentials. It cannot be dismissed:
+ * the app stays locked until it is unlocked or the credentials are forgotten.
+ */
+export function UnlockCredentialsDialog({
+	open,
+	onUnlock,
+	onForget,
+}: UnlockCredentialsDialogProps) {
+	const [passphrase, setPassphrase] = useState("");
+	const [isUnlocking, setIsUnlocking] = useState(false);
+	const [confirmForget, setConfirmForget] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!open) return;
+		setPassphrase("");
+		setConfirmForget(false);
+		setError(null);
+	}, [open]);
+
+	const handleUnlock = async () => {
+		if (!passphrase) return;
+		setIsUnlocking(true);
+		setError(null);
+		try {
+			if (!(await onUnlock(passphrase))) setError("Wrong passphrase");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to unlock");
+		} finally {
+			setIsUnlocking(false);
+		}
+	};
+
+	return (
+		<Dialog open={open}>
+			<DialogContent className="max-w-md w-[95vw]" showCloseButton={false}>
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Lock className="h-4 w-4" />
+						Unlock Credentials
+					</DialogTitle>
+					<DialogDescription>
+						Your provider credentials are encrypted. Enter your passphrase to
+						use them.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form
+					className="space-y-4"
+					onSubmit={(e) => {
+						e.preventDefault();
+						handleUnlock();
+					}}
+				>
+					<div className="space-y-2">
+						<Label htmlFor="unlock-passphrase">Passphrase</Label>
+						<Input
+							id="unlock-passphrase"
+							type="password"
+							autoComplete="current-password"
+							autoFocus
+							value={passphrase}
+							onChange={(e) => setPassphrase(e.target.value)}
+						/>
+					</div>
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+
+					{confirmForget && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>
+								This deletes every stored account. You will need to connect them
+								again.
+							</AlertDescription>
+						</Alert>
+					)}
+
+					<div className="flex justify-between gap-2">
+						<Button
+							type="button"
+							variant="ghost"
+							onClick={() =>
+								confirmForget ? onForget() : setConfirmForget(true)
+							}
+						>
+							{confirmForget ? "Delete Credentials" : "Forgot Passphrase?"}
+						</Button>
+						<Button type="submit" disabled={isUnlocking || !passphrase}>
+							{isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+							Unlock
+						</Button>
+					</div>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
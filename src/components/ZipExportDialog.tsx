@@ -0,0 +1,166 @@
+import { AlertTriangle, FileArchive } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	DEFAULT_ZIP_EXPORT,
+	FILENAME_TOKENS,
+	type FilenameToken,
+	findUnknownTokens,
+	formatReceiptFilename,
+	type ZipExportSettings,
+} from "@/lib/receipt-zip";
+import type { RideData } from "@/types/rides";
+
+interface ZipExportDialogProps {
+	settings: ZipExportSettings;
+	/** Called with the edited settings; the caller saves them and exports. */
+	onDownload: (settings: ZipExportSettings) => void;
+	/** First selected ride, for the filename preview. */
+	previewRide?: RideData;
+	selectedCount: number;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const TOKENS = Object.keys(FILENAME_TOKENS) as FilenameToken[];
+
+export function ZipExportDialog({
+	settings,
+	onDownload,
+	previewRide,
+	selectedCount,
+	open,
+	onOpenChange,
+}: ZipExportDialogProps) {
+	const [draft, setDraft] = useState<ZipExportSettings>(settings);
+
+	// Start each export from the saved settings
+	useEffect(() => {
+		if (open) setDraft(settings);
+	}, [open, settings]);
+
+	const pattern = draft.filenamePattern.trim();
+	const unknownTokens = findUnknownTokens(pattern);
+	const preview =
+		previewRide && pattern
+			? formatReceiptFilename(pattern, previewRide, 0, selectedCount)
+			: null;
+
+	const handleDownload = () => {
+		onDownload({
+			...draft,
+			filenamePattern: pattern || DEFAULT_ZIP_EXPORT.filenamePattern,
+		});
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-xl w-[95vw] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Download as ZIP</DialogTitle>
+					<DialogDescription>
+						One PDF per receipt, named by the pattern below. The archive is
+						built in this browser.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="zip-filename-pattern">Receipt Filename</Label>
+						<Input
+							id="zip-filename-pattern"
+							placeholder={DEFAULT_ZIP_EXPORT.filenamePattern}
+							value={draft.filenamePattern}
+							onChange={(e) =>
+								setDraft((prev) => ({
+									...prev,
+									filenamePattern: e.target.value,
+								}))
+							}
+							className="font-mono"
+						/>
+						<div className="flex flex-wrap gap-1">
+							{TOKENS.map((token) => (
+								<Button
+									key={token}
+									variant="outline"
+									size="sm"
+									className="font-mono text-xs"
+									title={FILENAME_TOKENS[token]}
+									onClick={() =>
+										setDraft((prev) => ({
+											...prev,
+											filenamePattern: `${prev.filenamePattern.replace(/\.pdf$/i, "")}{${token}}`,
+										}))
+									}
+								>
+									{`{${token}}`}
+								</Button>
+							))}
+						</div>
+						{preview && (
+							<p className="text-xs text-muted-foreground">
+								Example: <span className="font-mono">{preview}</span>
+							</p>
+						)}
+					</div>
+
+					{unknownTokens.length > 0 && (
+						<Alert>
+							<AlertTriangle className="h-4 w-4" />
+							<AlertDescription>
+								{`Unknown ${unknownTokens.length === 1 ? "placeholder" : "placeholders"} ${unknownTokens.map((t) => `{${t}}`).join(", ")} will be kept as typed.`}
+							</AlertDescription>
+						</Alert>
+					)}
+
+					<div className="space-y-2">
+						<p className="text-sm font-medium">Also Include</p>
+						<div className="flex items-center gap-2 text-sm">
+							<Checkbox
+								id="zip-include-summary"
+								checked={draft.includeSummaryPdf}
+								onCheckedChange={(checked) =>
+									setDraft((prev) => ({ ...prev, includeSummaryPdf: checked }))
+								}
+							/>
+							<Label htmlFor="zip-include-summary">PDF summary</Label>
+						</div>
+						<div className="flex items-center gap-2 text-sm">
+							<Checkbox
+								id="zip-include-csv"
+								checked={draft.includeCsv}
+								onCheckedChange={(checked) =>
+									setDraft((prev) => ({ ...prev, includeCsv: checked }))
+								}
+							/>
+							<Label htmlFor="zip-include-csv">CSV summary</Label>
+						</div>
+					</div>
+
+					<div className="flex justify-end gap-2">
+						<Button variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleDownload}>
+							<FileArchive className="mr-2 h-4 w-4" />
+							Download ZIP
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
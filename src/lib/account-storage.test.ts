@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import {
+	EMPTY_ACCOUNTS,
+	getAccountLabel,
+	parseStoredAccounts,
+	readAccounts,
+	removeAccount,
+	type StoredAccounts,
+	serializeAccounts,
+	upsertAccount,
+} from "./account-storage";
+import { createEncryption } from "./credential-vault";
+
+const personal = {
+	id: "a1",
+	label: "Personal",
+	auth: { cookie: "personal" },
+	user: { firstName: "Test", lastName: "User", email: "test@example.com" },
+};
+
+const work = {
+	id: "a2",
+	label: "Work",
+	auth: { cookie: "work" },
+	user: { firstName: "Test", lastName: "User", email: "test@work.example" },
+};
+
+const stored: StoredAccounts = {
+	version: 2,
+	activeAccountId: "a1",
+	accounts: [personal, work],
+};
+
+describe("parseStoredAccounts", () => {
+	test("returns no accounts for missing or malformed values", () => {
+		expect(parseStoredAccounts(null).accounts).toEqual([]);
+		expect(parseStoredAccounts("not json").accounts).toEqual([]);
+	});
+
+	test("migrates legacy bare credentials into a single account", () => {
+		const result = parseStoredAccounts(
+			JSON.stringify({ cookie: "c", csrfToken: "x" }),
+			() => "legacy",
+		);
+		expect(result).toEqual({
+			version: 2,
+			activeAccountId: "legacy",
+			accounts: [
+				{ id: "legacy", label: "", auth: { cookie: "c", csrfToken: "x" } },
+			],
+		});
+	});
+
+	test("round-trips the multi-account format", () => {
+		expect(parseStoredAccounts(JSON.stringify(stored))).toEqual(stored);
+	});
+
+	test("falls back to the first account when the active id is unknown", () => {
+		const result = parseStoredAccounts(
+			JSON.stringify({ ...stored, activeAccountId: "gone" }),
+		);
+		expect(result.activeAccountId).toBe("a1");
+	});
+});
+
+describe("readAccounts", () => {
+	test("reads plain JSON", async () => {
+		const raw = await serializeAccounts(stored, null);
+		expect(await readAccounts(raw, null)).toEqual({ stored, status: "ok" });
+	});
+
+	test("encrypts with a key and reads back only with it", async () => {
+		const { key } = await createEncryption("passphrase", 1_000);
+		const { key: otherKey } = await createEncryption("passphrase", 1_000);
+		const raw = await serializeAccounts(stored, key);
+		expect(raw).not.toContain("personal");
+		expect(await readAccounts(raw, key)).toEqual({ stored, status: "ok" });
+		expect(await readAccounts(raw, null)).toEqual({
+			stored: EMPTY_ACCOUNTS,
+			status: "locked",
+		});
+		expect(await readAccounts(raw, otherKey)).toEqual({
+			stored: EMPTY_ACCOUNTS,
+			status: "undecryptable",
+		});
+		// Stored before encryption was turned on
+		expect(await readAccounts(JSON.stringify(stored), key)).toEqual({
+			stored,
+			status: "ok",
+		});
+	});
+});
+
+describe("upsertAccount", () => {
+	test("appends a new account and makes it active", () => {
+		const result = upsertAccount(
+			{ version: 2, activeAccountId: "a1", accounts: [personal] },
+			work,
+		);
+		expect(result.accounts.map((a) => a.id)).toEqual(["a1", "a2"]);
+		expect(result.activeAccountId).toBe("a2");
+	});
+
+	test("replaces credentials for a user that is already stored", () => {
+		const result = upsertAccount(stored, {
+			id: "new",
+			label: "",
+			auth: { cookie: "fresh" },
+			user: work.user,
+		});
+		expect(result.accounts).toHaveLength(2);
+		expect(result.accounts[1]).toEqual({
+			...work,
+			auth: { cookie: "fresh" },
+		});
+		expect(result.activeAccountId).toBe("a2");
+	});
+});
+
+describe("removeAccount", () => {
+	test("activates the first remaining account when removing the active one", () => {
+		const result = removeAccount(stored, "a1");
+		expect(result.accounts.map((a) => a.id)).toEqual(["a2"]);
+		expect(result.activeAccountId).toBe("a2");
+	});
+});
+
+describe("getAccountLabel", () => {
+	test("prefers the label, then the user's name, then email", () => {
+		expect(getAccountLabel(work)).toBe("Work");
+		expect(getAccountLabel({ ...work, label: "" })).toBe("Test User");
+		expect(
+			getAccountLabel({
+				label: "",
+				user: { firstName: "", lastName: "", email: "a@b.c" },
+			}),
+		).toBe("a@b.c");
+	});
+});
@@ -0,0 +1,238 @@
+import {
+	type CredentialSecurity,
+	decryptText,
+	encryptText,
+	getCredentialStorage,
+	isEncryptedValue,
+} from "@/lib/credential-vault";
+import type { ProviderDescriptor, ProviderUser } from "@/providers/types";
+
+/**
+ * One stored credential set for a provider. `auth` is opaque here and
+ * narrowed inside each provider; `user` is the last resolved user so the
+ * account switcher can render before sessions are re-validated.
+ */
+export interface StoredAccount {
+	id: string;
+	/** User-chosen name such as "Personal" or "Work"; may be empty. */
+	label: string;
+	auth: unknown;
+	user?: ProviderUser;
+}
+
+/**
+ * Everything persisted under a provider's authStorageKey.
+ */
+export interface StoredAccounts {
+	version: 2;
+	activeAccountId: string | null;
+	accounts: StoredAccount[];
+}
+
+export const EMPTY_ACCOUNTS: StoredAccounts = {
+	version: 2,
+	activeAccountId: null,
+	accounts: [],
+};
+
+/**
+ * Parse the raw value stored under a provider's authStorageKey. Values written
+ * before multi-account support hold the bare credentials object; those are
+ * migrated into a single unlabeled account.
+ */
+export function parseStoredAccounts(
+	raw: string | null,
+	createId: () => string = createAccountId,
+): StoredAccounts {
+	if (!raw) return EMPTY_ACCOUNTS;
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch {
+		return EMPTY_ACCOUNTS;
+	}
+	if (!parsed || typeof parsed !== "object") return EMPTY_ACCOUNTS;
+
+	const value = parsed as Partial<StoredAccounts>;
+	if (value.version === 2 && Array.isArray(value.accounts)) {
+		const accounts = value.accounts;
+		const activeAccountId = accounts.some((a) => a.id === value.activeAccountId)
+			? (value.activeAccountId ?? null)
+			: (accounts[0]?.id ?? null);
+		return { version: 2, activeAccountId, accounts };
+	}
+
+	// Legacy: the whole value is one provider's credentials.
+	const id = createId();
+	return {
+		version: 2,
+		activeAccountId: id,
+		accounts: [{ id, label: "", auth: parsed }],
+	};
+}
+
+export function createAccountId(): string {
+	return crypto.randomUUID();
+}
+
+/**
+ * How credentials are read and written right now: the security settings, and
+ * the key once an encrypted store is unlocked.
+ */
+export interface CredentialVault {
+	security: CredentialSecurity;
+	/** Null when credentials are not encrypted, or still locked. */
+	key: CryptoKey | null;
+}
+
+/**
+ * Stored accounts as read, and whether they could be: "locked" when they
+ * are encrypted and there is no key, "undecryptable" when the key does not
+ * open them (e.g. they were encrypted under an older passphrase).
+ */
+export interface AccountsRead {
+	stored: StoredAccounts;
+	status: "ok" | "locked" | "undecryptable";
+}
+
+/**
+ * Read a stored value that may be encrypted. Without the right key an
+ * encrypted value reads as no accounts.
+ */
+export async function readAccounts(
+	raw: string | null,
+	key: CryptoKey | null,
+): Promise<AccountsRead> {
+	let parsed: unknown = null;
+	try {
+		parsed = raw ? JSON.parse(raw) : null;
+	} catch {
+		// Not JSON; parseStoredAccounts below reports no accounts
+	}
+	if (!isEncryptedValue(parsed)) {
+		return { stored: parseStoredAccounts(raw), status: "ok" };
+	}
+	if (!key) return { stored: EMPTY_ACCOUNTS, status: "locked" };
+	try {
+		return {
+			stored: parseStoredAccounts(await decryptText(key, parsed)),
+			status: "ok",
+		};
+	} catch {
+		return { stored: EMPTY_ACCOUNTS, status: "undecryptable" };
+	}
+}
+
+/** The value to store: JSON, encrypted when there is a key. */
+export async function serializeAccounts(
+	stored: StoredAccounts,
+	key: CryptoKey | null,
+): Promise<string> {
+	const json = JSON.stringify(stored);
+	return key ? JSON.stringify(await encryptText(key, json)) : json;
+}
+
+export async function loadAccounts(
+	provider: ProviderDescriptor,
+	vault: CredentialVault,
+): Promise<AccountsRead> {
+	if (typeof window === "undefined") {
+		return { stored: EMPTY_ACCOUNTS, status: "ok" };
+	}
+	const storage = getCredentialStorage(vault.security);
+	return readAccounts(storage.getItem(provider.authStorageKey), vault.key);
+}
+
+// Writes run one at a time, so an older encryption cannot land last
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Store a provider's accounts where the vault says, removing any copy left
+ * in the other storage. Refuses to write while an encrypted store is locked,
+ * which would replace the encrypted accounts.
+ */
+export function saveAccounts(
+	provider: ProviderDescriptor,
+	stored: StoredAccounts,
+	vault: CredentialVault,
+): Promise<void> {
+	if (typeof window === "undefined") return Promise.resolve();
+	if (vault.security.encryption && !vault.key) {
+		return Promise.reject(new Error("Stored credentials are locked"));
+	}
+	const write = async () => {
+		const storage = getCredentialStorage(vault.security);
+		const other = storage === localStorage ? sessionStorage : localStorage;
+		other.removeItem(provider.authStorageKey);
+		if (stored.accounts.length === 0) {
+			storage.removeItem(provider.authStorageKey);
+			return;
+		}
+		storage.setItem(
+			provider.authStorageKey,
+			await serializeAccounts(stored, vault.key),
+		);
+	};
+	pendingWrite = pendingWrite.then(write, write);
+	return pendingWrite;
+}
+
+/** Remove a provider's accounts from both storages, e.g. after a lost passphrase. */
+export function forgetAccounts(provider: ProviderDescriptor): void {
+	if (typeof window === "undefined") return;
+	localStorage.removeItem(provider.authStorageKey);
+	sessionStorage.removeItem(provider.authStorageKey);
+}
+
+/**
+ * Add an account, or replace the credentials of an existing one. A new login
+ * for a user that is already stored (same email) updates that account instead
+ * of creating a duplicate. The saved account becomes active.
+ */
+export function upsertAccount(
+	stored: StoredAccounts,
+	account: StoredAccount,
+): StoredAccounts {
+	const existing = stored.accounts.find(
+		(a) =>
+			a.id === account.id ||
+			(!!account.user?.email && a.user?.email === account.user.email),
+	);
+	const saved = existing
+		? { ...account, id: existing.id, label: account.label || existing.label }
+		: account;
+	const accounts = existing
+		? stored.accounts.map((a) => (a.id === existing.id ? saved : a))
+		: [...stored.accounts, saved];
+	return { version: 2, activeAccountId: saved.id, accounts };
+}
+
+/**
+ * Remove an account; if it was active, the first remaining one takes over.
+ */
+export function removeAccount(
+	stored: StoredAccounts,
+	accountId: string,
+): StoredAccounts {
+	const accounts = stored.accounts.filter((a) => a.id !== accountId);
+	const activeAccountId =
+		stored.activeAccountId === accountId
+			? (accounts[0]?.id ?? null)
+			: stored.activeAccountId;
+	return { version: 2, activeAccountId, accounts };
+}
+
+/**
+ * Label shown for an account: the user-chosen label, else the user's name or
+ * email.
+ */
+export function getAccountLabel(account: {
+	label: string;
+	user?: ProviderUser;
+}): string {
+	if (account.label) return account.label;
+	const name = account.user
+		? `${account.user.firstName} ${account.user.lastName}`.trim()
+		: "";
+	return name || account.user?.email || "Account";
+}
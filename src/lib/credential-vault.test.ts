@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import {
+	createEncryption,
+	DEFAULT_CREDENTIAL_SECURITY,
+	decryptText,
+	encryptText,
+	isEncryptedValue,
+	parseCredentialSecurity,
+	unlockEncryption,
+} from "./credential-vault";
+
+// Few rounds keep the tests fast; real passphrases use PBKDF2_ITERATIONS
+const ITERATIONS = 1_000;
+
+describe("parseCredentialSecurity", () => {
+	test("defaults to plain localStorage for missing or malformed values", () => {
+		expect(parseCredentialSecurity(null)).toEqual(DEFAULT_CREDENTIAL_SECURITY);
+		expect(parseCredentialSecurity("{")).toEqual(DEFAULT_CREDENTIAL_SECURITY);
+		expect(parseCredentialSecurity(JSON.stringify({ version: 9 }))).toEqual(
+			DEFAULT_CREDENTIAL_SECURITY,
+		);
+	});
+
+	test("round-trips saved settings and drops a malformed encryption block", async () => {
+		const { encryption } = await createEncryption("passphrase", ITERATIONS);
+		const security = {
+			version: 1,
+			storage: "session",
+			encryption,
+			autoLockMinutes: 5,
+		};
+		expect(parseCredentialSecurity(JSON.stringify(security))).toEqual(
+			security as typeof DEFAULT_CREDENTIAL_SECURITY,
+		);
+		expect(
+			parseCredentialSecurity(
+				JSON.stringify({ ...security, encryption: { salt: 1 } }),
+			).encryption,
+		).toBeNull();
+	});
+});
+
+describe("encryption", () => {
+	test("unlocks with the passphrase it was created with", async () => {
+		const { encryption, key } = await createEncryption(
+			"correct horse",
+			ITERATIONS,
+		);
+		const value = await encryptText(key, '{"cookie":"sid=secret"}');
+		expect(JSON.stringify(value)).not.toContain("secret");
+		expect(isEncryptedValue(value)).toBe(true);
+
+		const unlocked = await unlockEncryption(encryption, "correct horse");
+		if (!unlocked) throw new Error("Passphrase was rejected");
+		expect(await decryptText(unlocked, value)).toBe('{"cookie":"sid=secret"}');
+	});
+
+	test("rejects a wrong passphrase", async () => {
+		const { encryption } = await createEncryption("correct horse", ITERATIONS);
+		expect(await unlockEncryption(encryption, "wrong horse")).toBeNull();
+	});
+
+	test("uses a fresh nonce for every value", async () => {
+		const { key } = await createEncryption("correct horse", ITERATIONS);
+		const first = await encryptText(key, "same");
+		const second = await encryptText(key, "same");
+		expect(first.iv).not.toBe(second.iv);
+		expect(first.data).not.toBe(second.data);
+	});
+
+	test("fails on tampered ciphertext", async () => {
+		const { key } = await createEncryption("correct horse", ITERATIONS);
+		const value = await encryptText(key, "credentials");
+		const data = atob(value.data);
+		const flipped = String.fromCharCode(data.charCodeAt(0) ^ 1) + data.slice(1);
+		await expect(
+			decryptText(key, { ...value, data: btoa(flipped) }),
+		).rejects.toThrow();
+	});
+});
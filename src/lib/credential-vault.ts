@@ -0,0 +1,205 @@
+const SETTINGS_KEY = "credential_security";
+
+/** PBKDF2-SHA-256 rounds for new passphrases (OWASP 2023 guidance). */
+export const PBKDF2_ITERATIONS = 600_000;
+
+/** Idle minutes offered before an unlocked vault locks; 0 never locks. */
+export const AUTO_LOCK_MINUTES = [0, 5, 15, 30, 60];
+
+/** Known plaintext encrypted with the key, so a wrong passphrase is caught. */
+const CHECK_TEXT = "uber-rides-receipt";
+
+/**
+ * An AES-GCM encrypted string as stored. The `encrypted` marker tells it
+ * apart from plain JSON credentials.
+ */
+export interface EncryptedValue {
+	encrypted: 1;
+	/** 12-byte nonce, base64. */
+	iv: string;
+	/** Ciphertext with the GCM tag, base64. */
+	data: string;
+}
+
+/** How the credential key is derived from the passphrase. */
+export interface CredentialEncryption {
+	/** PBKDF2 salt, base64. */
+	salt: string;
+	iterations: number;
+	check: EncryptedValue;
+}
+
+/**
+ * Where provider credentials are kept and whether they are encrypted. This
+ * holds no secrets, so it always lives in localStorage.
+ */
+export interface CredentialSecurity {
+	version: 1;
+	/** "session" forgets credentials when the tab is closed. */
+	storage: "local" | "session";
+	/** Set when credentials are encrypted with a passphrase. */
+	encryption: CredentialEncryption | null;
+	/** Lock after this many minutes without activity; 0 never locks. */
+	autoLockMinutes: number;
+}
+
+export const DEFAULT_CREDENTIAL_SECURITY: CredentialSecurity = {
+	version: 1,
+	storage: "local",
+	encryption: null,
+	autoLockMinutes: 15,
+};
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+	if (!value || typeof value !== "object") return false;
+	const v = value as Partial<EncryptedValue>;
+	return (
+		v.encrypted === 1 && typeof v.iv === "string" && typeof v.data === "string"
+	);
+}
+
+/**
+ * Parse the stored security settings; anything malformed falls back to the
+ * defaults (plain localStorage).
+ */
+export function parseCredentialSecurity(
+	raw: string | null,
+): CredentialSecurity {
+	if (!raw) return DEFAULT_CREDENTIAL_SECURITY;
+	try {
+		const parsed = JSON.parse(raw) as Partial<CredentialSecurity>;
+		if (parsed.version !== 1) return DEFAULT_CREDENTIAL_SECURITY;
+		const encryption = parsed.encryption;
+		return {
+			version: 1,
+			storage: parsed.storage === "session" ? "session" : "local",
+			encryption:
+				encryption &&
+				typeof encryption.salt === "string" &&
+				typeof encryption.iterations === "number" &&
+				isEncryptedValue(encryption.check)
+					? encryption
+					: null,
+			autoLockMinutes:
+				typeof parsed.autoLockMinutes === "number" &&
+				parsed.autoLockMinutes >= 0
+					? parsed.autoLockMinutes
+					: DEFAULT_CREDENTIAL_SECURITY.autoLockMinutes,
+		};
+	} catch {
+		return DEFAULT_CREDENTIAL_SECURITY;
+	}
+}
+
+export function loadCredentialSecurity(): CredentialSecurity {
+	if (typeof window === "undefined") return DEFAULT_CREDENTIAL_SECURITY;
+	return parseCredentialSecurity(localStorage.getItem(SETTINGS_KEY));
+}
+
+export function saveCredentialSecurity(security: CredentialSecurity): void {
+	if (typeof window === "undefined") return;
+	localStorage.setItem(SETTINGS_KEY, JSON.stringify(security));
+}
+
+/** The browser storage credentials are written to. */
+export function getCredentialStorage(security: CredentialSecurity): Storage {
+	return security.storage === "session" ? sessionStorage : localStorage;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function deriveKey(
+	passphrase: string,
+	salt: Uint8Array<ArrayBuffer>,
+	iterations: number,
+): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(passphrase),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+	return crypto.subtle.deriveKey(
+		{ name: "PBKDF2", hash: "SHA-256", salt, iterations },
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+export async function encryptText(
+	key: CryptoKey,
+	text: string,
+): Promise<EncryptedValue> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const data = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		key,
+		new TextEncoder().encode(text),
+	);
+	return {
+		encrypted: 1,
+		iv: toBase64(iv),
+		data: toBase64(new Uint8Array(data)),
+	};
+}
+
+/** Throws when the key is wrong or the value was tampered with. */
+export async function decryptText(
+	key: CryptoKey,
+	value: EncryptedValue,
+): Promise<string> {
+	const data = await crypto.subtle.decrypt(
+		{ name: "AES-GCM", iv: fromBase64(value.iv) },
+		key,
+		fromBase64(value.data),
+	);
+	return new TextDecoder().decode(data);
+}
+
+/**
+ * Set up encryption for a new passphrase: a fresh salt, and the key it
+ * unlocks.
+ */
+export async function createEncryption(
+	passphrase: string,
+	iterations = PBKDF2_ITERATIONS,
+): Promise<{ encryption: CredentialEncryption; key: CryptoKey }> {
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const key = await deriveKey(passphrase, salt, iterations);
+	return {
+		encryption: {
+			salt: toBase64(salt),
+			iterations,
+			check: await encryptText(key, CHECK_TEXT),
+		},
+		key,
+	};
+}
+
+/** The key for a passphrase, or null when the passphrase is wrong. */
+export async function unlockEncryption(
+	encryption: CredentialEncryption,
+	passphrase: string,
+): Promise<CryptoKey | null> {
+	const key = await deriveKey(
+		passphrase,
+		fromBase64(encryption.salt),
+		encryption.iterations,
+	);
+	try {
+		return (await decryptText(key, encryption.check)) === CHECK_TEXT
+			? key
+			: null;
+	} catch {
+		return null;
+	}
+}
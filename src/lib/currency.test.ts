@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import {
+	formatCurrency,
+	formatCurrencyTotals,
+	getCurrencyTotals,
+} from "./currency";
+
+describe("formatCurrency", () => {
+	test("uses a symbol for known codes and the code otherwise", () => {
+		expect(formatCurrency(84.375, "INR")).toBe("₹84.38");
+		expect(formatCurrency(12.5, "USD")).toBe("$12.50");
+		expect(formatCurrency(35, "AED")).toBe("AED 35.00");
+	});
+});
+
+describe("getCurrencyTotals", () => {
+	test("keeps a single total for a single currency", () => {
+		expect(
+			getCurrencyTotals([
+				{ totalAmount: 100, currency: "INR" },
+				{ totalAmount: 50.5, currency: "INR" },
+			]),
+		).toEqual([{ currency: "INR", amount: 150.5, count: 2 }]);
+	});
+
+	test("groups mixed currencies, most common first", () => {
+		expect(
+			getCurrencyTotals([
+				{ totalAmount: 12.5, currency: "USD" },
+				{ totalAmount: 100, currency: "INR" },
+				{ totalAmount: 200, currency: "INR" },
+				{ totalAmount: 7.5, currency: "USD" },
+				{ totalAmount: 9, currency: "EUR" },
+			]),
+		).toEqual([
+			{ currency: "INR", amount: 300, count: 2 },
+			{ currency: "USD", amount: 20, count: 2 },
+			{ currency: "EUR", amount: 9, count: 1 },
+		]);
+	});
+
+	test("returns no totals for no rides", () => {
+		expect(getCurrencyTotals([])).toEqual([]);
+	});
+});
+
+describe("formatCurrencyTotals", () => {
+	test("joins per-currency totals", () => {
+		expect(
+			formatCurrencyTotals([
+				{ currency: "INR", amount: 300, count: 2 },
+				{ currency: "USD", amount: 20, count: 2 },
+			]),
+		).toBe("₹300.00 + $20.00");
+	});
+});
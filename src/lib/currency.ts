@@ -0,0 +1,55 @@
+import type { CurrencyTotal } from "@/types/rides";
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+	INR: "₹",
+	USD: "$",
+	EUR: "€",
+	GBP: "£",
+};
+
+/**
+ * Get currency symbol for a currency code; unknown codes are shown as the
+ * code followed by a space (e.g. "AED ").
+ */
+export function getCurrencySymbol(currency: string): string {
+	if (!currency) return "";
+	return CURRENCY_SYMBOLS[currency] || `${currency} `;
+}
+
+/**
+ * Format amount with currency symbol
+ */
+export function formatCurrency(amount: number, currency: string): string {
+	return `${getCurrencySymbol(currency)}${amount.toFixed(2)}`;
+}
+
+/**
+ * Total the rides per currency. Amounts in different currencies are never
+ * added together; the most common currency comes first.
+ */
+export function getCurrencyTotals(
+	rides: Array<{ totalAmount: number; currency: string }>,
+): CurrencyTotal[] {
+	const totals = new Map<string, CurrencyTotal>();
+	for (const ride of rides) {
+		const total = totals.get(ride.currency) ?? {
+			currency: ride.currency,
+			amount: 0,
+			count: 0,
+		};
+		total.amount += ride.totalAmount;
+		total.count += 1;
+		totals.set(ride.currency, total);
+	}
+	return Array.from(totals.values()).sort(
+		(a, b) => b.count - a.count || a.currency.localeCompare(b.currency),
+	);
+}
+
+/**
+ * "₹1234.00 + $45.00" — per-currency totals joined for one-line display.
+ */
+export function formatCurrencyTotals(totals: CurrencyTotal[]): string {
+	if (totals.length === 0) return formatCurrency(0, "");
+	return totals.map((t) => formatCurrency(t.amount, t.currency)).join(" + ");
+}
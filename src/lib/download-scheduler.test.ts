@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { startStubServer } from "@/test/stub-server";
+import {
+	DownloadCancelledError,
+	fetchWithRetry,
+	getRetryDelay,
+	runPool,
+} from "./download-scheduler";
+
+// "/slow/<id>" answers <id> after 20ms and records how many requests were
+// in flight at once
+let inFlight = 0;
+let maxInFlight = 0;
+
+const { url, hits } = startStubServer({
+	slow: async (id) => {
+		inFlight++;
+		maxInFlight = Math.max(maxInFlight, inFlight);
+		await Bun.sleep(20);
+		inFlight--;
+		return new Response(id);
+	},
+});
+
+const fast = { baseDelayMs: 1 };
+
+beforeEach(() => {
+	inFlight = 0;
+	maxInFlight = 0;
+});
+
+describe("fetchWithRetry", () => {
+	test("retries rate limiting until the request succeeds", async () => {
+		const response = await fetchWithRetry(
+			url("/status/429?failures=2"),
+			{},
+			fast,
+		);
+		expect(response.status).toBe(200);
+		expect(hits.get("/status/429")).toBe(3);
+	});
+
+	test("returns the last server error once retries run out", async () => {
+		const response = await fetchWithRetry(
+			url("/status/503?failures=10"),
+			{},
+			{ ...fast, retries: 2 },
+		);
+		expect(response.status).toBe(503);
+		expect(hits.get("/status/503")).toBe(3);
+	});
+
+	test("does not retry client errors", async () => {
+		const response = await fetchWithRetry(url("/missing"), {}, fast);
+		expect(response.status).toBe(404);
+		expect(hits.get("/missing")).toBe(1);
+	});
+
+	test("stops when cancelled", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		await expect(
+			fetchWithRetry(url("/status/200"), {}, { signal: controller.signal }),
+		).rejects.toBeInstanceOf(DownloadCancelledError);
+		expect(hits.size).toBe(0);
+	});
+});
+
+describe("getRetryDelay", () => {
+	test("doubles up to the cap and honours Retry-After", () => {
+		expect(getRetryDelay(0, null, 500, 30_000)).toBe(500);
+		expect(getRetryDelay(3, null, 500, 30_000)).toBe(4000);
+		expect(getRetryDelay(10, null, 500, 30_000)).toBe(30_000);
+		expect(getRetryDelay(0, "2", 500, 30_000)).toBe(2000);
+		expect(getRetryDelay(0, "3600", 500, 30_000)).toBe(30_000);
+	});
+});
+
+describe("runPool", () => {
+	const ids = Array.from({ length: 10 }, (_, i) => `ride-${i + 1}`);
+	const download = async (id: string, signal?: AbortSignal) => {
+		const response = await fetchWithRetry(
+			url(`/slow/${id}`),
+			{},
+			{
+				...fast,
+				signal,
+			},
+		);
+		return response.text();
+	};
+
+	test("keeps at most `concurrency` requests in flight, in order", async () => {
+		const progress: number[] = [];
+		const results = await runPool(ids, download, {
+			concurrency: 3,
+			onProgress: (done) => progress.push(done),
+		});
+		expect(results).toEqual(ids);
+		expect(maxInFlight).toBe(3);
+		expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+	});
+
+	test("starts nothing new once cancelled", async () => {
+		const controller = new AbortController();
+		const run = runPool(ids, download, {
+			concurrency: 2,
+			signal: controller.signal,
+			onProgress: (done) => {
+				if (done === 2) controller.abort();
+			},
+		});
+		await expect(run).rejects.toBeInstanceOf(DownloadCancelledError);
+		expect(hits.size).toBeLessThan(ids.length);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Bounded, retrying, cancellable downloads. Used by the server functions
+ * that talk to providers and by the browser code that calls them, so it
+ * only relies on fetch, timers and AbortSignal.
+ */
+
+/** Thrown when a download run is cancelled through its AbortSignal. */
+export class DownloadCancelledError extends Error {
+	constructor() {
+		super("Download cancelled");
+		this.name = "DownloadCancelledError";
+	}
+}
+
+/** The part of fetch the scheduler uses; lets tests and callers wrap it. */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface RetryOptions {
+	/** Retries after the first attempt. Default 4. */
+	retries?: number;
+	/** Delay before the first retry; doubles on each one. Default 500ms. */
+	baseDelayMs?: number;
+	/** Upper bound for any single delay, Retry-After included. Default 30s. */
+	maxDelayMs?: number;
+	signal?: AbortSignal;
+	/** Defaults to the global fetch. */
+	fetch?: FetchFn;
+}
+
+const DEFAULT_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/** Rate limiting and server errors are worth retrying; other statuses are not. */
+export function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+/**
+ * How long to wait before retry number `attempt` (0-based): the server's
+ * Retry-After when it sent one, otherwise exponential backoff.
+ */
+export function getRetryDelay(
+	attempt: number,
+	retryAfter: string | null,
+	baseDelayMs = DEFAULT_BASE_DELAY_MS,
+	maxDelayMs = DEFAULT_MAX_DELAY_MS,
+): number {
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const ms = Number.isFinite(seconds)
+			? seconds * 1000
+			: Date.parse(retryAfter) - Date.now();
+		if (!Number.isNaN(ms)) return Math.min(Math.max(ms, 0), maxDelayMs);
+	}
+	return Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) throw new DownloadCancelledError();
+}
+
+/** Wait `ms`, rejecting with DownloadCancelledError if cancelled meanwhile. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DownloadCancelledError());
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new DownloadCancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * fetch, retried with exponential backoff on 429, 5xx and network errors.
+ * Resolves with the last response once retries run out, so callers handle
+ * a final error status as they would without retries.
+ */
+export async function fetchWithRetry(
+	url: string,
+	init: RequestInit = {},
+	options: RetryOptions = {},
+): Promise<Response> {
+	const {
+		retries = DEFAULT_RETRIES,
+		baseDelayMs = DEFAULT_BASE_DELAY_MS,
+		maxDelayMs = DEFAULT_MAX_DELAY_MS,
+		signal,
+		fetch: fetchFn = fetch,
+	} = options;
+
+	for (let attempt = 0; ; attempt++) {
+		throwIfCancelled(signal);
+		let response: Response;
+		try {
+			response = await fetchFn(url, { ...init, signal });
+		} catch (error) {
+			throwIfCancelled(signal);
+			if (attempt >= retries) throw error;
+			await sleep(
+				getRetryDelay(attempt, null, baseDelayMs, maxDelayMs),
+				signal,
+			);
+			continue;
+		}
+		if (!isRetryableStatus(response.status) || attempt >= retries) {
+			return response;
+		}
+		// Free the connection before waiting
+		await response.body?.cancel();
+		await sleep(
+			getRetryDelay(
+				attempt,
+				response.headers.get("retry-after"),
+				baseDelayMs,
+				maxDelayMs,
+			),
+			signal,
+		);
+	}
+}
+
+export interface PoolOptions<T> {
+	/** Most items worked on at once. */
+	concurrency: number;
+	signal?: AbortSignal;
+	/** Called as each item finishes, with how many are done so far. */
+	onProgress?: (done: number, total: number, item: T) => void;
+}
+
+/**
+ * Run `worker` over every item with at most `concurrency` in flight.
+ * Results keep the order of `items`. A worker error rejects the whole run,
+ * so workers that should not stop the others catch their own errors.
+ * Cancelling stops new items from starting and rejects with
+ * DownloadCancelledError.
+ */
+export async function runPool<T, R>(
+	items: T[],
+	worker: (item: T, signal?: AbortSignal) => Promise<R>,
+	{ concurrency, signal, onProgress }: PoolOptions<T>,
+): Promise<R[]> {
+	throwIfCancelled(signal);
+	const results = new Array<R>(items.length);
+	let next = 0;
+	let done = 0;
+
+	const runLane = async () => {
+		while (next < items.length) {
+			throwIfCancelled(signal);
+			const index = next++;
+			results[index] = await worker(items[index], signal);
+			done++;
+			onProgress?.(done, items.length, items[index]);
+		}
+	};
+
+	const lanes = Math.max(1, Math.min(concurrency, items.length));
+	await Promise.all(Array.from({ length: lanes }, runLane));
+	throwIfCancelled(signal);
+	return results;
+}
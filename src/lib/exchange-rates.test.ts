@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import {
+	convertRides,
+	DEFAULT_EXCHANGE_RATES,
+	type ExchangeRateSettings,
+	findExchangeRate,
+	parseExchangeRates,
+} from "./exchange-rates";
+
+const settings: ExchangeRateSettings = {
+	version: 1,
+	reportingCurrency: "INR",
+	rates: [
+		{ currency: "USD", rate: 83 },
+		{ currency: "USD", rate: 84, date: "2025-02-01" },
+		{ currency: "USD", rate: 85, date: "2025-03-01" },
+		{ currency: "EUR", rate: 90, date: "2025-02-01" },
+	],
+};
+
+// Noon local time, so the calendar day does not depend on the timezone.
+const at = (day: string) => `${day}T12:00:00`;
+
+describe("findExchangeRate", () => {
+	test("is 1 for the reporting currency", () => {
+		expect(findExchangeRate(settings, "INR", at("2025-01-01"))).toBe(1);
+	});
+
+	test("uses the latest dated rate on or before the ride day", () => {
+		expect(findExchangeRate(settings, "USD", at("2025-02-01"))).toBe(84);
+		expect(findExchangeRate(settings, "USD", at("2025-02-28"))).toBe(84);
+		expect(findExchangeRate(settings, "USD", at("2025-04-10"))).toBe(85);
+	});
+
+	test("falls back to the fixed rate before any dated rate", () => {
+		expect(findExchangeRate(settings, "USD", at("2025-01-15"))).toBe(83);
+	});
+
+	test("returns null when no rate applies", () => {
+		expect(findExchangeRate(settings, "EUR", at("2025-01-15"))).toBeNull();
+		expect(findExchangeRate(settings, "GBP", at("2025-02-15"))).toBeNull();
+	});
+});
+
+describe("convertRides", () => {
+	test("converts each ride and totals in the reporting currency", () => {
+		const { rides, conversion } = convertRides(
+			[
+				{ totalAmount: 250, currency: "INR", startTime: at("2025-02-10") },
+				{ totalAmount: 12.5, currency: "USD", startTime: at("2025-02-10") },
+				{ totalAmount: 10, currency: "GBP", startTime: at("2025-02-10") },
+			],
+			settings,
+		);
+		expect(rides.map((r) => [r.exchangeRate, r.convertedAmount])).toEqual([
+			[1, 250],
+			[84, 1050],
+			[undefined, undefined],
+		]);
+		expect(conversion).toEqual({
+			currency: "INR",
+			total: 1300,
+			missingCurrencies: ["GBP"],
+		});
+	});
+
+	test("has no conversion unless one of the rates applies", () => {
+		const usd = [
+			{ totalAmount: 12.5, currency: "USD", startTime: at("2025-02-10") },
+		];
+		const unset = convertRides(usd, DEFAULT_EXCHANGE_RATES);
+		expect(unset.conversion).toBeUndefined();
+		expect(unset.rides[0].convertedAmount).toBeUndefined();
+		expect(
+			convertRides(
+				[{ totalAmount: 250, currency: "INR", startTime: at("2025-02-10") }],
+				settings,
+			).conversion,
+		).toBeUndefined();
+		expect(
+			convertRides(
+				[{ totalAmount: 10, currency: "GBP", startTime: at("2025-02-10") }],
+				settings,
+			).conversion,
+		).toBeUndefined();
+	});
+});
+
+describe("parseExchangeRates", () => {
+	test("round-trips a stored table", () => {
+		expect(parseExchangeRates(JSON.stringify(settings))).toEqual(settings);
+	});
+
+	test("drops malformed rates and falls back on bad input", () => {
+		expect(
+			parseExchangeRates(
+				JSON.stringify({
+					...settings,
+					rates: [
+						{ currency: "USD", rate: 0 },
+						{ currency: "USD", rate: 84, date: "01/02/2025" },
+						{ currency: "EUR", rate: 90 },
+					],
+				}),
+			).rates,
+		).toEqual([{ currency: "EUR", rate: 90 }]);
+		expect(parseExchangeRates("not json")).toEqual(DEFAULT_EXCHANGE_RATES);
+		expect(parseExchangeRates(null)).toEqual(DEFAULT_EXCHANGE_RATES);
+	});
+});
@@ -0,0 +1,146 @@
+import type { CurrencyConversion, RideData } from "@/types/rides";
+
+/** The ride fields conversion reads. */
+type ConvertibleRide = Pick<RideData, "totalAmount" | "currency" | "startTime">;
+
+/** The ride fields conversion adds. */
+type ConvertedRide = Pick<RideData, "exchangeRate" | "convertedAmount">;
+
+const STORAGE_KEY = "exchange_rates";
+
+/**
+ * One user-entered exchange rate: 1 unit of `currency` is worth `rate` units
+ * of the reporting currency. A rate with a `date` applies from that day until
+ * the next dated rate for the same currency; a rate without one is the fixed
+ * fallback.
+ */
+export interface ExchangeRate {
+	currency: string;
+	rate: number;
+	/** "yyyy-MM-dd"; omitted for a fixed rate. */
+	date?: string;
+}
+
+/**
+ * The locally stored rate table. Nothing here is fetched from the network.
+ */
+export interface ExchangeRateSettings {
+	version: 1;
+	reportingCurrency: string;
+	rates: ExchangeRate[];
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateSettings = {
+	version: 1,
+	reportingCurrency: "INR",
+	rates: [],
+};
+
+/**
+ * Parse the stored rate table, dropping malformed entries.
+ */
+export function parseExchangeRates(raw: string | null): ExchangeRateSettings {
+	if (!raw) return DEFAULT_EXCHANGE_RATES;
+	try {
+		const parsed = JSON.parse(raw) as Partial<ExchangeRateSettings>;
+		if (parsed.version !== 1 || typeof parsed.reportingCurrency !== "string") {
+			return DEFAULT_EXCHANGE_RATES;
+		}
+		const rates = Array.isArray(parsed.rates)
+			? parsed.rates.filter(
+					(r): r is ExchangeRate =>
+						typeof r?.currency === "string" &&
+						typeof r.rate === "number" &&
+						r.rate > 0 &&
+						(r.date === undefined || /^\d{4}-\d{2}-\d{2}$/.test(r.date)),
+				)
+			: [];
+		return { version: 1, reportingCurrency: parsed.reportingCurrency, rates };
+	} catch {
+		return DEFAULT_EXCHANGE_RATES;
+	}
+}
+
+export function loadExchangeRates(): ExchangeRateSettings {
+	if (typeof window === "undefined") return DEFAULT_EXCHANGE_RATES;
+	return parseExchangeRates(localStorage.getItem(STORAGE_KEY));
+}
+
+export function saveExchangeRates(settings: ExchangeRateSettings): void {
+	if (typeof window === "undefined") return;
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Local calendar day ("yyyy-MM-dd") of an ISO timestamp, or null. */
+function toDay(isoTime: string): string | null {
+	const date = new Date(isoTime);
+	if (Number.isNaN(date.getTime())) return null;
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Rate converting `currency` into the reporting currency for a ride that
+ * started at `isoTime`: 1 for the reporting currency itself, else the latest
+ * dated rate on or before that day, else the fixed rate. Returns null when
+ * no rate applies.
+ */
+export function findExchangeRate(
+	settings: ExchangeRateSettings,
+	currency: string,
+	isoTime: string,
+): number | null {
+	if (currency === settings.reportingCurrency) return 1;
+	const candidates = settings.rates.filter((r) => r.currency === currency);
+	const day = toDay(isoTime);
+	const dated = candidates
+		.filter((r) => r.date !== undefined && day !== null && r.date <= day)
+		.sort((a, b) => (b.date as string).localeCompare(a.date as string));
+	if (dated.length > 0) return dated[0].rate;
+	return candidates.find((r) => r.date === undefined)?.rate ?? null;
+}
+
+/**
+ * Convert every ride into the reporting currency. Rides without an
+ * applicable rate are left unconverted and their currencies listed in
+ * `missingCurrencies`; the converted total covers the other rides only.
+ * There is no conversion at all unless one of the user's rates applies to
+ * a ride, so a selection in one foreign currency with no rates set up is
+ * not reported as a zero total.
+ */
+export function convertRides<T extends ConvertibleRide>(
+	rides: T[],
+	settings: ExchangeRateSettings,
+): { rides: Array<T & ConvertedRide>; conversion?: CurrencyConversion } {
+	const missing = new Set<string>();
+	let total = 0;
+	let usesRate = false;
+	const converted = rides.map((ride): T & ConvertedRide => {
+		const rate = findExchangeRate(settings, ride.currency, ride.startTime);
+		if (rate === null) {
+			missing.add(ride.currency);
+			return { ...ride, exchangeRate: undefined, convertedAmount: undefined };
+		}
+		if (ride.currency !== settings.reportingCurrency) usesRate = true;
+		const convertedAmount = Math.round(ride.totalAmount * rate * 100) / 100;
+		total += convertedAmount;
+		return { ...ride, exchangeRate: rate, convertedAmount };
+	});
+	if (!usesRate) {
+		return {
+			rides: rides.map((ride) => ({
+				...ride,
+				exchangeRate: undefined,
+				convertedAmount: undefined,
+			})),
+		};
+	}
+	return {
+		rides: converted,
+		conversion: {
+			currency: settings.reportingCurrency,
+			total: Math.round(total * 100) / 100,
+			missingCurrencies: Array.from(missing).sort(),
+		},
+	};
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import {
+	PDFArray,
+	PDFDict,
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+	type PDFRef,
+} from "pdf-lib";
+import { addPageLink, setOutline } from "./pdf-outline";
+
+async function createPdf(pageCount: number) {
+	const pdf = await PDFDocument.create();
+	for (let i = 0; i < pageCount; i++) pdf.addPage([595, 842]);
+	return pdf;
+}
+
+/** Save and reload, so the assertions read what a viewer would. */
+async function roundTrip(pdf: PDFDocument) {
+	return PDFDocument.load(await pdf.save());
+}
+
+/** Page index a Dest array points at. */
+function destPageIndex(pdf: PDFDocument, dict: PDFDict) {
+	const dest = dict.lookup(PDFName.of("Dest"), PDFArray);
+	const ref = dest.get(0) as PDFRef;
+	return pdf.getPages().findIndex((page) => page.ref === ref);
+}
+
+describe("setOutline", () => {
+	test("writes one linked bookmark per entry", async () => {
+		const pdf = await createPdf(4);
+		setOutline(pdf, [
+			{ title: "Uber Expense Summary", pageIndex: 0 },
+			{ title: "1. Jan 3, 2025 – ₹250.00", pageIndex: 1 },
+			{ title: "2. Jan 4, 2025 – ₹90.00", pageIndex: 3 },
+		]);
+		const saved = await roundTrip(pdf);
+
+		const outline = saved.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+		expect(outline.get(PDFName.of("Count"))?.toString()).toBe("3");
+		expect(saved.catalog.get(PDFName.of("PageMode"))).toBe(
+			PDFName.of("UseOutlines"),
+		);
+
+		const items: Array<[string, number]> = [];
+		let item: PDFDict | undefined = outline.lookup(
+			PDFName.of("First"),
+			PDFDict,
+		);
+		while (item) {
+			items.push([
+				item.lookup(PDFName.of("Title"), PDFHexString).decodeText(),
+				destPageIndex(saved, item),
+			]);
+			item = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+		}
+		expect(items).toEqual([
+			["Uber Expense Summary", 0],
+			["1. Jan 3, 2025 – ₹250.00", 1],
+			["2. Jan 4, 2025 – ₹90.00", 3],
+		]);
+	});
+
+	test("leaves the document alone when there are no entries", async () => {
+		const pdf = await createPdf(1);
+		setOutline(pdf, []);
+		expect(pdf.catalog.get(PDFName.of("Outlines"))).toBeUndefined();
+	});
+});
+
+describe("addPageLink", () => {
+	test("adds a link annotation pointing at the target page", async () => {
+		const pdf = await createPdf(3);
+		addPageLink(pdf, 0, { x: 40, y: 700, width: 30, height: 12 }, 2);
+		const saved = await roundTrip(pdf);
+
+		const annots = saved.getPage(0).node.Annots();
+		expect(annots?.size()).toBe(1);
+		const link = annots?.lookup(0, PDFDict) as PDFDict;
+		expect(link.get(PDFName.of("Subtype"))).toBe(PDFName.of("Link"));
+		expect(
+			link
+				.lookup(PDFName.of("Rect"), PDFArray)
+				.asArray()
+				.map((n) => n.toString()),
+		).toEqual(["40", "700", "70", "712"]);
+		expect(destPageIndex(saved, link)).toBe(2);
+	});
+});
@@ -0,0 +1,78 @@
+import { type PDFDocument, PDFHexString, PDFName, type PDFRef } from "pdf-lib";
+
+/** One bookmark: its label and the zero-based page it opens. */
+export interface OutlineEntry {
+	title: string;
+	pageIndex: number;
+}
+
+/** Rectangle in PDF points, origin at the bottom-left of the page. */
+export interface LinkRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/** Destination showing the whole of a page. */
+function fitPage(pdf: PDFDocument, pageIndex: number) {
+	return [pdf.getPage(pageIndex).ref, "Fit"];
+}
+
+/**
+ * Replace the document outline (the bookmarks panel) with a flat list of
+ * entries, and open the panel when the document is opened. pdf-lib has no
+ * outline API, so the outline dictionaries are written directly.
+ */
+export function setOutline(pdf: PDFDocument, entries: OutlineEntry[]): void {
+	if (entries.length === 0) return;
+	const { context } = pdf;
+	const outlineRef = context.nextRef();
+	const itemRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+	entries.forEach((entry, index) => {
+		const item = context.obj({
+			Title: PDFHexString.fromText(entry.title),
+			Parent: outlineRef,
+			Dest: fitPage(pdf, entry.pageIndex),
+		});
+		if (index > 0) item.set(PDFName.of("Prev"), itemRefs[index - 1]);
+		if (index < entries.length - 1) {
+			item.set(PDFName.of("Next"), itemRefs[index + 1]);
+		}
+		context.assign(itemRefs[index], item);
+	});
+
+	context.assign(
+		outlineRef,
+		context.obj({
+			Type: "Outlines",
+			First: itemRefs[0],
+			Last: itemRefs[itemRefs.length - 1],
+			Count: entries.length,
+		}),
+	);
+	pdf.catalog.set(PDFName.of("Outlines"), outlineRef);
+	pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/**
+ * Make a rectangle on one page a link to another page of the same document.
+ */
+export function addPageLink(
+	pdf: PDFDocument,
+	pageIndex: number,
+	rect: LinkRect,
+	targetPageIndex: number,
+): void {
+	const annotation = pdf.context.register(
+		pdf.context.obj({
+			Type: "Annot",
+			Subtype: "Link",
+			Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+			Border: [0, 0, 0],
+			Dest: fitPage(pdf, targetPageIndex),
+		}),
+	);
+	pdf.getPage(pageIndex).node.addAnnot(annotation);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import {
+	DEFAULT_PDF_TEMPLATE,
+	DEFAULT_PDF_TEMPLATES,
+	getSelectedPdfTemplate,
+	hexToRgb,
+	parsePdfTemplates,
+} from "./pdf-templates";
+
+const client = {
+	...DEFAULT_PDF_TEMPLATE,
+	id: "client-a",
+	name: "Client A",
+	orientation: "portrait" as const,
+	columns: ["pickupTime" as const, "pickupAddress" as const, "amount" as const],
+	companyName: "Example Corp",
+	employeeId: "E-1024",
+	costCentre: "CC-42",
+	footerDisclaimer: "Submitted for reimbursement.",
+	headerColor: "#1d4ed8",
+};
+
+describe("parsePdfTemplates", () => {
+	test("round-trips stored templates", () => {
+		const settings = {
+			version: 1 as const,
+			templates: [DEFAULT_PDF_TEMPLATE, client],
+			selectedId: "client-a",
+			placeholderPages: true,
+		};
+		expect(parsePdfTemplates(JSON.stringify(settings))).toEqual(settings);
+	});
+
+	test("repairs malformed fields instead of dropping the template", () => {
+		const { templates } = parsePdfTemplates(
+			JSON.stringify({
+				version: 1,
+				templates: [
+					{
+						id: "client-b",
+						name: "Client B",
+						orientation: "sideways",
+						columns: ["driver", "driver", "fare", "pickupTime"],
+						headerColor: "blue",
+						logoDataUrl: "https://example.com/logo.png",
+					},
+				],
+				selectedId: "client-b",
+			}),
+		);
+		expect(templates[0]).toEqual({
+			...DEFAULT_PDF_TEMPLATE,
+			id: "client-b",
+			name: "Client B",
+			columns: ["driver", "pickupTime", "amount"],
+		});
+	});
+
+	test("selects the first template when the selection is gone", () => {
+		const settings = parsePdfTemplates(
+			JSON.stringify({ version: 1, templates: [client], selectedId: "gone" }),
+		);
+		expect(settings.selectedId).toBe("client-a");
+		expect(getSelectedPdfTemplate(settings).name).toBe("Client A");
+	});
+
+	test("falls back to the default template on bad input", () => {
+		expect(parsePdfTemplates("not json")).toEqual(DEFAULT_PDF_TEMPLATES);
+		expect(parsePdfTemplates(null)).toEqual(DEFAULT_PDF_TEMPLATES);
+		expect(
+			parsePdfTemplates(JSON.stringify({ version: 1, templates: [{}] })),
+		).toEqual(DEFAULT_PDF_TEMPLATES);
+	});
+});
+
+describe("hexToRgb", () => {
+	test("splits a hex colour into channels", () => {
+		expect(hexToRgb("#1d4ed8")).toEqual([29, 78, 216]);
+		expect(hexToRgb("#000000")).toEqual([0, 0, 0]);
+	});
+});
@@ -0,0 +1,195 @@
+const STORAGE_KEY = "pdf_templates";
+
+/** Columns the summary PDF can show. */
+export type SummaryColumnId =
+	| "index"
+	| "provider"
+	| "account"
+	| "pickupTime"
+	| "dropoffTime"
+	| "driver"
+	| "vehicle"
+	| "pickupAddress"
+	| "dropoffAddress"
+	| "distance"
+	| "duration"
+	| "amount"
+	| "convertedAmount";
+
+export const SUMMARY_COLUMN_LABELS: Record<SummaryColumnId, string> = {
+	index: "No.",
+	provider: "Provider",
+	account: "Account",
+	pickupTime: "Pickup",
+	dropoffTime: "Dropoff",
+	driver: "Driver",
+	vehicle: "Vehicle",
+	pickupAddress: "Pickup Address",
+	dropoffAddress: "Destination Address",
+	distance: "Distance",
+	duration: "Duration",
+	amount: "Amount",
+	convertedAmount: "Converted Amount",
+};
+
+const COLUMN_IDS = Object.keys(SUMMARY_COLUMN_LABELS) as SummaryColumnId[];
+
+/**
+ * Layout and branding for the summary PDF. Provider, account, distance,
+ * duration and converted-amount columns are still left out when the rides
+ * have nothing to show in them.
+ */
+export interface PdfTemplate {
+	id: string;
+	name: string;
+	orientation: "landscape" | "portrait";
+	/** Columns in display order; always includes "amount". */
+	columns: SummaryColumnId[];
+	/** Document title; empty for the default "<Provider> Expense Summary". */
+	title: string;
+	companyName: string;
+	employeeId: string;
+	costCentre: string;
+	/** PNG or JPEG data: URL drawn in the top-left corner. */
+	logoDataUrl?: string;
+	/** Small print above the page number on every summary page. */
+	footerDisclaimer: string;
+	/** "#rrggbb" colours */
+	headerColor: string;
+	headerTextColor: string;
+	totalRowColor: string;
+}
+
+/**
+ * The locally stored templates, the one picked for the next export and
+ * other export preferences.
+ */
+export interface PdfTemplateSettings {
+	version: 1;
+	templates: PdfTemplate[];
+	selectedId: string;
+	/** Add a placeholder page for each receipt missing from a report. */
+	placeholderPages: boolean;
+}
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplate = {
+	id: "default",
+	name: "Default",
+	orientation: "landscape",
+	columns: COLUMN_IDS,
+	title: "",
+	companyName: "",
+	employeeId: "",
+	costCentre: "",
+	footerDisclaimer: "",
+	headerColor: "#000000",
+	headerTextColor: "#ffffff",
+	totalRowColor: "#f0f0f0",
+};
+
+export const DEFAULT_PDF_TEMPLATES: PdfTemplateSettings = {
+	version: 1,
+	templates: [DEFAULT_PDF_TEMPLATE],
+	selectedId: DEFAULT_PDF_TEMPLATE.id,
+	placeholderPages: false,
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Fill in a stored template, falling back to the default for missing or
+ * malformed fields. Returns null when it has no id.
+ */
+function parseTemplate(raw: unknown): PdfTemplate | null {
+	if (typeof raw !== "object" || raw === null) return null;
+	const t = raw as Partial<Record<keyof PdfTemplate, unknown>>;
+	if (typeof t.id !== "string" || !t.id) return null;
+	const text = (value: unknown, fallback: string) =>
+		typeof value === "string" ? value : fallback;
+	const color = (value: unknown, fallback: string) =>
+		typeof value === "string" && HEX_COLOR.test(value) ? value : fallback;
+
+	const columns = Array.isArray(t.columns)
+		? t.columns.filter(
+				(c, index, all): c is SummaryColumnId =>
+					COLUMN_IDS.includes(c) && all.indexOf(c) === index,
+			)
+		: DEFAULT_PDF_TEMPLATE.columns;
+	return {
+		id: t.id,
+		name: text(t.name, "Untitled"),
+		orientation: t.orientation === "portrait" ? "portrait" : "landscape",
+		columns: columns.includes("amount") ? columns : [...columns, "amount"],
+		title: text(t.title, ""),
+		companyName: text(t.companyName, ""),
+		employeeId: text(t.employeeId, ""),
+		costCentre: text(t.costCentre, ""),
+		logoDataUrl:
+			typeof t.logoDataUrl === "string" &&
+			/^data:image\/(png|jpeg);base64,/.test(t.logoDataUrl)
+				? t.logoDataUrl
+				: undefined,
+		footerDisclaimer: text(t.footerDisclaimer, ""),
+		headerColor: color(t.headerColor, DEFAULT_PDF_TEMPLATE.headerColor),
+		headerTextColor: color(
+			t.headerTextColor,
+			DEFAULT_PDF_TEMPLATE.headerTextColor,
+		),
+		totalRowColor: color(t.totalRowColor, DEFAULT_PDF_TEMPLATE.totalRowColor),
+	};
+}
+
+/**
+ * Parse the stored templates, dropping malformed ones. There is always at
+ * least one template, and `selectedId` always names one of them.
+ */
+export function parsePdfTemplates(raw: string | null): PdfTemplateSettings {
+	if (!raw) return DEFAULT_PDF_TEMPLATES;
+	try {
+		const parsed = JSON.parse(raw) as Partial<PdfTemplateSettings>;
+		if (parsed.version !== 1 || !Array.isArray(parsed.templates)) {
+			return DEFAULT_PDF_TEMPLATES;
+		}
+		const templates = parsed.templates
+			.map(parseTemplate)
+			.filter((t): t is PdfTemplate => t !== null);
+		if (templates.length === 0) return DEFAULT_PDF_TEMPLATES;
+		const selectedId = templates.some((t) => t.id === parsed.selectedId)
+			? (parsed.selectedId as string)
+			: templates[0].id;
+		return {
+			version: 1,
+			templates,
+			selectedId,
+			placeholderPages: parsed.placeholderPages === true,
+		};
+	} catch {
+		return DEFAULT_PDF_TEMPLATES;
+	}
+}
+
+export function loadPdfTemplates(): PdfTemplateSettings {
+	if (typeof window === "undefined") return DEFAULT_PDF_TEMPLATES;
+	return parsePdfTemplates(localStorage.getItem(STORAGE_KEY));
+}
+
+export function savePdfTemplates(settings: PdfTemplateSettings): void {
+	if (typeof window === "undefined") return;
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function getSelectedPdfTemplate(
+	settings: PdfTemplateSettings,
+): PdfTemplate {
+	return (
+		settings.templates.find((t) => t.id === settings.selectedId) ??
+		settings.templates[0] ??
+		DEFAULT_PDF_TEMPLATE
+	);
+}
+
+/** "#rrggbb" → [r, g, b] */
+export function hexToRgb(hex: string): [number, number, number] {
+	const value = Number.parseInt(hex.slice(1), 16);
+	return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
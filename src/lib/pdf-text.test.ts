@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+import {
+	detectScript,
+	isTrueTypeFont,
+	needsFallbackFont,
+	SCRIPT_FONTS,
+	splitScriptRuns,
+	type TextScript,
+	wrapText,
+} from "./pdf-text";
+
+const cp = (char: string) => char.codePointAt(0) as number;
+
+describe("detectScript", () => {
+	test.each<[string, TextScript]>([
+		["a", "latin"],
+		["é", "latin"],
+		["Ж", "latin"],
+		["₹", "latin"],
+		["न", "devanagari"],
+		["த", "tamil"],
+		["ಬ", "kannada"],
+		["ش", "arabic"],
+		["中", "cjk"],
+		["の", "cjk"],
+		["한", "hangul"],
+		["ก", "thai"],
+		["Ա", "other"],
+	])("%s → %s", (char, expected) => {
+		expect(detectScript(cp(char))).toBe(expected);
+	});
+
+	test("treats spaces, digits and punctuation as neutral", () => {
+		for (const char of [" ", "7", ",", "-", "(", "‍"]) {
+			expect(detectScript(cp(char))).toBeNull();
+		}
+	});
+});
+
+describe("splitScriptRuns", () => {
+	test("keeps neutral characters with the run they follow", () => {
+		expect(splitScriptRuns("12, MG Road, नई दिल्ली 110001")).toEqual([
+			{ script: "latin", text: "12, MG Road, " },
+			{ script: "devanagari", text: "नई दिल्ली 110001" },
+		]);
+	});
+
+	test("gives leading neutrals to the first run", () => {
+		expect(splitScriptRuns("12 شارع الملك")).toEqual([
+			{ script: "arabic", text: "12 شارع الملك" },
+		]);
+	});
+
+	test("returns a single latin run for neutral-only text", () => {
+		expect(splitScriptRuns("12 - 34")).toEqual([
+			{ script: "latin", text: "12 - 34" },
+		]);
+		expect(splitScriptRuns("")).toEqual([]);
+	});
+
+	test("splits every script change", () => {
+		expect(
+			splitScriptRuns("Chennai சென்னை 東京").map((run) => run.script),
+		).toEqual(["latin", "tamil", "cjk"]);
+	});
+});
+
+describe("needsFallbackFont", () => {
+	test("is false for text the bundled font covers", () => {
+		expect(needsFallbackFont("Café Müller, ₹250")).toBe(false);
+	});
+
+	test("is true once any other script appears", () => {
+		expect(needsFallbackFont("Gate 3, 北京首都机场")).toBe(true);
+	});
+});
+
+describe("wrapText", () => {
+	// One unit per UTF-16 code unit keeps the expectations readable
+	const measure = (text: string) => text.length;
+
+	test("wraps at spaces", () => {
+		expect(wrapText("one two three four", 9, measure)).toEqual([
+			"one two",
+			"three",
+			"four",
+		]);
+	});
+
+	test("breaks unspaced text between grapheme clusters", () => {
+		// "क्षि" is a single cluster four code units long
+		expect(wrapText("क्षिक्षिक्षि", 9, measure)).toEqual(["क्षिक्षि", "क्षि"]);
+		expect(wrapText("東京都千代田区", 3, measure)).toEqual([
+			"東京都",
+			"千代田",
+			"区",
+		]);
+	});
+
+	test("keeps explicit line breaks", () => {
+		expect(wrapText("a\nb", 10, measure)).toEqual(["a", "b"]);
+	});
+});
+
+describe("SCRIPT_FONTS", () => {
+	test.each(Object.entries(SCRIPT_FONTS))(
+		"%s font is bundled in public/fonts",
+		async (_script, font) => {
+			const bytes = await readFile(
+				new URL(`../../public/fonts/${font?.file}`, import.meta.url),
+			);
+			expect(isTrueTypeFont(bytes)).toBe(true);
+		},
+	);
+});
+
+describe("isTrueTypeFont", () => {
+	test("rejects an HTML fallback page and empty bodies", () => {
+		expect(
+			isTrueTypeFont(new TextEncoder().encode("<!doctype html><html>")),
+		).toBe(false);
+		expect(isTrueTypeFont(new Uint8Array())).toBe(false);
+		expect(isTrueTypeFont(new Uint8Array([0, 1, 0, 0, 0, 12]))).toBe(true);
+	});
+});
@@ -0,0 +1,449 @@
+import type { jsPDF } from "jspdf";
+
+/**
+ * Writing systems the PDF tells apart. "latin" is whatever the bundled
+ * Google Sans Flex covers (Latin, Greek, Cyrillic, common symbols); "other"
+ * is any script without a bundled fallback font.
+ */
+export type TextScript =
+	| "latin"
+	| "arabic"
+	| "hebrew"
+	| "devanagari"
+	| "bengali"
+	| "gurmukhi"
+	| "gujarati"
+	| "oriya"
+	| "tamil"
+	| "telugu"
+	| "kannada"
+	| "malayalam"
+	| "sinhala"
+	| "thai"
+	| "cjk"
+	| "hangul"
+	| "other";
+
+/** A stretch of text in a single script. */
+export interface ScriptRun {
+	script: TextScript;
+	text: string;
+}
+
+interface ScriptFont {
+	/** File name under public/fonts. */
+	file: string;
+	family: string;
+	/**
+	 * Whether the script needs OpenType shaping (conjuncts, vowel reordering,
+	 * joining forms, right-to-left order). jsPDF only places glyphs one after
+	 * another, so these runs are laid out by the browser and embedded as
+	 * images instead of as PDF text.
+	 */
+	shaping: boolean;
+}
+
+/** Fallback font per script, loaded only when a document uses the script. */
+export const SCRIPT_FONTS: Partial<Record<TextScript, ScriptFont>> = {
+	arabic: {
+		file: "NotoNaskhArabic-Regular.ttf",
+		family: "NotoNaskhArabic",
+		shaping: true,
+	},
+	hebrew: {
+		file: "NotoSansHebrew-Regular.ttf",
+		family: "NotoSansHebrew",
+		shaping: true,
+	},
+	devanagari: {
+		file: "NotoSansDevanagari-Regular.ttf",
+		family: "NotoSansDevanagari",
+		shaping: true,
+	},
+	bengali: {
+		file: "NotoSansBengali-Regular.ttf",
+		family: "NotoSansBengali",
+		shaping: true,
+	},
+	gurmukhi: {
+		file: "NotoSansGurmukhi-Regular.ttf",
+		family: "NotoSansGurmukhi",
+		shaping: true,
+	},
+	gujarati: {
+		file: "NotoSansGujarati-Regular.ttf",
+		family: "NotoSansGujarati",
+		shaping: true,
+	},
+	oriya: {
+		file: "NotoSansOriya-Regular.ttf",
+		family: "NotoSansOriya",
+		shaping: true,
+	},
+	tamil: {
+		file: "NotoSansTamil-Regular.ttf",
+		family: "NotoSansTamil",
+		shaping: true,
+	},
+	telugu: {
+		file: "NotoSansTelugu-Regular.ttf",
+		family: "NotoSansTelugu",
+		shaping: true,
+	},
+	kannada: {
+		file: "NotoSansKannada-Regular.ttf",
+		family: "NotoSansKannada",
+		shaping: true,
+	},
+	malayalam: {
+		file: "NotoSansMalayalam-Regular.ttf",
+		family: "NotoSansMalayalam",
+		shaping: true,
+	},
+	sinhala: {
+		file: "NotoSansSinhala-Regular.ttf",
+		family: "NotoSansSinhala",
+		shaping: true,
+	},
+	thai: {
+		file: "NotoSansThai-Regular.ttf",
+		family: "NotoSansThai",
+		shaping: true,
+	},
+	cjk: { file: "NotoSansSC-Regular.ttf", family: "NotoSansSC", shaping: false },
+	hangul: {
+		file: "NotoSansKR-Regular.ttf",
+		family: "NotoSansKR",
+		shaping: false,
+	},
+};
+
+/** [script, first code point, last code point] */
+const SCRIPT_RANGES: Array<[TextScript, number, number]> = [
+	["latin", 0x0000, 0x052f],
+	["hebrew", 0x0590, 0x05ff],
+	["arabic", 0x0600, 0x06ff],
+	["arabic", 0x0750, 0x077f],
+	["arabic", 0x08a0, 0x08ff],
+	["devanagari", 0x0900, 0x097f],
+	["bengali", 0x0980, 0x09ff],
+	["gurmukhi", 0x0a00, 0x0a7f],
+	["gujarati", 0x0a80, 0x0aff],
+	["oriya", 0x0b00, 0x0b7f],
+	["tamil", 0x0b80, 0x0bff],
+	["telugu", 0x0c00, 0x0c7f],
+	["kannada", 0x0c80, 0x0cff],
+	["malayalam", 0x0d00, 0x0d7f],
+	["sinhala", 0x0d80, 0x0dff],
+	["thai", 0x0e00, 0x0e7f],
+	["hangul", 0x1100, 0x11ff],
+	["latin", 0x1e00, 0x1fff],
+	["latin", 0x20a0, 0x214f],
+	["cjk", 0x2e80, 0x2fdf],
+	["cjk", 0x3000, 0x30ff],
+	["cjk", 0x3100, 0x312f],
+	["hangul", 0x3130, 0x318f],
+	["cjk", 0x3190, 0x31ff],
+	["cjk", 0x3400, 0x4dbf],
+	["cjk", 0x4e00, 0x9fff],
+	["devanagari", 0xa8e0, 0xa8ff],
+	["hangul", 0xac00, 0xd7af],
+	["cjk", 0xf900, 0xfaff],
+	["hebrew", 0xfb1d, 0xfb4f],
+	["arabic", 0xfb50, 0xfdff],
+	["arabic", 0xfe70, 0xfeff],
+	["cjk", 0xff00, 0xffef],
+	["cjk", 0x20000, 0x2fa1f],
+];
+
+/**
+ * Characters that belong to whichever script surrounds them: spaces, digits,
+ * ASCII and general punctuation, joiners and variation selectors.
+ */
+function isNeutral(codePoint: number): boolean {
+	return (
+		codePoint <= 0x40 ||
+		(codePoint >= 0x5b && codePoint <= 0x60) ||
+		(codePoint >= 0x7b && codePoint <= 0xbf) ||
+		(codePoint >= 0x2000 && codePoint <= 0x206f) ||
+		(codePoint >= 0xfe00 && codePoint <= 0xfe0f)
+	);
+}
+
+/** Script of one code point, or null for a neutral character. */
+export function detectScript(codePoint: number): TextScript | null {
+	if (isNeutral(codePoint)) return null;
+	const range = SCRIPT_RANGES.find(
+		([, from, to]) => codePoint >= from && codePoint <= to,
+	);
+	return range ? range[0] : "other";
+}
+
+/**
+ * Split text into single-script runs. Neutral characters join the run they
+ * follow (or, at the start, the first run), so "12 नई दिल्ली" stays one
+ * Devanagari run and is shaped as a whole.
+ */
+export function splitScriptRuns(text: string): ScriptRun[] {
+	const runs: ScriptRun[] = [];
+	let leading = "";
+	for (const char of text) {
+		const script = detectScript(char.codePointAt(0) as number);
+		const last = runs.at(-1);
+		if (script === null) {
+			if (last) last.text += char;
+			else leading += char;
+		} else if (last?.script === script) {
+			last.text += char;
+		} else {
+			runs.push({ script, text: leading + char });
+			leading = "";
+		}
+	}
+	if (leading) runs.push({ script: "latin", text: leading });
+	return runs;
+}
+
+/** Whether the text needs anything beyond the bundled Latin font. */
+export function needsFallbackFont(text: string): boolean {
+	return splitScriptRuns(text).some((run) => run.script !== "latin");
+}
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * Word-wrap text to `maxWidth`. Words wider than a line (and unspaced CJK
+ * text) are broken between grapheme clusters, never inside one, so Indic
+ * conjuncts and combining marks stay together.
+ */
+export function wrapText(
+	text: string,
+	maxWidth: number,
+	measure: (text: string) => number,
+): string[] {
+	const lines: string[] = [];
+	for (const paragraph of text.split(/\r\n|\r|\n/)) {
+		let line = "";
+		for (const word of paragraph.split(" ")) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (measure(candidate) <= maxWidth) {
+				line = candidate;
+				continue;
+			}
+			if (line) lines.push(line);
+			line = "";
+			for (const { segment } of graphemes.segment(word)) {
+				if (line && measure(line + segment) > maxWidth) {
+					lines.push(line);
+					line = segment;
+				} else {
+					line += segment;
+				}
+			}
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+// Cache for loaded font files, by file name
+const fontFileCache = new Map<string, string>();
+
+/**
+ * Whether bytes start like a TrueType font (version 1.0 or "true"), the
+ * only outlines jsPDF embeds. Guards against a dev server or CDN answering a
+ * missing font with an HTML page.
+ */
+export function isTrueTypeFont(bytes: Uint8Array): boolean {
+	if (bytes.length < 4) return false;
+	const tag = String.fromCharCode(...bytes.subarray(0, 4));
+	return tag === "\0\x01\0\0" || tag === "true";
+}
+
+/**
+ * Fetch a font from public/fonts and register it with the document.
+ */
+export async function registerPdfFont(
+	doc: jsPDF,
+	file: string,
+	family: string,
+): Promise<void> {
+	let fontBase64 = fontFileCache.get(file);
+	if (!fontBase64) {
+		const response = await fetch(`/fonts/${file}`);
+		if (!response.ok) {
+			throw new Error(`Failed to load font ${file}`);
+		}
+		const bytes = new Uint8Array(await response.arrayBuffer());
+		if (!isTrueTypeFont(bytes)) {
+			throw new Error(
+				`Font ${file} is not a TrueType font (${response.headers.get("content-type") ?? "unknown type"})`,
+			);
+		}
+		fontBase64 = btoa(
+			bytes.reduce((data, byte) => data + String.fromCharCode(byte), ""),
+		);
+		fontFileCache.set(file, fontBase64);
+	}
+	doc.addFileToVFS(file, fontBase64);
+	doc.addFont(file, family, "normal");
+}
+
+// Font faces registered with the page for canvas shaping, by family
+const loadedFontFaces = new Map<string, Promise<boolean>>();
+
+function loadFontFace(font: ScriptFont): Promise<boolean> {
+	let loaded = loadedFontFaces.get(font.family);
+	if (!loaded) {
+		const face = new FontFace(font.family, `url(/fonts/${font.file})`);
+		loaded = face
+			.load()
+			.then(() => {
+				document.fonts.add(face);
+				return true;
+			})
+			.catch((error) => {
+				console.warn(
+					`Font ${font.file} is missing; using the browser's font for that script:`,
+					error,
+				);
+				return false;
+			});
+		loadedFontFaces.set(font.family, loaded);
+	}
+	return loaded;
+}
+
+/** Canvas pixels per point when rasterising shaped text. */
+const RASTER_SCALE = 8;
+
+/**
+ * Measures and draws multi-script text on a jsPDF document at its current
+ * font size and text colour.
+ */
+export interface PdfTextRenderer {
+	/** Width of one line in document units. */
+	measure(text: string): number;
+	/** Wrap text to `maxWidth` document units. */
+	wrap(text: string, maxWidth: number): string[];
+	/** Draw one line with its baseline at `y`, like `doc.text`. */
+	drawLine(
+		text: string,
+		x: number,
+		y: number,
+		options?: { align?: "left" | "center" | "right" },
+	): void;
+}
+
+/**
+ * Prepare a renderer for the given texts: Latin runs use `baseFont`,
+ * CJK and Hangul are embedded as real PDF text in their fallback fonts, and
+ * scripts that need shaping are laid out by the browser's text engine with
+ * their fallback fonts and drawn as images. A fallback font missing from
+ * public/fonts degrades to the browser's own font for that script.
+ */
+export async function createPdfTextRenderer(
+	doc: jsPDF,
+	baseFont: string,
+	texts: string[],
+): Promise<PdfTextRenderer> {
+	const scripts = new Set(
+		texts.flatMap((text) => splitScriptRuns(text).map((run) => run.script)),
+	);
+	const embedded = new Set<TextScript>(["latin"]);
+	for (const script of scripts) {
+		const font = SCRIPT_FONTS[script];
+		if (!font) continue;
+		if (font.shaping) {
+			await loadFontFace(font);
+			continue;
+		}
+		try {
+			await registerPdfFont(doc, font.file, font.family);
+			embedded.add(script);
+		} catch (error) {
+			console.warn(`Rasterising ${script} text instead:`, error);
+		}
+	}
+
+	let context: CanvasRenderingContext2D | null = null;
+	const getCanvasFont = (script: TextScript) => {
+		const family = SCRIPT_FONTS[script]?.family;
+		const size = doc.getFontSize() * RASTER_SCALE;
+		return family
+			? `${size}px "${family}", sans-serif`
+			: `${size}px sans-serif`;
+	};
+	const measureCanvas = (run: ScriptRun) => {
+		context ??= document.createElement("canvas").getContext("2d");
+		if (!context) return null;
+		context.font = getCanvasFont(run.script);
+		return context.measureText(run.text);
+	};
+	const toDocUnits = (pixels: number) =>
+		pixels / RASTER_SCALE / doc.internal.scaleFactor;
+
+	const measureRun = (run: ScriptRun): number => {
+		if (embedded.has(run.script)) {
+			const font = doc.getFont();
+			doc.setFont(SCRIPT_FONTS[run.script]?.family ?? baseFont, "normal");
+			const width = doc.getTextWidth(run.text);
+			doc.setFont(font.fontName, font.fontStyle);
+			return width;
+		}
+		const metrics = measureCanvas(run);
+		return metrics ? toDocUnits(metrics.width) : 0;
+	};
+
+	const drawRun = (run: ScriptRun, x: number, y: number) => {
+		if (embedded.has(run.script)) {
+			const font = doc.getFont();
+			doc.setFont(SCRIPT_FONTS[run.script]?.family ?? baseFont, "normal");
+			doc.text(run.text, x, y);
+			doc.setFont(font.fontName, font.fontStyle);
+			return;
+		}
+		const metrics = measureCanvas(run);
+		if (!metrics || metrics.width === 0) return;
+		// Leave room for marks that overhang the advance width
+		const padding = Math.ceil(doc.getFontSize() * RASTER_SCALE * 0.25);
+		const ascent = Math.ceil(metrics.fontBoundingBoxAscent) + padding;
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.ceil(metrics.width) + 2 * padding;
+		canvas.height =
+			ascent + Math.ceil(metrics.fontBoundingBoxDescent) + padding;
+		const ctx = canvas.getContext("2d");
+		if (!ctx) return;
+		ctx.font = getCanvasFont(run.script);
+		ctx.fillStyle = doc.getTextColor();
+		ctx.fillText(run.text, padding, ascent);
+		doc.addImage(
+			canvas,
+			"PNG",
+			x - toDocUnits(padding),
+			y - toDocUnits(ascent),
+			toDocUnits(canvas.width),
+			toDocUnits(canvas.height),
+		);
+	};
+
+	const measure = (text: string) =>
+		splitScriptRuns(text).reduce((sum, run) => sum + measureRun(run), 0);
+
+	return {
+		measure,
+		wrap: (text, maxWidth) => wrapText(text, maxWidth, measure),
+		drawLine: (text, x, y, options = {}) => {
+			const runs = splitScriptRuns(text);
+			const widths = runs.map(measureRun);
+			const total = widths.reduce((sum, width) => sum + width, 0);
+			let cursor = x;
+			if (options.align === "center") cursor -= total / 2;
+			else if (options.align === "right") cursor -= total;
+			runs.forEach((run, index) => {
+				drawRun(run, cursor, y);
+				cursor += widths[index];
+			});
+		},
+	};
+}
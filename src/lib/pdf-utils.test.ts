@@ -0,0 +1,132 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { PDFDocument } from "pdf-lib";
+import type { RideData } from "@/types/rides";
+import { convertRides, DEFAULT_EXCHANGE_RATES } from "./exchange-rates";
+import { generateCsv, loadReceiptPdfs } from "./pdf-utils";
+
+async function receiptBase64(pageCount: number) {
+	const pdf = await PDFDocument.create();
+	for (let i = 0; i < pageCount; i++) pdf.addPage();
+	return Buffer.from(await pdf.save()).toString("base64");
+}
+
+describe("loadReceiptPdfs", () => {
+	test("reports an outcome for every ride, in ride order", async () => {
+		// The unreadable receipt is logged; keep the test output quiet
+		const consoleError = spyOn(console, "error").mockImplementation(() => {});
+		const receipts = await loadReceiptPdfs(
+			["ride-1", "ride-2", "ride-3", "ride-4"],
+			[
+				{ rideId: "ride-3", pdfsBase64: ["bm90IGEgcGRm"] },
+				{ rideId: "ride-1", pdfsBase64: [await receiptBase64(2)] },
+				{ rideId: "ride-2", pdfsBase64: null, error: "HTTP 404" },
+			],
+		);
+
+		expect(Array.from(receipts.keys())).toEqual([
+			"ride-1",
+			"ride-2",
+			"ride-3",
+			"ride-4",
+		]);
+		expect(receipts.get("ride-1")?.outcome).toEqual({
+			rideId: "ride-1",
+			status: "merged",
+		});
+		expect(receipts.get("ride-1")?.pdf?.getPageCount()).toBe(2);
+		expect(receipts.get("ride-1")?.files).toHaveLength(1);
+		expect(receipts.get("ride-2")?.outcome).toEqual({
+			rideId: "ride-2",
+			status: "download-failed",
+			error: "HTTP 404",
+		});
+		expect(receipts.get("ride-3")?.outcome.status).toBe("merge-failed");
+		expect(receipts.get("ride-3")?.outcome.error).toStartWith(
+			"The receipt PDF could not be read",
+		);
+		expect(receipts.get("ride-3")?.files).toEqual([
+			new TextEncoder().encode("not a pdf"),
+		]);
+		expect(receipts.get("ride-4")?.outcome).toEqual({
+			rideId: "ride-4",
+			status: "not-requested",
+		});
+		consoleError.mockRestore();
+	});
+
+	test("gives a download failure a reason when the provider had none", async () => {
+		const receipts = await loadReceiptPdfs(
+			["ride-1"],
+			[{ rideId: "ride-1", pdfsBase64: null }],
+		);
+		expect(receipts.get("ride-1")?.outcome.error).toBe(
+			"The receipt could not be downloaded",
+		);
+	});
+
+	test("combines a ride's invoice files in order", async () => {
+		const receipts = await loadReceiptPdfs(
+			["ride-1"],
+			[
+				{
+					rideId: "ride-1",
+					pdfsBase64: [await receiptBase64(1), await receiptBase64(2)],
+				},
+			],
+		);
+		expect(receipts.get("ride-1")?.outcome.status).toBe("merged");
+		expect(receipts.get("ride-1")?.pdf?.getPageCount()).toBe(3);
+		expect(receipts.get("ride-1")?.files).toHaveLength(2);
+	});
+});
+
+describe("generateCsv", () => {
+	const ride = (rideId: string, totalAmount: number, currency: string) => ({
+		rideId,
+		startTime: "2025-02-10T12:00:00",
+		endTime: "2025-02-10T12:30:00",
+		startLocation: "A",
+		endLocation: "B",
+		totalAmount,
+		currency,
+		driverName: "",
+		invoiceUrl: "",
+	});
+	const csv = (rides: RideData[], settings = DEFAULT_EXCHANGE_RATES) => {
+		const { rides: converted, conversion } = convertRides(rides, settings);
+		return generateCsv({
+			selectedCount: rides.length,
+			totals: [],
+			conversion,
+			rides: converted,
+		});
+	};
+
+	test("leaves out conversion columns when no exchange rate applies", () => {
+		const lines = csv([ride("r1", 12.5, "USD")]).split("\n");
+		expect(lines[0]).not.toContain("Converted Amount");
+		expect(lines.join("\n")).not.toContain("Converted Total");
+	});
+
+	test("notes currencies missing from the converted total", () => {
+		const output = csv([ride("r1", 12.5, "USD"), ride("r2", 10, "GBP")], {
+			version: 1,
+			reportingCurrency: "INR",
+			rates: [{ currency: "USD", rate: 84 }],
+		});
+		const lines = output.split("\n");
+		expect(lines[0]).toEndWith(
+			"Exchange Rate,Converted Amount,Reporting Currency",
+		);
+		expect(lines.at(-2)).toContain("Converted Total:");
+		expect(lines.at(-2)).toEndWith("1050.00,INR");
+		expect(lines.at(-1)).toContain(
+			"No exchange rate for GBP; those rides are not in the INR total.",
+		);
+		expect(
+			new Set(
+				lines.map((line) => line.replace(/"[^"]*"/g, "").split(",").length),
+			),
+		).toEqual(new Set([17]));
+	});
+});
@@ -1,28 +1,27 @@
 import { format, isValid, parseISO } from "date-fns";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-import { PDFDocument } from "pdf-lib";
-import type { RidesSummary } from "@/types/rides";
-
-// Cache for loaded font
-let cachedFontBytes: ArrayBuffer | null = null;
-
-/**
- * Load Google Sans Flex font from public folder
- */
-async function loadGoogleSansFont(): Promise<ArrayBuffer> {
-	if (cachedFontBytes) {
-		return cachedFontBytes;
-	}
-
-	const response = await fetch("/fonts/GoogleSansFlex.ttf");
-	if (!response.ok) {
-		throw new Error("Failed to load Google Sans Flex font");
-	}
-
-	cachedFontBytes = await response.arrayBuffer();
-	return cachedFontBytes;
-}
+import { PDFDocument, type PDFPage } from "pdf-lib";
+import type {
+	ReceiptOutcome,
+	ReceiptPdfResult,
+	RideData,
+	RidesSummary,
+} from "@/types/rides";
+import { formatCurrency } from "./currency";
+import { addPageLink, type LinkRect, setOutline } from "./pdf-outline";
+import {
+	DEFAULT_PDF_TEMPLATE,
+	hexToRgb,
+	type PdfTemplate,
+	type SummaryColumnId,
+} from "./pdf-templates";
+import {
+	createPdfTextRenderer,
+	needsFallbackFont,
+	type PdfTextRenderer,
+	registerPdfFont,
+} from "./pdf-text";
 
 /**
  * Safely parse a date string that might be ISO format or a custom format
@@ -57,138 +56,576 @@ function safeFormatDate(
 }
 
 /**
- * Sanitize text for PDF rendering - remove problematic characters
+ * Sanitize text for PDF rendering - replace control characters and collapse
+ * whitespace. Text in every script is kept; pdf-text.ts draws what the
+ * bundled font does not cover.
  */
 function sanitizeText(text: string): string {
 	if (!text) return "";
-	// Keep only printable ASCII and basic extended Latin characters
-	let result = "";
-	for (const char of text) {
-		const code = char.charCodeAt(0);
-		// Keep printable ASCII (32-126) and extended Latin (160-383)
-		if ((code >= 32 && code <= 126) || (code >= 160 && code <= 383)) {
-			result += char;
+	return text
+		.replace(/\p{Cc}/gu, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function formatDistance(km: number | undefined): string {
+	return km === undefined ? "N/A" : `${km.toFixed(1)} km`;
+}
+
+/** Total distance of the rides that report one, or undefined if none do. */
+function getTotalDistanceKm(rides: RideData[]): number | undefined {
+	const distances = rides
+		.map((ride) => ride.distanceKm)
+		.filter((km): km is number => km !== undefined);
+	if (distances.length === 0) return undefined;
+	return distances.reduce((sum, km) => sum + km, 0);
+}
+
+/** Usable table width on an A4 page (page width minus 14mm margins). */
+const TABLE_WIDTH = { landscape: 270, portrait: 182 };
+
+/** Narrowest the flexible address columns get before fixed ones shrink. */
+const MIN_FLEX_WIDTH = 30;
+
+interface SummaryColumn {
+	id: SummaryColumnId;
+	header: string;
+	/** Fixed width in mm; columns without one share the remaining width. */
+	width?: number;
+	halign?: "center";
+	value: (ride: RideData, index: number) => string;
+}
+
+/**
+ * Column layout for the summary table, in the template's order. Address
+ * columns absorb whatever width the fixed columns leave, so optional columns
+ * only narrow the addresses; on a narrow page the fixed columns shrink too.
+ */
+function getSummaryColumns(
+	template: PdfTemplate,
+	options: {
+		showProvider: boolean;
+		showAccount: boolean;
+		showDistance: boolean;
+		showDuration: boolean;
+		/** Reporting currency to add a converted-amount column for. */
+		convertedCurrency?: string;
+	},
+): Array<SummaryColumn & { width: number }> {
+	const { convertedCurrency } = options;
+	const available: Record<SummaryColumnId, SummaryColumn | null> = {
+		index: {
+			id: "index",
+			header: "No.",
+			width: 12,
+			halign: "center",
+			value: (_ride, index) => (index + 1).toString(),
+		},
+		provider: options.showProvider
+			? {
+					id: "provider",
+					header: "Provider",
+					width: 18,
+					value: (ride) => sanitizeText(ride.provider || "N/A"),
+				}
+			: null,
+		account: options.showAccount
+			? {
+					id: "account",
+					header: "Account",
+					width: 20,
+					value: (ride) => sanitizeText(ride.account || "N/A"),
+				}
+			: null,
+		pickupTime: {
+			id: "pickupTime",
+			header: "Pickup",
+			width: 36,
+			value: (ride) => safeFormatDate(ride.startTime, "MMM d, yyyy HH:mm"),
+		},
+		dropoffTime: {
+			id: "dropoffTime",
+			header: "Dropoff",
+			width: 36,
+			value: (ride) => safeFormatDate(ride.endTime, "MMM d, yyyy HH:mm", "N/A"),
+		},
+		driver: {
+			id: "driver",
+			header: "Driver",
+			width: 26,
+			value: (ride) => sanitizeText(ride.driverName || "N/A"),
+		},
+		vehicle: {
+			id: "vehicle",
+			header: "Vehicle",
+			width: 20,
+			value: (ride) => sanitizeText(ride.vehicleType || "N/A"),
+		},
+		pickupAddress: {
+			id: "pickupAddress",
+			header: "Pickup Address",
+			value: (ride) => sanitizeText(ride.startLocation || "N/A"),
+		},
+		dropoffAddress: {
+			id: "dropoffAddress",
+			header: "Destination Address",
+			value: (ride) => sanitizeText(ride.endLocation || "N/A"),
+		},
+		distance: options.showDistance
+			? {
+					id: "distance",
+					header: "Distance",
+					width: 18,
+					halign: "center",
+					value: (ride) => formatDistance(ride.distanceKm),
+				}
+			: null,
+		duration: options.showDuration
+			? {
+					id: "duration",
+					header: "Duration",
+					width: 16,
+					halign: "center",
+					value: (ride) =>
+						ride.durationMinutes === undefined
+							? "N/A"
+							: `${ride.durationMinutes} min`,
+				}
+			: null,
+		amount: {
+			id: "amount",
+			header: "Amount",
+			width: 24,
+			halign: "center",
+			value: (ride) => formatCurrency(ride.totalAmount, ride.currency),
+		},
+		convertedAmount: convertedCurrency
+			? {
+					id: "convertedAmount",
+					header: `In ${convertedCurrency}`,
+					width: 24,
+					halign: "center",
+					value: (ride) =>
+						ride.convertedAmount === undefined
+							? "No rate"
+							: formatCurrency(ride.convertedAmount, convertedCurrency),
+				}
+			: null,
+	};
+	const columns = template.columns
+		.map((id) => available[id])
+		.filter((column): column is SummaryColumn => column !== null);
+
+	const tableWidth = TABLE_WIDTH[template.orientation];
+	const fixedWidth = columns.reduce((sum, c) => sum + (c.width ?? 0), 0);
+	const flexCount = columns.filter((c) => c.width === undefined).length;
+	const scale = Math.min(
+		1,
+		(tableWidth - flexCount * MIN_FLEX_WIDTH) / fixedWidth,
+	);
+	const flexWidth = (tableWidth - fixedWidth * scale) / flexCount;
+	return columns.map((c) => ({
+		...c,
+		width: c.width === undefined ? flexWidth : c.width * scale,
+	}));
+}
+
+/** A receipt parsed and ready to merge, or why there is none. */
+export interface LoadedReceipt {
+	outcome: ReceiptOutcome;
+	/** All of the ride's receipt files, as one document */
+	pdf?: PDFDocument;
+	/**
+	 * The receipt files as downloaded, for exports that keep them apart. Kept
+	 * when they cannot be parsed, since they may still open elsewhere.
+	 */
+	files?: Uint8Array[];
+}
+
+/** Combine a ride's receipt files into one document, in order. */
+async function combineReceiptFiles(files: Uint8Array[]): Promise<PDFDocument> {
+	const docs = await Promise.all(files.map((file) => PDFDocument.load(file)));
+	if (docs.length === 1) return docs[0];
+	const combined = await PDFDocument.create();
+	for (const doc of docs) {
+		const pages = await combined.copyPages(doc, doc.getPageIndices());
+		for (const page of pages) {
+			combined.addPage(page);
 		}
 	}
-	return result.trim();
+	return combined;
 }
 
 /**
- * Get currency symbol for a currency code
+ * Decode and parse the fetched receipt files of each ride, in the given
+ * order. A ride with several files (e.g. separate invoices for the fare and
+ * the platform fee) gets them combined in order. Rides with no fetch result
+ * are "not-requested"; a "merge-failed" ride still carries its files.
  */
-function getCurrencySymbol(currency: string): string {
-	const symbols: Record<string, string> = {
-		INR: "\u20B9",
-		USD: "$",
-		EUR: "\u20AC",
-		GBP: "\u00A3",
-	};
-	return symbols[currency] || `${currency} `;
+export async function loadReceiptPdfs(
+	rideIds: string[],
+	results: ReceiptPdfResult[],
+): Promise<Map<string, LoadedReceipt>> {
+	const byRide = new Map(results.map((result) => [result.rideId, result]));
+	const receipts = new Map<string, LoadedReceipt>();
+	for (const rideId of rideIds) {
+		const result = byRide.get(rideId);
+		if (!result) {
+			receipts.set(rideId, { outcome: { rideId, status: "not-requested" } });
+		} else if (!result.pdfsBase64?.length) {
+			receipts.set(rideId, {
+				outcome: {
+					rideId,
+					status: "download-failed",
+					error: result.error ?? "The receipt could not be downloaded",
+				},
+			});
+		} else {
+			const files = result.pdfsBase64.map((base64) =>
+				Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)),
+			);
+			try {
+				receipts.set(rideId, {
+					outcome: { rideId, status: "merged" },
+					pdf: await combineReceiptFiles(files),
+					files,
+				});
+			} catch (error) {
+				console.error(`Failed to read PDF for ride ${rideId}:`, error);
+				receipts.set(rideId, {
+					outcome: {
+						rideId,
+						status: "merge-failed",
+						error: `The receipt PDF could not be read: ${error instanceof Error ? error.message : "Unknown error"}`,
+					},
+					files,
+				});
+			}
+		}
+	}
+	return receipts;
+}
+
+function isFailedReceipt(outcome: ReceiptOutcome | undefined): boolean {
+	return (
+		outcome?.status === "download-failed" || outcome?.status === "merge-failed"
+	);
 }
 
 /**
- * Format amount with currency symbol
+ * Add a page standing in for a missing receipt: the ride's details and why
+ * the receipt is not there.
  */
-function formatCurrency(amount: number, currency: string): string {
-	const symbol = getCurrencySymbol(currency);
-	return `${symbol}${amount.toFixed(2)}`;
+function addPlaceholderPage(
+	doc: jsPDF,
+	text: PdfTextRenderer,
+	ride: RideData,
+	rideNumber: number,
+	reason: string,
+): void {
+	doc.addPage();
+	const maxWidth = doc.internal.pageSize.width - 28;
+	doc.setFont("GoogleSansFlex", "normal");
+	doc.setTextColor(0);
+	doc.setFontSize(20);
+	text.drawLine(`Receipt not available – ride ${rideNumber}`, 14, 25);
+
+	doc.setFontSize(10);
+	doc.setTextColor(180, 83, 9);
+	let yPos = 35;
+	for (const line of text.wrap(sanitizeText(reason), maxWidth)) {
+		text.drawLine(line, 14, yPos);
+		yPos += 5;
+	}
+
+	doc.setTextColor(60);
+	yPos += 5;
+	const details: Array<[string, string]> = [
+		["Ride ID", ride.rideId],
+		["Pickup", safeFormatDate(ride.startTime, "MMM d, yyyy HH:mm")],
+		["Dropoff", safeFormatDate(ride.endTime, "MMM d, yyyy HH:mm", "N/A")],
+		["Pickup Address", sanitizeText(ride.startLocation || "N/A")],
+		["Destination Address", sanitizeText(ride.endLocation || "N/A")],
+		["Driver", sanitizeText(ride.driverName || "N/A")],
+		["Vehicle", sanitizeText(ride.vehicleType || "N/A")],
+		["Amount", formatCurrency(ride.totalAmount, ride.currency)],
+	];
+	for (const [label, value] of details) {
+		doc.text(label, 14, yPos);
+		for (const line of text.wrap(value, maxWidth - 45)) {
+			text.drawLine(line, 59, yPos);
+			yPos += 6;
+		}
+	}
+}
+
+export interface SummaryPdfOptions {
+	/** Add a placeholder page for each receipt that could not be merged. */
+	placeholderPages?: boolean;
+}
+
+export interface SummaryPdfResult {
+	pdf: Uint8Array;
+	/** Per-ride receipt outcomes, in table order; empty without receipts. */
+	receipts: ReceiptOutcome[];
 }
 
 /**
  * Generates a summary PDF using jsPDF with a table.
- * Uses landscape orientation to fit full addresses and additional details.
- * Optionally merges receipt PDFs if provided.
+ * Layout, branding and colours come from the template; the default one uses
+ * landscape orientation to fit full addresses and additional details.
+ * Optionally merges receipt PDFs if provided. Every ride stays in the table;
+ * rides whose receipt failed are flagged, and the result says what happened
+ * to each receipt.
  */
 export async function generateSummaryPdf(
 	summary: RidesSummary,
 	accountName?: string,
-	pdfDataArray?: { rideId: string; pdfBase64: string }[],
+	pdfDataArray?: ReceiptPdfResult[],
 	title = "Expense Summary",
-): Promise<Uint8Array> {
-	// Use landscape orientation for more space
-	const doc = new jsPDF({ orientation: "landscape" });
+	template: PdfTemplate = DEFAULT_PDF_TEMPLATE,
+	options: SummaryPdfOptions = {},
+): Promise<SummaryPdfResult> {
+	const doc = new jsPDF({ orientation: template.orientation });
 	const pageWidth = doc.internal.pageSize.width;
+	const documentTitle = template.title.trim() || title;
 
 	// Load and register Google Sans Flex font
-	const fontBytes = await loadGoogleSansFont();
-	const fontBase64 = btoa(
-		new Uint8Array(fontBytes).reduce(
-			(data, byte) => data + String.fromCharCode(byte),
-			"",
-		),
+	await registerPdfFont(doc, "GoogleSansFlex.ttf", "GoogleSansFlex");
+
+	// Parse the receipts up front so failures can be flagged in the table
+	const hasReceipts = !!pdfDataArray && pdfDataArray.length > 0;
+	const receipts = hasReceipts
+		? await loadReceiptPdfs(
+				summary.rides.map((ride) => ride.rideId),
+				pdfDataArray,
+			)
+		: new Map<string, LoadedReceipt>();
+
+	// Copy the receipts into the output before drawing the table, so one
+	// that cannot be merged is flagged there like a failed download
+	const mergedPdf = await PDFDocument.create();
+	const receiptPages = new Map<string, PDFPage[]>();
+	for (const ride of summary.rides) {
+		const receipt = receipts.get(ride.rideId);
+		if (!receipt?.pdf) continue;
+		try {
+			receiptPages.set(
+				ride.rideId,
+				await mergedPdf.copyPages(receipt.pdf, receipt.pdf.getPageIndices()),
+			);
+		} catch (error) {
+			console.error(`Failed to merge PDF for ride ${ride.rideId}:`, error);
+			receipt.outcome = {
+				rideId: ride.rideId,
+				status: "merge-failed",
+				error: `The receipt could not be merged: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+	const failedRideNumbers = summary.rides.flatMap((ride, index) =>
+		isFailedReceipt(receipts.get(ride.rideId)?.outcome) ? [index + 1] : [],
 	);
-	doc.addFileToVFS("GoogleSansFlex.ttf", fontBase64);
-	doc.addFont("GoogleSansFlex.ttf", "GoogleSansFlex", "normal");
+
+	// Addresses and names can be in any script; load fallback fonts for the
+	// scripts this summary uses
+	const text = await createPdfTextRenderer(doc, "GoogleSansFlex", [
+		documentTitle,
+		accountName ?? "",
+		template.companyName,
+		template.employeeId,
+		template.costCentre,
+		template.footerDisclaimer,
+		...summary.rides.flatMap((ride) => [
+			ride.account ?? "",
+			ride.driverName,
+			ride.vehicleType ?? "",
+			ride.startLocation,
+			ride.endLocation,
+		]),
+	]);
 
 	const dateStr = format(new Date(), "MMMM d, yyyy");
 
-	// Title
+	// Logo, with the title beside it
+	let titleX = 14;
+	if (template.logoDataUrl) {
+		try {
+			const logo = doc.getImageProperties(template.logoDataUrl);
+			const aspect = logo.width / logo.height;
+			const logoWidth = Math.min(40, 14 * aspect);
+			doc.addImage(
+				template.logoDataUrl,
+				logo.fileType,
+				14,
+				12,
+				logoWidth,
+				logoWidth / aspect,
+			);
+			titleX += logoWidth + 6;
+		} catch (error) {
+			console.error("Failed to add template logo:", error);
+		}
+	}
+
+	// Title (left) and company name (right)
 	doc.setFont("GoogleSansFlex", "normal");
 	doc.setFontSize(24);
-	doc.text(title, 14, 25);
+	text.drawLine(documentTitle, titleX, 25);
+	if (template.companyName) {
+		doc.setFontSize(12);
+		text.drawLine(template.companyName, pageWidth - 14, 20, {
+			align: "right",
+		});
+	}
 
-	// Account name (left) and Generated date (right) on same line
+	// Account and employee details (left) and Generated date (right) on same line
 	let yPos = 33;
 	doc.setFontSize(10);
 	doc.setTextColor(100);
-	if (accountName) {
-		doc.text(`Account: ${accountName}`, 14, yPos);
+	const details = [
+		accountName && `Account: ${accountName}`,
+		template.employeeId && `Employee ID: ${template.employeeId}`,
+		template.costCentre && `Cost Centre: ${template.costCentre}`,
+	].filter(Boolean);
+	if (details.length > 0) {
+		text.drawLine(details.join("   |   "), 14, yPos);
 	}
 	doc.text(`Generated: ${dateStr}`, pageWidth - 14, yPos, { align: "right" });
 	yPos += 8;
 
 	// Ruler line after header
-	doc.setDrawColor(0);
+	doc.setDrawColor(...hexToRgb(template.headerColor));
 	doc.setLineWidth(0.5);
 	doc.line(14, yPos, pageWidth - 14, yPos);
 
-	// Table data with No., pickup/dropoff datetime, addresses, driver, and vehicle type
-	const tableData = summary.rides.map((ride, index) => [
-		(index + 1).toString(),
-		safeFormatDate(ride.startTime, "MMM d, yyyy HH:mm"),
-		safeFormatDate(ride.endTime, "MMM d, yyyy HH:mm", "N/A"),
-		sanitizeText(ride.driverName || "N/A"),
-		sanitizeText(ride.vehicleType || "N/A"),
-		sanitizeText(ride.startLocation || "N/A"),
-		sanitizeText(ride.endLocation || "N/A"),
-		formatCurrency(ride.totalAmount, ride.currency),
-	]);
+	// Converted amounts are shown once an exchange rate applies
+	const { conversion } = summary;
+
+	// Amounts in different currencies are totalled separately, and rides with
+	// no exchange rate are left out of the converted total; say so up front
+	const warnings: string[] = [];
+	if (summary.totals.length > 1) {
+		warnings.push(
+			`Warning: this selection mixes currencies (${summary.totals
+				.map((t) => t.currency)
+				.join(
+					", ",
+				)}). Totals are shown per currency and are not added together.`,
+		);
+	}
+	if (conversion && conversion.missingCurrencies.length > 0) {
+		warnings.push(
+			`No exchange rate for ${conversion.missingCurrencies.join(", ")}; those rides are not in the ${conversion.currency} total.`,
+		);
+	}
+	if (failedRideNumbers.length > 0) {
+		warnings.push(
+			`${failedRideNumbers.length} receipt${failedRideNumbers.length === 1 ? "" : "s"} could not be included (ride ${failedRideNumbers.join(", ")}, numbered in amber).${options.placeholderPages ? " Placeholder pages explain why." : ""}`,
+		);
+	}
+	doc.setFontSize(9);
+	doc.setTextColor(180, 83, 9);
+	for (const warning of warnings) {
+		const lines: string[] = doc.splitTextToSize(warning, pageWidth - 28);
+		yPos += 6;
+		doc.text(lines, 14, yPos);
+		yPos +=
+			((lines.length - 1) * doc.getLineHeight()) / doc.internal.scaleFactor;
+	}
+	doc.setTextColor(100);
 
-	// Add summary row
-	tableData.push([
-		"",
-		"",
-		"",
-		"",
-		"",
-		"",
-		"Grand Total:",
-		formatCurrency(summary.totalAmount, summary.currency),
-	]);
+	// Show which provider / account each ride came from when the summary
+	// spans several, and distance / duration when any ride reports them
+	const totalDistanceKm = getTotalDistanceKm(summary.rides);
+	const columns = getSummaryColumns(template, {
+		showProvider: new Set(summary.rides.map((ride) => ride.provider)).size > 1,
+		showAccount: new Set(summary.rides.map((ride) => ride.account)).size > 1,
+		showDistance: totalDistanceKm !== undefined,
+		showDuration: summary.rides.some(
+			(ride) => ride.durationMinutes !== undefined,
+		),
+		convertedCurrency: conversion?.currency,
+	});
 
-	// Generate table with more columns
+	const tableData = summary.rides.map((ride, index) =>
+		columns.map((column) => column.value(ride, index)),
+	);
+
+	// Add a grand-total row per currency; total distance goes on the first.
+	// The label sits in the destination (else pickup) address column, or just
+	// before the amount when the template shows neither
+	const rideRowCount = tableData.length;
+	const isMixedCurrency = summary.totals.length > 1;
+	const indexOf = (id: SummaryColumnId) =>
+		columns.findIndex((c) => c.id === id);
+	const distanceIndex = indexOf("distance");
+	const amountIndex = indexOf("amount");
+	const labelIndex =
+		[indexOf("dropoffAddress"), indexOf("pickupAddress")].find(
+			(index) => index !== -1,
+		) ?? Math.max(amountIndex - 1, 0);
+	const addTotalRow = (label: string, valueIndex: number, value: string) => {
+		const totalRow = columns.map(() => "");
+		totalRow[labelIndex] = label;
+		totalRow[valueIndex] =
+			valueIndex === labelIndex ? `${label} ${value}` : value;
+		tableData.push(totalRow);
+		return totalRow;
+	};
+	summary.totals.forEach((total, index) => {
+		const totalRow = addTotalRow(
+			isMixedCurrency ? `Grand Total (${total.currency}):` : "Grand Total:",
+			amountIndex,
+			formatCurrency(total.amount, total.currency),
+		);
+		if (index === 0 && distanceIndex !== -1) {
+			totalRow[distanceIndex] = formatDistance(totalDistanceKm);
+		}
+	});
+	if (conversion) {
+		const convertedIndex = indexOf("convertedAmount");
+		addTotalRow(
+			`Converted Total (${conversion.currency}):`,
+			convertedIndex === -1 ? amountIndex : convertedIndex,
+			formatCurrency(conversion.total, conversion.currency),
+		);
+	}
+
+	// Wrap the footer disclaimer now so the table leaves room for it
+	doc.setFontSize(7);
+	const disclaimerLines = template.footerDisclaimer.trim()
+		? text.wrap(sanitizeText(template.footerDisclaimer), pageWidth - 28)
+		: [];
+	const footerHeight = 16 + disclaimerLines.length * 3;
+
+	// Cells with text outside the bundled font are wrapped and drawn by the
+	// multi-script renderer instead of autotable
+	const richCellLines = new WeakMap<object, string[]>();
+
+	// Where each ride's first cell was drawn, to link it to the receipt once
+	// the receipts are merged in; coordinates are in mm from the top left
+	const rowCells: Array<{
+		pageIndex: number;
+		x: number;
+		y: number;
+		width: number;
+		height: number;
+	}> = [];
+
+	// Generate table
 	autoTable(doc, {
 		startY: yPos + 5,
-		head: [
-			[
-				"No.",
-				"Pickup",
-				"Dropoff",
-				"Driver",
-				"Vehicle",
-				"Pickup Address",
-				"Destination Address",
-				"Amount",
-			],
-		],
+		margin: { bottom: footerHeight },
+		head: [columns.map((column) => column.header)],
 		body: tableData,
 		theme: "striped",
 		styles: {
 			font: "GoogleSansFlex",
 		},
 		headStyles: {
-			fillColor: [0, 0, 0],
-			textColor: [255, 255, 255],
+			fillColor: hexToRgb(template.headerColor),
+			textColor: hexToRgb(template.headerTextColor),
 			fontStyle: "normal",
 			fontSize: 9,
 		},
@@ -200,31 +637,97 @@ export async function generateSummaryPdf(
 			textColor: [0, 0, 0],
 			fontStyle: "normal",
 		},
-		columnStyles: {
-			0: { cellWidth: 12, halign: "center" }, // No.
-			1: { cellWidth: 36 }, // Pickup (date + time)
-			2: { cellWidth: 36 }, // Dropoff (date + time)
-			3: { cellWidth: 26 }, // Driver
-			4: { cellWidth: 20 }, // Vehicle
-			5: { cellWidth: 58 }, // Pickup Address
-			6: { cellWidth: 58 }, // Destination Address
-			7: { cellWidth: 24, halign: "center" }, // Amount
-		},
+		columnStyles: Object.fromEntries(
+			columns.map((column, index) => [
+				index,
+				{ cellWidth: column.width, halign: column.halign },
+			]),
+		),
 		didParseCell: (data) => {
-			// Make last row bold (using larger font instead since we have a variable font)
-			if (data.row.index === tableData.length - 1) {
-				data.cell.styles.fillColor = [240, 240, 240];
+			// Shade the grand-total rows
+			if (data.row.index >= rideRowCount) {
+				data.cell.styles.fillColor = hexToRgb(template.totalRowColor);
+			} else if (data.section === "body" && data.column.index === 0) {
+				// Row numbers link to the receipt; colour them like links, or
+				// amber when the receipt is missing
+				const { outcome } =
+					receipts.get(summary.rides[data.row.index].rideId) ?? {};
+				if (outcome?.status === "merged") {
+					data.cell.styles.textColor = [29, 78, 216];
+				} else if (isFailedReceipt(outcome)) {
+					data.cell.styles.textColor = [180, 83, 9];
+				}
+			}
+			if (data.cell.text.some(needsFallbackFont)) {
+				data.cell.styles.overflow = (lines, width) =>
+					(Array.isArray(lines) ? lines : [lines]).flatMap((line) =>
+						text.wrap(line, width),
+					);
+			}
+		},
+		willDrawCell: (data) => {
+			if (data.cell.text.some(needsFallbackFont)) {
+				richCellLines.set(data.cell, data.cell.text);
+				data.cell.text = [];
+			}
+		},
+		didDrawCell: (data) => {
+			if (
+				data.section === "body" &&
+				data.column.index === 0 &&
+				data.row.index < rideRowCount
+			) {
+				// A row split across pages keeps its first position
+				rowCells[data.row.index] ??= {
+					pageIndex: doc.getCurrentPageInfo().pageNumber - 1,
+					x: data.cell.x,
+					y: data.cell.y,
+					width: data.cell.width,
+					height: data.cell.height,
+				};
+			}
+			const lines = richCellLines.get(data.cell);
+			if (!lines) return;
+			// Same line placement as autotable's own cell text
+			const fontSize = doc.getFontSize() / doc.internal.scaleFactor;
+			const lineHeight = fontSize * doc.getLineHeightFactor();
+			const { x, y } = data.cell.getTextPos();
+			let lineY = y + fontSize * (2 - 1.15);
+			if (data.cell.styles.valign === "middle") {
+				lineY -= (lines.length / 2) * lineHeight;
+			} else if (data.cell.styles.valign === "bottom") {
+				lineY -= lines.length * lineHeight;
+			}
+			for (const line of lines) {
+				text.drawLine(line, x, lineY, {
+					align:
+						data.cell.styles.halign === "justify"
+							? "left"
+							: data.cell.styles.halign,
+				});
+				lineY += lineHeight;
 			}
 		},
 	});
 
-	// Footer on summary pages
+	// Footer on summary pages: disclaimer above the page number
 	const summaryPageCount = doc.getNumberOfPages();
 	for (let i = 1; i <= summaryPageCount; i++) {
 		doc.setPage(i);
 		doc.setFont("GoogleSansFlex", "normal");
-		doc.setFontSize(8);
 		doc.setTextColor(150);
+		doc.setFontSize(7);
+		disclaimerLines.forEach((line, index) => {
+			text.drawLine(
+				line,
+				pageWidth / 2,
+				doc.internal.pageSize.height -
+					14 -
+					(disclaimerLines.length - index) * 3,
+				{ align: "center" },
+			);
+		});
+		doc.setFontSize(8);
 		doc.text(
 			`Page ${i}`,
 			doc.internal.pageSize.width / 2,
@@ -233,46 +736,89 @@ export async function generateSummaryPdf(
 		);
 	}
 
+	// Placeholder pages go after the summary pages and are moved into
+	// place when the receipts are merged
+	const placeholderPageIndex = new Map<string, number>();
+	if (options.placeholderPages) {
+		summary.rides.forEach((ride, index) => {
+			const { outcome } = receipts.get(ride.rideId) ?? {};
+			if (!outcome || !isFailedReceipt(outcome)) return;
+			addPlaceholderPage(
+				doc,
+				text,
+				ride,
+				index + 1,
+				outcome.error ?? "The receipt could not be included",
+			);
+			placeholderPageIndex.set(ride.rideId, doc.getNumberOfPages() - 1);
+		});
+	}
+
 	const summaryPdfBytes = new Uint8Array(doc.output("arraybuffer"));
 
 	// If no receipt PDFs provided, return just the summary
-	if (!pdfDataArray || pdfDataArray.length === 0) {
-		return summaryPdfBytes;
+	if (!hasReceipts) {
+		return { pdf: summaryPdfBytes, receipts: [] };
 	}
 
-	// Merge summary with receipt PDFs using pdf-lib
-	const mergedPdf = await PDFDocument.create();
-
-	// Add summary pages
+	// Merge summary with receipt PDFs using pdf-lib: summary pages first
 	const summaryDoc = await PDFDocument.load(summaryPdfBytes);
 	const summaryPages = await mergedPdf.copyPages(
 		summaryDoc,
-		summaryDoc.getPageIndices(),
+		Array.from({ length: summaryPageCount }, (_, i) => i),
 	);
 	for (const page of summaryPages) {
 		mergedPdf.addPage(page);
 	}
 
-	// Append individual receipt PDFs
-	for (const pdfData of pdfDataArray) {
-		try {
-			const pdfBytes = Uint8Array.from(atob(pdfData.pdfBase64), (c) =>
-				c.charCodeAt(0),
-			);
-			const pdfToMerge = await PDFDocument.load(pdfBytes);
-			const copiedPages = await mergedPdf.copyPages(
-				pdfToMerge,
-				pdfToMerge.getPageIndices(),
-			);
-			for (const page of copiedPages) {
+	// Append receipts in table order, or the placeholder for a missing one,
+	// noting where each starts
+	const receiptPageIndex = new Map<string, number>();
+	for (const ride of summary.rides) {
+		const pages = receiptPages.get(ride.rideId);
+		if (pages) {
+			receiptPageIndex.set(ride.rideId, mergedPdf.getPageCount());
+			for (const page of pages) {
 				mergedPdf.addPage(page);
 			}
-		} catch (error) {
-			console.error(`Failed to merge PDF for ride ${pdfData.rideId}:`, error);
+			continue;
+		}
+		const placeholderIndex = placeholderPageIndex.get(ride.rideId);
+		if (placeholderIndex !== undefined) {
+			const [page] = await mergedPdf.copyPages(summaryDoc, [placeholderIndex]);
+			receiptPageIndex.set(ride.rideId, mergedPdf.getPageCount());
+			mergedPdf.addPage(page);
 		}
 	}
 
-	return mergedPdf.save();
+	// Bookmark every ride (at its receipt, or its summary row when it has
+	// none) and link each row number to the receipt
+	const scaleFactor = doc.internal.scaleFactor;
+	const outline = [{ title: documentTitle, pageIndex: 0 }];
+	summary.rides.forEach((ride, index) => {
+		const row = rowCells[index];
+		const receiptPage = receiptPageIndex.get(ride.rideId);
+		outline.push({
+			title: `${index + 1}. ${safeFormatDate(ride.startTime, "MMM d, yyyy")} – ${formatCurrency(ride.totalAmount, ride.currency)}`,
+			pageIndex: receiptPage ?? row?.pageIndex ?? 0,
+		});
+		if (row && receiptPage !== undefined) {
+			const pageHeight = mergedPdf.getPage(row.pageIndex).getHeight();
+			const rect: LinkRect = {
+				x: row.x * scaleFactor,
+				y: pageHeight - (row.y + row.height) * scaleFactor,
+				width: row.width * scaleFactor,
+				height: row.height * scaleFactor,
+			};
+			addPageLink(mergedPdf, row.pageIndex, rect, receiptPage);
+		}
+	});
+	setOutline(mergedPdf, outline);
+
+	return {
+		pdf: await mergedPdf.save(),
+		receipts: Array.from(receipts.values(), (receipt) => receipt.outcome),
+	};
 }
 
 /**
@@ -281,6 +827,8 @@ export async function generateSummaryPdf(
 export function generateCsv(summary: RidesSummary): string {
 	const headers = [
 		"Ride ID",
+		"Provider",
+		"Account",
 		"Pickup",
 		"Dropoff",
 		"Driver",
@@ -288,15 +836,25 @@ export function generateCsv(summary: RidesSummary): string {
 		"Status",
 		"Pickup Address",
 		"Destination Address",
+		"Distance (km)",
+		"Duration (min)",
 		"Amount",
 		"Currency",
 	];
+	// Conversion columns only once an exchange rate applies
+	const { conversion } = summary;
+	if (conversion) {
+		headers.push("Exchange Rate", "Converted Amount", "Reporting Currency");
+	}
+	const conversionCells = (cells: string[]) => (conversion ? cells : []);
 
 	const rows = summary.rides.map((ride) => {
 		const startDate = safeParseDate(ride.startTime);
 		const endDate = safeParseDate(ride.endTime);
 		return [
 			ride.rideId,
+			`"${(ride.provider || "").replace(/"/g, '""')}"`,
+			`"${(ride.account || "").replace(/"/g, '""')}"`,
 			startDate ? startDate.toISOString() : "",
 			endDate ? endDate.toISOString() : "",
 			`"${(ride.driverName || "").replace(/"/g, '""')}"`,
@@ -304,24 +862,62 @@ export function generateCsv(summary: RidesSummary): string {
 			`"${(ride.status || "").replace(/"/g, '""')}"`,
 			`"${(ride.startLocation || "").replace(/"/g, '""')}"`,
 			`"${(ride.endLocation || "").replace(/"/g, '""')}"`,
+			ride.distanceKm?.toFixed(2) ?? "",
+			ride.durationMinutes?.toString() ?? "",
 			ride.totalAmount.toFixed(2),
 			ride.currency,
+			...conversionCells([
+				ride.exchangeRate?.toString() ?? "",
+				ride.convertedAmount?.toFixed(2) ?? "",
+				ride.convertedAmount !== undefined ? (conversion?.currency ?? "") : "",
+			]),
 		];
 	});
 
-	// Add total row
-	rows.push([
-		"",
-		"",
-		"",
-		"",
-		"",
-		"",
-		"",
-		"Total:",
-		summary.totalAmount.toFixed(2),
-		summary.currency,
-	]);
+	// Add a total row per currency (never summed across currencies); total
+	// distance goes on the first
+	summary.totals.forEach((total, index) => {
+		rows.push([
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			"",
+			summary.totals.length > 1 ? `Total (${total.currency}):` : "Total:",
+			index === 0 ? (getTotalDistanceKm(summary.rides)?.toFixed(2) ?? "") : "",
+			"",
+			total.amount.toFixed(2),
+			total.currency,
+			...conversionCells(["", "", ""]),
+		]);
+	});
+
+	// Converted grand total in the reporting currency, and which currencies
+	// it leaves out
+	if (conversion) {
+		rows.push([
+			...Array<string>(9).fill(""),
+			"Converted Total:",
+			"",
+			"",
+			"",
+			"",
+			"",
+			conversion.total.toFixed(2),
+			conversion.currency,
+		]);
+		if (conversion.missingCurrencies.length > 0) {
+			rows.push([
+				...Array<string>(9).fill(""),
+				`"No exchange rate for ${conversion.missingCurrencies.join(", ")}; those rides are not in the ${conversion.currency} total."`,
+				...Array<string>(7).fill(""),
+			]);
+		}
+	}
 
 	const csvContent = [
 		headers.join(","),
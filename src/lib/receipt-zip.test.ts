@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { strFromU8, unzipSync } from "fflate";
+import {
+	createZip,
+	DEFAULT_ZIP_EXPORT,
+	findUnknownTokens,
+	formatReceiptFilename,
+	parseZipExport,
+	uniqueFilename,
+} from "./receipt-zip";
+
+const ride = {
+	rideId: "ab12-cd34",
+	startTime: "2025-01-31T09:15:00",
+	totalAmount: 250,
+	currency: "INR",
+	provider: "Uber",
+	account: "Work",
+};
+
+describe("formatReceiptFilename", () => {
+	test("fills in the default pattern", () => {
+		expect(
+			formatReceiptFilename(DEFAULT_ZIP_EXPORT.filenamePattern, ride, 0, 1),
+		).toBe("2025-01-31_Uber_250.00_ab12-cd34.pdf");
+	});
+
+	test("pads the index to the width of the selection", () => {
+		expect(formatReceiptFilename("{index}-{time}", ride, 4, 12)).toBe(
+			"05-0915.pdf",
+		);
+	});
+
+	test("numbers the files of a ride with several invoices", () => {
+		expect(formatReceiptFilename("{rideId}.pdf", ride, 0, 1, 2)).toBe(
+			"ab12-cd34_2.pdf",
+		);
+	});
+
+	test("replaces characters that are not allowed in filenames", () => {
+		expect(
+			formatReceiptFilename(
+				"{account}/{currency} {amount}",
+				{ ...ride, account: 'Client: "A"' },
+				0,
+				1,
+			),
+		).toBe("Client- -A--INR 250.00.pdf");
+	});
+
+	test("keeps unknown tokens and falls back to the ride ID when empty", () => {
+		expect(formatReceiptFilename("{fare}", ride, 0, 1)).toBe("{fare}.pdf");
+		expect(
+			formatReceiptFilename("{account}", { ...ride, account: "" }, 0, 1),
+		).toBe("ab12-cd34.pdf");
+	});
+});
+
+test("findUnknownTokens lists each unknown token once", () => {
+	expect(findUnknownTokens("{date}_{fare}_{fare}_{Driver}")).toEqual([
+		"fare",
+		"Driver",
+	]);
+});
+
+test("uniqueFilename numbers repeated names", () => {
+	const used = new Set<string>();
+	expect(uniqueFilename("receipt.pdf", used)).toBe("receipt.pdf");
+	expect(uniqueFilename("Receipt.pdf", used)).toBe("Receipt (2).pdf");
+	expect(uniqueFilename("receipt.pdf", used)).toBe("receipt (3).pdf");
+});
+
+test("createZip writes every entry", () => {
+	const pdf = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+	const files = unzipSync(
+		createZip([
+			{ name: "a.pdf", data: pdf },
+			{ name: "summary.csv", data: "Ride ID\nab12-cd34\n" },
+		]),
+	);
+	expect(Object.keys(files)).toEqual(["a.pdf", "summary.csv"]);
+	expect(files["a.pdf"]).toEqual(pdf);
+	expect(strFromU8(files["summary.csv"])).toBe("Ride ID\nab12-cd34\n");
+});
+
+describe("parseZipExport", () => {
+	test("round-trips stored settings", () => {
+		const settings = {
+			version: 1 as const,
+			filenamePattern: "{index}_{rideId}",
+			includeSummaryPdf: false,
+			includeCsv: true,
+		};
+		expect(parseZipExport(JSON.stringify(settings))).toEqual(settings);
+	});
+
+	test("falls back to the defaults on bad input", () => {
+		expect(parseZipExport("not json")).toEqual(DEFAULT_ZIP_EXPORT);
+		expect(parseZipExport(null)).toEqual(DEFAULT_ZIP_EXPORT);
+		expect(
+			parseZipExport(JSON.stringify({ version: 1, filenamePattern: " " })),
+		).toEqual(DEFAULT_ZIP_EXPORT);
+	});
+});
@@ -0,0 +1,195 @@
+import { format } from "date-fns";
+import { strToU8, zipSync } from "fflate";
+import type { RideData } from "@/types/rides";
+
+const STORAGE_KEY = "zip_export";
+
+/** Placeholders a receipt filename pattern can use. */
+export const FILENAME_TOKENS = {
+	date: "Pickup date (2025-01-31)",
+	time: "Pickup time (0915)",
+	provider: "Provider name",
+	account: "Account label",
+	amount: "Fare without currency (250.00)",
+	currency: "Currency code",
+	rideId: "Provider's ride ID",
+	index: "Position in the selection (01, 02, …)",
+} as const;
+
+export type FilenameToken = keyof typeof FILENAME_TOKENS;
+
+/**
+ * The locally stored ZIP export preferences.
+ */
+export interface ZipExportSettings {
+	version: 1;
+	/** Receipt filename with {token} placeholders; ".pdf" is added if missing. */
+	filenamePattern: string;
+	includeSummaryPdf: boolean;
+	includeCsv: boolean;
+}
+
+export const DEFAULT_ZIP_EXPORT: ZipExportSettings = {
+	version: 1,
+	filenamePattern: "{date}_{provider}_{amount}_{rideId}.pdf",
+	includeSummaryPdf: true,
+	includeCsv: true,
+};
+
+/** The ride fields receipt filenames read. */
+type FilenameRide = Pick<
+	RideData,
+	"rideId" | "startTime" | "totalAmount" | "currency" | "provider" | "account"
+>;
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+
+// Characters Windows, macOS or common unzip tools reject in a filename
+const UNSAFE_CHARS = /[\\/:*?"<>|\p{Cc}]/gu;
+
+const MAX_NAME_LENGTH = 120;
+
+function isFilenameToken(name: string): name is FilenameToken {
+	return Object.hasOwn(FILENAME_TOKENS, name);
+}
+
+/** Tokens in the pattern that are not in FILENAME_TOKENS, in order. */
+export function findUnknownTokens(pattern: string): string[] {
+	const unknown = new Set<string>();
+	for (const [, name] of pattern.matchAll(TOKEN_PATTERN)) {
+		if (!isFilenameToken(name)) unknown.add(name);
+	}
+	return Array.from(unknown);
+}
+
+function sanitizeFilename(name: string): string {
+	return name.replace(UNSAFE_CHARS, "-").replace(/\s+/g, " ").trim();
+}
+
+function tokenValue(
+	token: FilenameToken,
+	ride: FilenameRide,
+	index: number,
+	total: number,
+): string {
+	const date = new Date(ride.startTime);
+	const validDate = !Number.isNaN(date.getTime());
+	switch (token) {
+		case "date":
+			return validDate ? format(date, "yyyy-MM-dd") : "unknown-date";
+		case "time":
+			return validDate ? format(date, "HHmm") : "unknown-time";
+		case "provider":
+			return ride.provider ?? "";
+		case "account":
+			return ride.account ?? "";
+		case "amount":
+			return ride.totalAmount.toFixed(2);
+		case "currency":
+			return ride.currency;
+		case "rideId":
+			return ride.rideId;
+		case "index":
+			return String(index + 1).padStart(String(total).length, "0");
+	}
+}
+
+/**
+ * Fill in a receipt filename pattern for one ride. Unknown tokens are kept
+ * as typed, characters that are not allowed in filenames become "-", and the
+ * name always ends in ".pdf". Rides with several invoice files pass the
+ * 1-based `part`, which is added as "_1", "_2", ….
+ */
+export function formatReceiptFilename(
+	pattern: string,
+	ride: FilenameRide,
+	index: number,
+	total: number,
+	part?: number,
+): string {
+	const filled = pattern.replace(TOKEN_PATTERN, (match, name: string) =>
+		isFilenameToken(name) ? tokenValue(name, ride, index, total) : match,
+	);
+	const base = sanitizeFilename(filled.replace(/\.pdf$/i, ""))
+		.slice(0, MAX_NAME_LENGTH)
+		.trim();
+	const suffix = part === undefined ? "" : `_${part}`;
+	return `${base || sanitizeFilename(ride.rideId)}${suffix}.pdf`;
+}
+
+/**
+ * Return `name`, or "name (2).ext", "name (3).ext", … when it is taken, and
+ * record the result in `used`. Names are compared case-insensitively since
+ * most file systems do.
+ */
+export function uniqueFilename(name: string, used: Set<string>): string {
+	const dot = name.lastIndexOf(".");
+	const stem = dot > 0 ? name.slice(0, dot) : name;
+	const extension = dot > 0 ? name.slice(dot) : "";
+	let candidate = name;
+	for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+		candidate = `${stem} (${n})${extension}`;
+	}
+	used.add(candidate.toLowerCase());
+	return candidate;
+}
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array | string;
+}
+
+/**
+ * Build a ZIP archive in memory. PDFs are stored as-is since they are
+ * already compressed; text entries are deflated.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+	const files: Parameters<typeof zipSync>[0] = {};
+	for (const entry of entries) {
+		files[entry.name] =
+			typeof entry.data === "string"
+				? [strToU8(entry.data), { level: 6 }]
+				: [entry.data, { level: 0 }];
+	}
+	return zipSync(files);
+}
+
+/**
+ * Parse the stored ZIP export preferences, falling back to the defaults for
+ * missing or malformed fields.
+ */
+export function parseZipExport(raw: string | null): ZipExportSettings {
+	if (!raw) return DEFAULT_ZIP_EXPORT;
+	try {
+		const parsed = JSON.parse(raw) as Partial<ZipExportSettings>;
+		if (parsed.version !== 1) return DEFAULT_ZIP_EXPORT;
+		return {
+			version: 1,
+			filenamePattern:
+				typeof parsed.filenamePattern === "string" &&
+				parsed.filenamePattern.trim()
+					? parsed.filenamePattern
+					: DEFAULT_ZIP_EXPORT.filenamePattern,
+			includeSummaryPdf:
+				typeof parsed.includeSummaryPdf === "boolean"
+					? parsed.includeSummaryPdf
+					: DEFAULT_ZIP_EXPORT.includeSummaryPdf,
+			includeCsv:
+				typeof parsed.includeCsv === "boolean"
+					? parsed.includeCsv
+					: DEFAULT_ZIP_EXPORT.includeCsv,
+		};
+	} catch {
+		return DEFAULT_ZIP_EXPORT;
+	}
+}
+
+export function loadZipExport(): ZipExportSettings {
+	if (typeof window === "undefined") return DEFAULT_ZIP_EXPORT;
+	return parseZipExport(localStorage.getItem(STORAGE_KEY));
+}
+
+export function saveZipExport(settings: ZipExportSettings): void {
+	if (typeof window === "undefined") return;
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
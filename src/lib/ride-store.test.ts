@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import type { NormalizedRide } from "@/providers/types";
+import {
+	mergeCoverage,
+	mergeRides,
+	planSync,
+	SYNC_OVERLAP_MS,
+	type SyncMeta,
+	toSyncWindow,
+} from "./ride-store";
+
+const DAY = 24 * 60 * 60 * 1000;
+const key = { provider: "uber", accountId: "a1", scope: "default" } as const;
+
+const meta: SyncMeta = {
+	...key,
+	coveredFrom: 10 * DAY,
+	coveredTo: 20 * DAY,
+	lastSyncedAt: 20 * DAY,
+};
+
+const ride = (
+	rideId: string,
+	startTime: string,
+	status = "COMPLETED",
+): NormalizedRide => ({
+	rideId,
+	startTime,
+	endTime: startTime,
+	startLocation: "A",
+	endLocation: "B",
+	totalAmount: 100,
+	currency: "INR",
+	driverName: "Driver",
+	vehicleType: "Auto",
+	status,
+	mapUrl: "",
+	isAutoRide: false,
+	provider: "uber",
+});
+
+describe("toSyncWindow", () => {
+	test("spans from the start of the first day to the end of the last", () => {
+		const window = toSyncWindow({
+			from: new Date(2025, 0, 5, 15, 30),
+			to: new Date(2025, 0, 7, 9),
+		});
+		expect(window.from).toBe(new Date(2025, 0, 5).getTime());
+		expect(window.to).toBe(new Date(2025, 0, 7, 23, 59, 59, 999).getTime());
+	});
+});
+
+describe("planSync", () => {
+	test("fetches the whole window without a previous sync", () => {
+		const window = { from: 12 * DAY, to: 25 * DAY };
+		expect(planSync(undefined, window)).toEqual(window);
+	});
+
+	test("fetches only rides newer than the last sync, with overlap", () => {
+		expect(planSync(meta, { from: 12 * DAY, to: 25 * DAY })).toEqual({
+			from: 20 * DAY - SYNC_OVERLAP_MS,
+			to: 25 * DAY,
+		});
+	});
+
+	test("returns null when the cache covers the window", () => {
+		expect(planSync(meta, { from: 12 * DAY, to: 18 * DAY })).toBeNull();
+	});
+
+	test("refetches everything when the window starts before the cache", () => {
+		const window = { from: 5 * DAY, to: 25 * DAY };
+		expect(planSync(meta, window)).toEqual(window);
+	});
+});
+
+describe("mergeCoverage", () => {
+	test("extends an overlapping window, capped at now", () => {
+		expect(
+			mergeCoverage(key, meta, { from: 19 * DAY, to: 30 * DAY }, 25 * DAY),
+		).toEqual({ ...meta, coveredTo: 25 * DAY, lastSyncedAt: 25 * DAY });
+	});
+
+	test("replaces a disjoint window", () => {
+		expect(
+			mergeCoverage(key, meta, { from: 40 * DAY, to: 45 * DAY }, 50 * DAY),
+		).toEqual({
+			...key,
+			coveredFrom: 40 * DAY,
+			coveredTo: 45 * DAY,
+			lastSyncedAt: 50 * DAY,
+		});
+	});
+});
+
+describe("mergeRides", () => {
+	test("prefers fetched rides and sorts newest first", () => {
+		const merged = mergeRides(
+			[
+				ride("r1", "2025-01-01T10:00:00Z", "PROCESSING"),
+				ride("r2", "2025-01-03T10:00:00Z"),
+			],
+			[ride("r1", "2025-01-01T10:00:00Z"), ride("r3", "2025-01-02T10:00:00Z")],
+		);
+		expect(merged.map((r) => [r.rideId, r.status])).toEqual([
+			["r2", "COMPLETED"],
+			["r3", "COMPLETED"],
+			["r1", "COMPLETED"],
+		]);
+	});
+});
@@ -0,0 +1,270 @@
+import type { NormalizedRide, ProviderId } from "@/providers/types";
+import type { DateRange } from "@/types/rides";
+
+/**
+ * Local cache of fetched rides, kept in IndexedDB so the dashboard can open
+ * straight from disk and later fetches only pull what is new.
+ *
+ * Rides are keyed by [provider, accountId, rideId]. Alongside them, a sync
+ * record per account (and profile scope) remembers which time window has
+ * already been fetched.
+ */
+
+const DB_NAME = "ride-store";
+const DB_VERSION = 1;
+const RIDES_STORE = "rides";
+const SYNC_STORE = "sync";
+const BY_ACCOUNT_INDEX = "byAccount";
+
+/**
+ * Rides starting shortly before the last sync are fetched again, so trips
+ * that were still in progress at that point pick up their final state.
+ */
+export const SYNC_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+/** A cached ride; always stamped with the account that fetched it. */
+export type StoredRide = NormalizedRide & { accountId: string };
+
+/**
+ * The window of ride start times already fetched for one account and scope.
+ * `scope` separates fetches that return different ride sets for the same
+ * account, such as Uber's personal-only and all-profiles fetches.
+ */
+export interface SyncMeta {
+	provider: ProviderId;
+	accountId: string;
+	scope: string;
+	/** Start of the covered window (ms since epoch). */
+	coveredFrom: number;
+	/** End of the covered window; never later than the time of the fetch. */
+	coveredTo: number;
+	lastSyncedAt: number;
+}
+
+/** An inclusive [from, to] window of ride start times, in ms since epoch. */
+export interface SyncWindow {
+	from: number;
+	to: number;
+}
+
+/**
+ * Convert the picker's date range into the window of start times it covers:
+ * start of the first day through the end of the last day.
+ */
+export function toSyncWindow(range: DateRange, now = new Date()): SyncWindow {
+	const from = new Date(range.from ?? now);
+	from.setHours(0, 0, 0, 0);
+	const to = new Date(range.to ?? range.from ?? now);
+	to.setHours(23, 59, 59, 999);
+	return { from: from.getTime(), to: to.getTime() };
+}
+
+/**
+ * Work out what still has to be fetched for `window`. When the cached window
+ * already reaches back to the requested start, only rides newer than the last
+ * sync (minus SYNC_OVERLAP_MS) are needed; otherwise the whole window is
+ * fetched. Returns null when the cache covers everything.
+ */
+export function planSync(
+	meta: SyncMeta | undefined,
+	window: SyncWindow,
+): SyncWindow | null {
+	if (!meta || meta.coveredFrom > window.from || meta.coveredTo < window.from) {
+		return window;
+	}
+	if (meta.coveredTo >= window.to) return null;
+	return {
+		from: Math.max(window.from, meta.coveredTo - SYNC_OVERLAP_MS),
+		to: window.to,
+	};
+}
+
+/**
+ * Extend the covered window after fetching `fetched`. Overlapping windows are
+ * merged; a disjoint fetch replaces the old window, since the gap between
+ * them was never fetched.
+ */
+export function mergeCoverage(
+	key: Pick<SyncMeta, "provider" | "accountId" | "scope">,
+	meta: SyncMeta | undefined,
+	fetched: SyncWindow,
+	now: number,
+): SyncMeta {
+	const to = Math.min(fetched.to, now);
+	const overlaps =
+		!!meta && fetched.from <= meta.coveredTo && to >= meta.coveredFrom;
+	return {
+		provider: key.provider,
+		accountId: key.accountId,
+		scope: key.scope,
+		coveredFrom: overlaps
+			? Math.min(fetched.from, meta.coveredFrom)
+			: fetched.from,
+		coveredTo: overlaps ? Math.max(to, meta.coveredTo) : to,
+		lastSyncedAt: now,
+	};
+}
+
+/**
+ * Merge freshly fetched rides over cached ones (fetched wins on the same
+ * rideId), newest first.
+ */
+export function mergeRides<T extends NormalizedRide>(
+	cached: T[],
+	fetched: T[],
+): T[] {
+	const byId = new Map<string, T>();
+	for (const ride of cached) byId.set(ride.rideId, ride);
+	for (const ride of fetched) byId.set(ride.rideId, ride);
+	return Array.from(byId.values()).sort(
+		(a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime(),
+	);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				const rides = db.createObjectStore(RIDES_STORE, {
+					keyPath: ["provider", "accountId", "rideId"],
+				});
+				rides.createIndex(BY_ACCOUNT_INDEX, ["provider", "accountId"]);
+				db.createObjectStore(SYNC_STORE, {
+					keyPath: ["provider", "accountId", "scope"],
+				});
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				dbPromise = null;
+				reject(request.error);
+			};
+		});
+	}
+	return dbPromise;
+}
+
+function isAvailable(): boolean {
+	return typeof indexedDB !== "undefined";
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+}
+
+/**
+ * All cached rides for one account. Resolves to [] when IndexedDB is
+ * unavailable or fails, so callers fall back to a full fetch.
+ */
+export async function loadStoredRides(
+	provider: ProviderId,
+	accountId: string,
+): Promise<StoredRide[]> {
+	if (!isAvailable()) return [];
+	try {
+		const db = await openDb();
+		const index = db
+			.transaction(RIDES_STORE, "readonly")
+			.objectStore(RIDES_STORE)
+			.index(BY_ACCOUNT_INDEX);
+		return await requestResult(
+			index.getAll([provider, accountId]) as IDBRequest<StoredRide[]>,
+		);
+	} catch (error) {
+		console.error("Failed to read cached rides:", error);
+		return [];
+	}
+}
+
+export async function saveStoredRides(rides: StoredRide[]): Promise<void> {
+	if (!isAvailable() || rides.length === 0) return;
+	try {
+		const db = await openDb();
+		const tx = db.transaction(RIDES_STORE, "readwrite");
+		const store = tx.objectStore(RIDES_STORE);
+		for (const ride of rides) {
+			store.put(ride);
+		}
+		await transactionDone(tx);
+	} catch (error) {
+		console.error("Failed to cache rides:", error);
+	}
+}
+
+export async function loadSyncMeta(
+	provider: ProviderId,
+	accountId: string,
+	scope: string,
+): Promise<SyncMeta | undefined> {
+	if (!isAvailable()) return undefined;
+	try {
+		const db = await openDb();
+		const store = db
+			.transaction(SYNC_STORE, "readonly")
+			.objectStore(SYNC_STORE);
+		return await requestResult(
+			store.get([provider, accountId, scope]) as IDBRequest<
+				SyncMeta | undefined
+			>,
+		);
+	} catch (error) {
+		console.error("Failed to read sync state:", error);
+		return undefined;
+	}
+}
+
+export async function saveSyncMeta(meta: SyncMeta): Promise<void> {
+	if (!isAvailable()) return;
+	try {
+		const db = await openDb();
+		const tx = db.transaction(SYNC_STORE, "readwrite");
+		tx.objectStore(SYNC_STORE).put(meta);
+		await transactionDone(tx);
+	} catch (error) {
+		console.error("Failed to save sync state:", error);
+	}
+}
+
+/**
+ * Drop every cached ride and sync record of an account (on logout).
+ */
+export async function clearStoredAccount(
+	provider: ProviderId,
+	accountId: string,
+): Promise<void> {
+	if (!isAvailable()) return;
+	try {
+		const db = await openDb();
+		const tx = db.transaction([RIDES_STORE, SYNC_STORE], "readwrite");
+		const rides = tx.objectStore(RIDES_STORE);
+		const keys = await requestResult(
+			rides.index(BY_ACCOUNT_INDEX).getAllKeys([provider, accountId]),
+		);
+		for (const key of keys) {
+			rides.delete(key);
+		}
+		tx.objectStore(SYNC_STORE).delete(
+			IDBKeyRange.bound(
+				[provider, accountId, ""],
+				[provider, accountId, "\uffff"],
+			),
+		);
+		await transactionDone(tx);
+	} catch (error) {
+		console.error("Failed to clear cached rides:", error);
+	}
+}
@@ -277,6 +277,21 @@ export const GET_INVOICE_FILES_QUERY = {
 }`,
 };
 
+/**
+ * Profile types accepted by the Activities query's `profileType` variable
+ */
+export type UberActivityProfileType = "PERSONAL" | "BUSINESS";
+
+/**
+ * Map a rider profile type (from CurrentUserRidersWeb) to the Activities
+ * query's profile type. Every non-personal profile is a business profile.
+ */
+export function toActivityProfileType(
+	profileType: string,
+): UberActivityProfileType {
+	return profileType === "PERSONAL" ? "PERSONAL" : "BUSINESS";
+}
+
 /**
  * Helper to build activities query variables
  */
@@ -285,13 +300,14 @@ export function buildActivitiesVariables(options: {
 	nextPageToken?: string;
 	startTimeMs?: number;
 	endTimeMs?: number;
+	profileType?: UberActivityProfileType;
 }) {
 	return {
 		includePast: true,
 		includeUpcoming: false,
 		limit: options.limit ?? 50,
 		orderTypes: ["RIDES", "TRAVEL"],
-		profileType: "PERSONAL",
+		profileType: options.profileType ?? "PERSONAL",
 		...(options.nextPageToken && { nextPageToken: options.nextPageToken }),
 		...(options.startTimeMs && { startTimeMs: options.startTimeMs }),
 		...(options.endTimeMs && { endTimeMs: options.endTimeMs }),
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { generateRapidoOrders, generateUberTrips } from "./fake-rides";
+
+const now = Date.UTC(2025, 5, 30);
+
+describe("generateUberTrips", () => {
+	test("is repeatable for a seed and differs across seeds", () => {
+		const options = { seed: 7, count: 20, now };
+		expect(generateUberTrips(options)).toEqual(generateUberTrips(options));
+		expect(generateUberTrips({ ...options, seed: 8 })[0].uuid).not.toBe(
+			generateUberTrips(options)[0].uuid,
+		);
+	});
+
+	test("spreads rides over the window, newest first", () => {
+		const trips = generateUberTrips({ seed: 1, count: 50, now, days: 30 });
+		const times = trips.map((trip) => trip.beginTripMs);
+		expect(times).toEqual([...times].sort((a, b) => b - a));
+		expect(Math.max(...times)).toBeLessThanOrEqual(now);
+		expect(Math.min(...times)).toBeGreaterThanOrEqual(now - 30 * 86_400_000);
+		expect(new Set(trips.map((trip) => trip.uuid)).size).toBe(50);
+	});
+
+	test("only splits car invoices, and cancelled trips cost nothing", () => {
+		for (const trip of generateUberTrips({ seed: 3, count: 200, now })) {
+			if (trip.image !== "UberX") expect(trip.invoiceCount).toBe(1);
+			if (trip.status === "CANCELED") expect(trip.amount).toBe(0);
+			expect(trip.dropoffMs).toBeGreaterThan(trip.beginTripMs);
+		}
+	});
+});
+
+describe("generateRapidoOrders", () => {
+	test("gives orders with 24-character ids, newest first", () => {
+		const orders = generateRapidoOrders({ seed: 2, count: 30, now });
+		expect(orders).toHaveLength(30);
+		expect(orders.every((order) => /^[0-9a-f]{24}$/.test(order._id))).toBe(
+			true,
+		);
+		expect(orders[0].createdOn).toBeGreaterThanOrEqual(orders[29].createdOn);
+	});
+});
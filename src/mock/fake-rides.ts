@@ -0,0 +1,193 @@
+import type { RapidoOrder } from "@/providers/rapido-normalize";
+
+/**
+ * Seeded fake rides for the mock provider server. The same seed, count and
+ * `now` always give the same rides, newest first.
+ */
+
+export interface FakeRideOptions {
+	seed: number;
+	count: number;
+	/** Newest possible ride time. Default: the current time. */
+	now?: number;
+	/** How far back rides go. Default 120 days. */
+	days?: number;
+}
+
+/** An Uber trip, with what the activity card, trip page and invoices show. */
+export interface FakeUberTrip {
+	uuid: string;
+	profileType: "PERSONAL" | "BUSINESS";
+	beginTripMs: number;
+	dropoffMs: number;
+	status: "COMPLETED" | "CANCELED";
+	driver: string;
+	vehicleDisplayName: string;
+	/** Receipt vehicle type, e.g. "UberGo", "Auto", "Moto". */
+	vehicleType: string;
+	/** Activity card image name, which marks autos and bikes. */
+	image: "UberX" | "TukTuk" | "Moto";
+	amount: number;
+	pickup: string;
+	dropoff: string;
+	distanceKm: number;
+	durationMinutes: number;
+	/** 1, or 2 when the driver's fare and the platform fee are invoiced apart. */
+	invoiceCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STREETS = [
+	"MG Road",
+	"Residency Road",
+	"Park Street",
+	"Station Road",
+	"Lake View Avenue",
+	"Market Street",
+	"Hill Crest Lane",
+	"Airport Road",
+	"Temple Street",
+	"Ring Road",
+];
+const AREAS = ["Example City", "Sample Town", "Test Nagar", "Mock Heights"];
+const DRIVERS = [
+	"Driver Arun",
+	"Driver Bela",
+	"Driver Chetan",
+	"Driver Divya",
+	"Driver Esha",
+	"Driver Farhan",
+];
+
+const UBER_VEHICLES: Array<
+	Pick<FakeUberTrip, "vehicleDisplayName" | "vehicleType" | "image"> & {
+		ratePerKm: number;
+	}
+> = [
+	{
+		vehicleDisplayName: "Uber Go",
+		vehicleType: "UberGo",
+		image: "UberX",
+		ratePerKm: 14,
+	},
+	{
+		vehicleDisplayName: "Uber Premier",
+		vehicleType: "Premier",
+		image: "UberX",
+		ratePerKm: 19,
+	},
+	{
+		vehicleDisplayName: "Uber Auto",
+		vehicleType: "Auto",
+		image: "TukTuk",
+		ratePerKm: 11,
+	},
+	{
+		vehicleDisplayName: "Uber Moto",
+		vehicleType: "Moto",
+		image: "Moto",
+		ratePerKm: 7,
+	},
+];
+
+const RAPIDO_SERVICES = [
+	{ serviceName: "Bike", ratePerKm: 6 },
+	{ serviceName: "Auto", ratePerKm: 12 },
+	{ serviceName: "Cab Economy", ratePerKm: 15 },
+];
+
+/** mulberry32: a small, fast PRNG giving floats in [0, 1). */
+export function createRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+	return items[Math.floor(random() * items.length)];
+}
+
+function hex(random: () => number, length: number): string {
+	return Array.from({ length }, () =>
+		Math.floor(random() * 16).toString(16),
+	).join("");
+}
+
+function address(random: () => number): string {
+	return `${1 + Math.floor(random() * 200)} ${pick(random, STREETS)}, ${pick(random, AREAS)}`;
+}
+
+/** Ride times spread over the window, newest first. */
+function rideTimes(random: () => number, options: FakeRideOptions): number[] {
+	const now = options.now ?? Date.now();
+	const span = (options.days ?? 120) * DAY_MS;
+	return Array.from({ length: options.count }, () =>
+		Math.floor(now - random() * span),
+	).sort((a, b) => b - a);
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+export function generateUberTrips(options: FakeRideOptions): FakeUberTrip[] {
+	const random = createRandom(options.seed);
+	return rideTimes(random, options).map((beginTripMs) => {
+		const vehicle = pick(random, UBER_VEHICLES);
+		const distanceKm = round2(1.5 + random() * 25);
+		const durationMinutes = Math.round(distanceKm * (2 + random() * 2));
+		const cancelled = random() < 0.08;
+		return {
+			uuid: [
+				hex(random, 8),
+				hex(random, 4),
+				`4${hex(random, 3)}`,
+				`8${hex(random, 3)}`,
+				hex(random, 12),
+			].join("-"),
+			profileType: random() < 0.25 ? "BUSINESS" : "PERSONAL",
+			beginTripMs,
+			dropoffMs: beginTripMs + durationMinutes * 60_000,
+			status: cancelled ? "CANCELED" : "COMPLETED",
+			driver: pick(random, DRIVERS),
+			vehicleDisplayName: vehicle.vehicleDisplayName,
+			vehicleType: vehicle.vehicleType,
+			image: vehicle.image,
+			amount: cancelled ? 0 : round2(30 + distanceKm * vehicle.ratePerKm),
+			pickup: address(random),
+			dropoff: address(random),
+			distanceKm,
+			durationMinutes,
+			invoiceCount: vehicle.image === "UberX" && random() < 0.5 ? 2 : 1,
+		};
+	});
+}
+
+export function generateRapidoOrders(options: FakeRideOptions): RapidoOrder[] {
+	const random = createRandom(options.seed);
+	return rideTimes(random, options).map((createdOn) => {
+		const service = pick(random, RAPIDO_SERVICES);
+		const distance = round2(1 + random() * 18);
+		const duration = Math.round(distance * (2 + random() * 2));
+		const dropped = random() >= 0.1;
+		return {
+			_id: hex(random, 24),
+			createdOn,
+			lastModifiedOn: createdOn + duration * 60_000,
+			amount: dropped ? Math.round(20 + distance * service.ratePerKm) : 0,
+			status: dropped ? "dropped" : "cancelled",
+			serviceName: service.serviceName,
+			pickupLocation: { address: address(random) },
+			dropLocation: { address: address(random) },
+			rider: { name: pick(random, DRIVERS).replace("Driver", "Captain") },
+			distance,
+			duration,
+		};
+	});
+}
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { PDFDocument } from "pdf-lib";
+import {
+	configureTransport,
+	getTransportConfig,
+	type TransportConfig,
+} from "@/server/provider-transport";
+import { loadRapidoOrders } from "@/server/rapido-api";
+import { fetchTripReceiptPdfs, loadActivities } from "@/server/uber-api";
+import { generateUberTrips } from "./fake-rides";
+import {
+	createMockProviderHandler,
+	createMockRapidoToken,
+} from "./provider-server";
+
+// The app's own server code, pointed at the mock server
+const now = Date.UTC(2025, 5, 30);
+const options = { seed: 5, uberTrips: 60, rapidoOrders: 70, now };
+const server = Bun.serve({
+	port: 0,
+	fetch: createMockProviderHandler(options),
+});
+const auth = { cookie: "sid=mock", csrfToken: "x" };
+const trips = generateUberTrips({ seed: 5, count: 60, now });
+
+const env = {
+	UBER_GRAPHQL_URL: `${server.url.origin}/graphql`,
+	RAPIDO_ORDER_URL: `${server.url.origin}/pwa/api/order`,
+};
+const previousEnv = {
+	UBER_GRAPHQL_URL: process.env.UBER_GRAPHQL_URL,
+	RAPIDO_ORDER_URL: process.env.RAPIDO_ORDER_URL,
+};
+
+let previousTransport: TransportConfig;
+
+beforeAll(() => {
+	Object.assign(process.env, env);
+	previousTransport = getTransportConfig();
+	configureTransport({ mode: "live", fetch: undefined });
+});
+
+afterAll(() => {
+	for (const [name, value] of Object.entries(previousEnv)) {
+		if (value === undefined) delete process.env[name];
+		else process.env[name] = value;
+	}
+	configureTransport({
+		...previousTransport,
+		fetch: previousTransport.fetch,
+	});
+	server.stop(true);
+});
+
+describe("mock Uber API", () => {
+	test("pages through a profile's activities", async () => {
+		const personal = trips.filter((trip) => trip.profileType === "PERSONAL");
+		const first = await loadActivities({ auth, limit: 10 });
+		expect(first.error).toBeUndefined();
+		expect(first.activities.map((ride) => ride.rideId)).toEqual(
+			personal.slice(0, 10).map((trip) => trip.uuid),
+		);
+		expect(first.nextPageToken).toBe("10");
+
+		const second = await loadActivities({
+			auth,
+			limit: 10,
+			nextPageToken: first.nextPageToken ?? undefined,
+		});
+		expect(second.activities[0].rideId).toBe(personal[10].uuid);
+	});
+
+	test("serves every invoice file of a split trip", async () => {
+		const split = trips.find((trip) => trip.invoiceCount === 2);
+		if (!split) throw new Error("Seed has no split invoices");
+		const pdfs = await fetchTripReceiptPdfs(auth, {
+			tripUUID: split.uuid,
+			isAutoRide: false,
+		});
+		expect(pdfs).toHaveLength(2);
+		const pdf = await PDFDocument.load(Buffer.from(pdfs[1], "base64"));
+		expect(pdf.getPageCount()).toBe(1);
+	});
+
+	test("answers 401 for an expired session", async () => {
+		const handler = createMockProviderHandler({
+			...options,
+			authExpired: true,
+		});
+		const response = await handler(
+			new Request("http://mock/graphql", { method: "POST", body: "{}" }),
+		);
+		expect(response.status).toBe(401);
+	});
+
+	test("injects server errors at the configured rate", async () => {
+		const handler = createMockProviderHandler({ ...options, errorRate: 1 });
+		const response = await handler(new Request("http://mock/trips/x/receipt"));
+		expect([429, 500, 503]).toContain(response.status);
+	});
+});
+
+describe("mock Rapido API", () => {
+	test("pages through every order", async () => {
+		const result = await loadRapidoOrders({
+			auth: { token: createMockRapidoToken() },
+		});
+		expect(result.error).toBeUndefined();
+		expect(result.rides).toHaveLength(70);
+	});
+});
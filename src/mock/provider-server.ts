@@ -0,0 +1,392 @@
+import { parseArgs } from "node:util";
+import { zipSync } from "fflate";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import {
+	createRandom,
+	type FakeUberTrip,
+	generateRapidoOrders,
+	generateUberTrips,
+} from "./fake-rides";
+
+/**
+ * A local stand-in for the Uber and Rapido endpoints the app calls, serving
+ * seeded fake rides. Start it with `bun run mock`, then start the app with
+ * UBER_GRAPHQL_URL and RAPIDO_ORDER_URL pointing at it (the command prints
+ * both, plus a Rapido token to connect with).
+ */
+
+export interface MockServerOptions {
+	seed: number;
+	uberTrips: number;
+	rapidoOrders: number;
+	/** Newest possible ride time. Default: when the server starts. */
+	now?: number;
+	/** Share of requests answered 429, 500 or 503 instead, from 0 to 1. */
+	errorRate: number;
+	/** Answer every request 401, as for an expired session. */
+	authExpired: boolean;
+	/** Delay before every response, to watch progress and cancelling. */
+	delayMs: number;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockServerOptions = {
+	seed: 1,
+	uberTrips: 150,
+	rapidoOrders: 80,
+	errorRate: 0,
+	authExpired: false,
+	delayMs: 0,
+};
+
+const INJECTED_STATUSES = [429, 500, 503];
+
+const MONTHS = [
+	"Jan",
+	"Feb",
+	"Mar",
+	"Apr",
+	"May",
+	"Jun",
+	"Jul",
+	"Aug",
+	"Sep",
+	"Oct",
+	"Nov",
+	"Dec",
+];
+
+/** Activity subtitle as Uber writes it, e.g. "Nov 16, 2023 • 10:33 PM" (UTC). */
+function formatSubtitle(ms: number): string {
+	const date = new Date(ms);
+	const hours = date.getUTCHours();
+	const minutes = date.getUTCMinutes().toString().padStart(2, "0");
+	return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()} • ${
+		hours % 12 || 12
+	}:${minutes} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+function formatFare(amount: number): string {
+	return `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function toActivity(trip: FakeUberTrip, origin: string) {
+	return {
+		uuid: trip.uuid,
+		title: trip.pickup,
+		subtitle: formatSubtitle(trip.beginTripMs),
+		description: formatFare(trip.amount),
+		cardURL: `${origin}/trips/${trip.uuid}`,
+		imageURL: {
+			light: `${origin}/static/${trip.image}_light.png`,
+			dark: `${origin}/static/${trip.image}_dark.png`,
+		},
+		buttons: [],
+	};
+}
+
+/** Billing profile of the mock rider's trips, by activity profile type. */
+const MOCK_PROFILE_UUIDS = {
+	PERSONAL: "mock-personal",
+	BUSINESS: "mock-business",
+} as const;
+
+function toGetTrip(trip: FakeUberTrip, origin: string) {
+	return {
+		trip: {
+			beginTripTime: new Date(trip.beginTripMs).toISOString(),
+			dropoffTime: new Date(trip.dropoffMs).toISOString(),
+			cityID: 0,
+			countryID: 0,
+			driver: trip.driver,
+			fare: formatFare(trip.amount),
+			status: trip.status,
+			uuid: trip.uuid,
+			vehicleDisplayName: trip.vehicleDisplayName,
+			waypoints: [trip.pickup, trip.dropoff],
+			isRidepoolTrip: false,
+			marketplace: "personal_transport",
+			paymentProfileUUID: MOCK_PROFILE_UUIDS[trip.profileType],
+		},
+		mapURL: `${origin}/maps/${trip.uuid}.png`,
+		rating: "5",
+		receipt: {
+			carYear: "2022",
+			distance: trip.distanceKm.toFixed(2),
+			distanceLabel: "kilometres",
+			duration: `${trip.durationMinutes} min`,
+			vehicleType: trip.vehicleType,
+		},
+	};
+}
+
+/** Invoice files for a trip; autos and bikes only have a receipt. */
+function toInvoiceFiles(trip: FakeUberTrip, origin: string) {
+	if (trip.image !== "UberX") return { archiveURL: null, files: [] };
+	return {
+		archiveURL: `${origin}/invoices/${trip.uuid}.zip`,
+		files: Array.from({ length: trip.invoiceCount }, (_, i) => ({
+			downloadURL: `${origin}/invoices/${trip.uuid}/${i + 1}.pdf`,
+		})),
+	};
+}
+
+async function createReceiptPdf(
+	trip: FakeUberTrip,
+	part: number,
+	parts: number,
+): Promise<Uint8Array> {
+	const doc = await PDFDocument.create();
+	const page = doc.addPage([595, 842]);
+	const font = await doc.embedFont(StandardFonts.Helvetica);
+	const lines = [
+		parts > 1 ? `Mock invoice ${part} of ${parts}` : "Mock receipt",
+		`Trip ${trip.uuid}`,
+		new Date(trip.beginTripMs).toUTCString(),
+		`${trip.pickup} to ${trip.dropoff}`,
+		`${trip.vehicleDisplayName}, driven by ${trip.driver}`,
+		`Total INR ${trip.amount.toFixed(2)}`,
+	];
+	lines.forEach((line, i) => {
+		page.drawText(line, {
+			x: 50,
+			y: 780 - i * 22,
+			size: i === 0 ? 18 : 12,
+			font,
+		});
+	});
+	return doc.save();
+}
+
+function pdfResponse(bytes: Uint8Array, type = "application/pdf"): Response {
+	return new Response(new Blob([bytes as BlobPart], { type }));
+}
+
+/** A synthetic Rapido JWT for the mock customer; the app only decodes it. */
+export function createMockRapidoToken(): string {
+	const encode = (value: object) =>
+		Buffer.from(JSON.stringify(value)).toString("base64url");
+	return [
+		encode({ alg: "HS256", typ: "JWT" }),
+		encode({
+			_id: "0000000000000000000000aa",
+			firstName: "Mock",
+			lastName: "Rider",
+			email: "rider@example.com",
+			mobile: "0000000000",
+		}),
+		"mock-signature",
+	].join(".");
+}
+
+/**
+ * The mock server's request handler, for Bun.serve or tests.
+ */
+export function createMockProviderHandler(
+	overrides: Partial<MockServerOptions> = {},
+): (request: Request) => Promise<Response> {
+	const options = { ...DEFAULT_MOCK_OPTIONS, ...overrides };
+	const now = options.now ?? Date.now();
+	const trips = generateUberTrips({
+		seed: options.seed,
+		count: options.uberTrips,
+		now,
+	});
+	const orders = generateRapidoOrders({
+		seed: options.seed + 1,
+		count: options.rapidoOrders,
+		now,
+	});
+	const tripsById = new Map(trips.map((trip) => [trip.uuid, trip]));
+	const errorRandom = createRandom(options.seed + 2);
+
+	async function handleGraphQL(request: Request, origin: string) {
+		const body = (await request.json()) as {
+			operationName?: string;
+			variables?: Record<string, unknown>;
+		};
+		const variables = body.variables ?? {};
+
+		switch (body.operationName) {
+			case "CurrentUserRidersWeb":
+				return Response.json({
+					data: {
+						currentUser: {
+							firstName: "Mock",
+							lastName: "Rider",
+							email: "rider@example.com",
+							formattedNumber: "+91 00000 00000",
+							pictureUrl: "",
+							rating: "4.90",
+							uuid: "00000000-0000-4000-8000-0000000000aa",
+							tenancy: "uber/production",
+							signupCountry: "IN",
+							profiles: [
+								{
+									uuid: MOCK_PROFILE_UUIDS.PERSONAL,
+									type: "PERSONAL",
+									name: "Personal",
+								},
+								{
+									uuid: MOCK_PROFILE_UUIDS.BUSINESS,
+									type: "BUSINESS",
+									name: "Mock Corp",
+								},
+							],
+						},
+					},
+				});
+			case "Activities": {
+				const from = Number(variables.startTimeMs ?? 0);
+				const to = Number(variables.endTimeMs ?? Number.POSITIVE_INFINITY);
+				const matching = trips.filter(
+					(trip) =>
+						trip.profileType === (variables.profileType ?? "PERSONAL") &&
+						trip.beginTripMs >= from &&
+						trip.beginTripMs <= to,
+				);
+				const offset = Number(variables.nextPageToken ?? 0);
+				const limit = Number(variables.limit ?? 50);
+				const page = matching.slice(offset, offset + limit);
+				return Response.json({
+					data: {
+						activities: {
+							cityID: 0,
+							past: {
+								activities: page.map((trip) => toActivity(trip, origin)),
+								nextPageToken:
+									offset + limit < matching.length
+										? String(offset + limit)
+										: null,
+							},
+							upcoming: { activities: [] },
+						},
+					},
+				});
+			}
+			case "GetTrip":
+			case "GetInvoiceFiles": {
+				const trip = tripsById.get(String(variables.tripUUID));
+				if (!trip) {
+					return Response.json({
+						data: null,
+						errors: [{ message: `Trip ${variables.tripUUID} not found` }],
+					});
+				}
+				return Response.json({
+					data:
+						body.operationName === "GetTrip"
+							? { getTrip: toGetTrip(trip, origin) }
+							: { invoiceFiles: toInvoiceFiles(trip, origin) },
+				});
+			}
+			default:
+				return Response.json(
+					{ errors: [{ message: `Unknown operation ${body.operationName}` }] },
+					{ status: 400 },
+				);
+		}
+	}
+
+	async function handleOrders(request: Request) {
+		const body = (await request.json()) as { limit?: number; offset?: number };
+		const offset = body.offset ?? 0;
+		return Response.json({
+			data: {
+				data: {
+					orders: orders.slice(offset, offset + (body.limit ?? 50)),
+					meta: { totalCount: orders.length },
+				},
+			},
+		});
+	}
+
+	async function handleDownload(pathname: string) {
+		const receipt = pathname.match(/^\/trips\/([^/]+)\/receipt$/);
+		const invoice = pathname.match(/^\/invoices\/([^/]+)\/(\d+)\.pdf$/);
+		const archive = pathname.match(/^\/invoices\/([^/]+)\.zip$/);
+		const trip = tripsById.get((receipt ?? invoice ?? archive)?.[1] ?? "");
+		if (!trip) return new Response("Not found", { status: 404 });
+
+		if (receipt) return pdfResponse(await createReceiptPdf(trip, 1, 1));
+		if (invoice) {
+			const part = Number(invoice[2]);
+			if (part < 1 || part > trip.invoiceCount) {
+				return new Response("Not found", { status: 404 });
+			}
+			return pdfResponse(await createReceiptPdf(trip, part, trip.invoiceCount));
+		}
+		const files: Record<string, Uint8Array> = {};
+		for (let part = 1; part <= trip.invoiceCount; part++) {
+			files[`${part}.pdf`] = await createReceiptPdf(
+				trip,
+				part,
+				trip.invoiceCount,
+			);
+		}
+		return pdfResponse(zipSync(files), "application/zip");
+	}
+
+	return async (request) => {
+		if (options.delayMs > 0) await Bun.sleep(options.delayMs);
+		if (options.authExpired) {
+			return new Response("Unauthorized", { status: 401 });
+		}
+		if (errorRandom() < options.errorRate) {
+			const status =
+				INJECTED_STATUSES[Math.floor(errorRandom() * INJECTED_STATUSES.length)];
+			return new Response("Injected error", {
+				status,
+				headers: status === 429 ? { "retry-after": "1" } : undefined,
+			});
+		}
+
+		const { origin, pathname } = new URL(request.url);
+		if (request.method === "POST" && pathname === "/graphql") {
+			return handleGraphQL(request, origin);
+		}
+		if (request.method === "POST" && pathname === "/pwa/api/order") {
+			return handleOrders(request);
+		}
+		if (request.method === "GET") return handleDownload(pathname);
+		return new Response("Not found", { status: 404 });
+	};
+}
+
+if (import.meta.main) {
+	const { values } = parseArgs({
+		options: {
+			port: { type: "string", default: "4010" },
+			seed: { type: "string" },
+			"uber-trips": { type: "string" },
+			"rapido-orders": { type: "string" },
+			"error-rate": { type: "string" },
+			"auth-expired": { type: "boolean" },
+			delay: { type: "string" },
+		},
+	});
+	const number = (value: string | undefined, fallback: number) =>
+		value === undefined ? fallback : Number(value);
+
+	const server = Bun.serve({
+		port: Number(values.port),
+		fetch: createMockProviderHandler({
+			seed: number(values.seed, DEFAULT_MOCK_OPTIONS.seed),
+			uberTrips: number(values["uber-trips"], DEFAULT_MOCK_OPTIONS.uberTrips),
+			rapidoOrders: number(
+				values["rapido-orders"],
+				DEFAULT_MOCK_OPTIONS.rapidoOrders,
+			),
+			errorRate: number(values["error-rate"], DEFAULT_MOCK_OPTIONS.errorRate),
+			authExpired: values["auth-expired"] ?? false,
+			delayMs: number(values.delay, DEFAULT_MOCK_OPTIONS.delayMs),
+		}),
+	});
+	const origin = server.url.origin;
+	console.log(`Mock Uber and Rapido APIs listening on ${origin}
+
+Start the app against it with:
+  UBER_GRAPHQL_URL=${origin}/graphql RAPIDO_ORDER_URL=${origin}/pwa/api/order bun run dev
+
+Connect Uber with the cookie "sid=mock; csid=mock", and Rapido with this token:
+  ${createMockRapidoToken()}`);
+}
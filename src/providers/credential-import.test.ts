@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+	parseCapturedRequests,
+	parseCurl,
+	parseHar,
+	requestsTo,
+} from "./credential-import";
+import har from "./fixtures/uber-riders-har.json";
+
+describe("parseCurl", () => {
+	test("reads a bash command from Chrome", () => {
+		const request = parseCurl(`curl 'https://riders.uber.com/graphql' \\
+  -H 'accept: */*' \\
+  -H 'content-type: application/json' \\
+  -b 'sid=QA.test; csid=1.0' \\
+  -H 'x-csrf-token: x' \\
+  --data-raw '{"operationName":"Activities"}'`);
+		expect(request).toEqual({
+			url: "https://riders.uber.com/graphql",
+			method: "POST",
+			headers: {
+				accept: "*/*",
+				"content-type": "application/json",
+				cookie: "sid=QA.test; csid=1.0",
+				"x-csrf-token": "x",
+			},
+		});
+	});
+
+	test("reads $'…' quoting and double quotes", () => {
+		const request = parseCurl(
+			`curl "https://m.rapido.bike/pwa/api/order" -X POST -H $'authorization: Bearer a\\'b' -H "referer: https://m.rapido.bike/my-rides"`,
+		);
+		expect(request?.method).toBe("POST");
+		expect(request?.headers.authorization).toBe("Bearer a'b");
+		expect(request?.headers.referer).toBe("https://m.rapido.bike/my-rides");
+	});
+
+	test("reads a Windows cmd command", () => {
+		const request =
+			parseCurl(`curl ^"https://book.olacabs.com/data-api/history^" ^
+  -H ^"cookie: OSRN=abc^%3D; wasc=^\\^"q^\\^"^" ^
+  --compressed`);
+		expect(request).toEqual({
+			url: "https://book.olacabs.com/data-api/history",
+			method: "GET",
+			headers: { cookie: 'OSRN=abc%3D; wasc="q"' },
+		});
+	});
+
+	test("returns null for anything else", () => {
+		expect(parseCurl("cookie: sid=1")).toBeNull();
+		expect(parseCurl("curl --compressed")).toBeNull();
+	});
+});
+
+describe("parseHar", () => {
+	test("joins split HTTP/2 cookie headers and skips pseudo-headers", () => {
+		const requests = parseHar(JSON.stringify(har));
+		expect(requests?.map((r) => r.url)).toEqual([
+			"https://riders.uber.com/trips",
+			"https://d3i4yxtzktqr9n.cloudfront.net/web-riders/main.js",
+			"https://riders.uber.com/graphql",
+		]);
+		expect(requests?.[2].headers).toEqual({
+			"content-type": "application/json",
+			cookie: "sid=QA.test-session; csid=1.0000000000000.test",
+			"x-csrf-token": "test-csrf-token",
+		});
+	});
+
+	test("falls back to the parsed cookie list", () => {
+		const requests = parseHar(JSON.stringify(har));
+		expect(requests?.[0].headers.cookie).toBe(
+			"sid=QA.test-session; csid=1.0000000000000.test",
+		);
+		expect(requests?.[1].headers.cookie).toBeUndefined();
+	});
+
+	test("returns null for JSON that is not a HAR file", () => {
+		expect(parseHar('{"cookie":"sid=1"}')).toBeNull();
+		expect(parseHar("{")).toBeNull();
+	});
+
+	test("skips header and cookie lists that are not arrays", () => {
+		const requests = parseHar(
+			JSON.stringify({
+				log: {
+					entries: [
+						{
+							request: {
+								url: "https://riders.uber.com/trips",
+								headers: { cookie: "sid=1" },
+								cookies: "sid=1",
+							},
+						},
+						{
+							request: {
+								url: "https://riders.uber.com/graphql",
+								headers: [null, { name: "cookie", value: "sid=2" }],
+							},
+						},
+					],
+				},
+			}),
+		);
+		expect(requests?.map((r) => r.headers)).toEqual([{}, { cookie: "sid=2" }]);
+	});
+});
+
+describe("parseCapturedRequests", () => {
+	test("tells HAR files and cURL commands apart", () => {
+		expect(parseCapturedRequests(JSON.stringify(har))).toHaveLength(3);
+		expect(
+			parseCapturedRequests("  curl https://riders.uber.com/trips\n"),
+		).toHaveLength(1);
+		expect(parseCapturedRequests("sid=1; csid=2")).toBeNull();
+	});
+});
+
+describe("requestsTo", () => {
+	test("matches the host and its subdomains only", () => {
+		const requests = [
+			"https://uber.com/a",
+			"https://riders.uber.com/b",
+			"https://notuber.com/c",
+			"not a url",
+		].map((url) => ({ url, method: "GET", headers: {} }));
+		expect(requestsTo(requests, "uber.com").map((r) => r.url)).toEqual([
+			"https://uber.com/a",
+			"https://riders.uber.com/b",
+		]);
+	});
+});
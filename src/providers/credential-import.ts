@@ -0,0 +1,284 @@
+/**
+ * Reading credentials out of what DevTools gives you: a HAR export of the
+ * Network tab, or a request copied with "Copy as cURL". Both are reduced to
+ * plain requests here; each provider then picks its own headers out of them.
+ */
+
+/** One captured request. Header names are lowercase. */
+export interface CapturedRequest {
+	url: string;
+	method: string;
+	headers: Record<string, string>;
+}
+
+/** Auth field values found in the requests, or why none were. */
+export type CredentialImport =
+	| { values: Record<string, string> }
+	| { error: string };
+
+/** Chrome leaves cookies and tokens out of HAR exports by default. */
+export const SANITIZED_HAR_HINT =
+	'HAR files only include cookies and tokens when exported with "Export HAR (with sensitive data)".';
+
+/** cURL options that take a value; everything else is a bare flag. */
+const CURL_OPTIONS_WITH_VALUE = new Set([
+	"-H",
+	"--header",
+	"-b",
+	"--cookie",
+	"-X",
+	"--request",
+	"-d",
+	"--data",
+	"--data-raw",
+	"--data-binary",
+	"--data-urlencode",
+	"--url",
+	"-A",
+	"--user-agent",
+	"-e",
+	"--referer",
+	"-u",
+	"--user",
+	"-o",
+	"--output",
+]);
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	"\\": "\\",
+	"'": "'",
+	'"': '"',
+};
+
+/** Add a header, joining repeats (HTTP/2 sends one cookie header per cookie). */
+function addHeader(
+	headers: Record<string, string>,
+	name: string,
+	value: string,
+): void {
+	const key = name.trim().toLowerCase();
+	if (!key || key.startsWith(":")) return;
+	const existing = headers[key];
+	headers[key] =
+		existing === undefined
+			? value
+			: `${existing}${key === "cookie" ? "; " : ", "}${value}`;
+}
+
+/**
+ * Split a shell command into words the way bash would for the quoting
+ * "Copy as cURL" produces: '…', "…", $'…' and backslash escapes.
+ */
+function splitShellWords(command: string): string[] {
+	const words: string[] = [];
+	let word = "";
+	let inWord = false;
+	let i = 0;
+	while (i < command.length) {
+		const c = command[i];
+		if (/\s/.test(c)) {
+			if (inWord) words.push(word);
+			word = "";
+			inWord = false;
+			i++;
+			continue;
+		}
+		inWord = true;
+		if (c === "'") {
+			const end = command.indexOf("'", i + 1);
+			const stop = end === -1 ? command.length : end;
+			word += command.slice(i + 1, stop);
+			i = stop + 1;
+		} else if (c === "$" && command[i + 1] === "'") {
+			i += 2;
+			while (i < command.length && command[i] !== "'") {
+				if (command[i] === "\\" && i + 1 < command.length) {
+					const next = command[i + 1];
+					const hex =
+						next === "x"
+							? command.slice(i + 2, i + 4)
+							: next === "u"
+								? command.slice(i + 2, i + 6)
+								: "";
+					if (hex && /^[0-9a-f]+$/i.test(hex)) {
+						word += String.fromCharCode(Number.parseInt(hex, 16));
+						i += 2 + hex.length;
+					} else {
+						word += ANSI_C_ESCAPES[next] ?? `\\${next}`;
+						i += 2;
+					}
+				} else {
+					word += command[i++];
+				}
+			}
+			i++;
+		} else if (c === '"') {
+			i++;
+			while (i < command.length && command[i] !== '"') {
+				if (command[i] === "\\" && '"\\$`'.includes(command[i + 1] ?? "")) {
+					word += command[i + 1];
+					i += 2;
+				} else {
+					word += command[i++];
+				}
+			}
+			i++;
+		} else if (c === "\\") {
+			word += command[i + 1] ?? "";
+			i += 2;
+		} else {
+			word += c;
+			i++;
+		}
+	}
+	if (inWord) words.push(word);
+	return words;
+}
+
+/**
+ * Parse a "Copy as cURL" command, bash or Windows cmd flavour. Returns null
+ * when the text is not a curl command.
+ */
+export function parseCurl(text: string): CapturedRequest | null {
+	let command = text.trim();
+	if (command.includes('^"')) {
+		// cmd: ^ escapes the next character and ends continued lines
+		command = command.replace(/\^\r?\n/g, " ").replace(/\^(.)/g, "$1");
+	}
+	command = command.replace(/\\\r?\n/g, " ");
+
+	const [program, ...args] = splitShellWords(command);
+	if (!program || !/^curl(\.exe)?$/i.test(program)) return null;
+
+	const request: CapturedRequest = { url: "", method: "", headers: {} };
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (!arg.startsWith("-")) {
+			request.url ||= arg;
+			continue;
+		}
+		if (!CURL_OPTIONS_WITH_VALUE.has(arg)) continue;
+		const value = args[++i] ?? "";
+		switch (arg) {
+			case "-H":
+			case "--header": {
+				const colon = value.indexOf(":");
+				if (colon > 0) {
+					addHeader(
+						request.headers,
+						value.slice(0, colon),
+						value.slice(colon + 1).trim(),
+					);
+				}
+				break;
+			}
+			case "-b":
+			case "--cookie":
+				if (value.includes("=")) addHeader(request.headers, "cookie", value);
+				break;
+			case "-X":
+			case "--request":
+				request.method = value.toUpperCase();
+				break;
+			case "--url":
+				request.url = value;
+				break;
+			case "-A":
+			case "--user-agent":
+				addHeader(request.headers, "user-agent", value);
+				break;
+			case "-e":
+			case "--referer":
+				addHeader(request.headers, "referer", value);
+				break;
+			default:
+				if (arg.startsWith("-d") || arg.startsWith("--data")) {
+					request.method ||= "POST";
+				}
+		}
+	}
+	request.method ||= "GET";
+	return request.url ? request : null;
+}
+
+interface HarRequest {
+	url?: unknown;
+	method?: unknown;
+	headers?: unknown;
+	cookies?: unknown;
+}
+
+type HarNameValue = { name?: unknown; value?: unknown } | null;
+
+/** The name/value pairs of a HAR list, skipping anything malformed. */
+function harPairs(list: unknown): { name: string; value: string }[] {
+	if (!Array.isArray(list)) return [];
+	return list.flatMap((item: HarNameValue) =>
+		typeof item?.name === "string" && typeof item.value === "string"
+			? [{ name: item.name, value: item.value }]
+			: [],
+	);
+}
+
+/**
+ * Every request in a HAR export, in capture order. Returns null when the
+ * text is not a HAR file.
+ */
+export function parseHar(text: string): CapturedRequest[] | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	const entries = (parsed as { log?: { entries?: unknown } } | null)?.log
+		?.entries;
+	if (!Array.isArray(entries)) return null;
+
+	return entries.flatMap((entry): CapturedRequest[] => {
+		const request = (entry as { request?: HarRequest } | null)?.request;
+		if (!request || typeof request.url !== "string") return [];
+		const headers: Record<string, string> = {};
+		for (const header of harPairs(request.headers)) {
+			addHeader(headers, header.name, header.value);
+		}
+		// Some exports keep cookies only in the parsed list
+		const cookies = harPairs(request.cookies);
+		if (!headers.cookie && cookies.length > 0) {
+			headers.cookie = cookies.map((c) => `${c.name}=${c.value}`).join("; ");
+		}
+		return [
+			{
+				url: request.url,
+				method: typeof request.method === "string" ? request.method : "GET",
+				headers,
+			},
+		];
+	});
+}
+
+/** Requests in a pasted cURL command or HAR file, or null if it is neither. */
+export function parseCapturedRequests(text: string): CapturedRequest[] | null {
+	const trimmed = text.trim();
+	if (trimmed.startsWith("{")) return parseHar(trimmed);
+	const request = parseCurl(trimmed);
+	return request ? [request] : null;
+}
+
+/** Requests sent to a host or any of its subdomains, in capture order. */
+export function requestsTo(
+	requests: CapturedRequest[],
+	host: string,
+): CapturedRequest[] {
+	return requests.filter((request) => {
+		try {
+			const { hostname } = new URL(request.url);
+			return hostname === host || hostname.endsWith(`.${host}`);
+		} catch {
+			return false;
+		}
+	});
+}
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { importOlaCredentials } from "./ola-credential-import";
+
+describe("importOlaCredentials", () => {
+	test("takes the cookie of the latest olacabs.com request", () => {
+		const result = importOlaCredentials([
+			{
+				url: "https://book.olacabs.com/data-api/history",
+				method: "GET",
+				headers: { cookie: "OSRN=test" },
+			},
+			{
+				url: "https://book.olacabs.com/static/app.js",
+				method: "GET",
+				headers: {},
+			},
+		]);
+		expect(result).toEqual({ values: { cookie: "OSRN=test" } });
+	});
+
+	test("reports captures with no Ola requests", () => {
+		const result = importOlaCredentials([
+			{ url: "https://riders.uber.com/graphql", method: "POST", headers: {} },
+		]);
+		expect("error" in result && result.error).toContain("No Ola requests");
+	});
+});
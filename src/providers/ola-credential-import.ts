@@ -0,0 +1,32 @@
+import {
+	type CapturedRequest,
+	type CredentialImport,
+	requestsTo,
+	SANITIZED_HAR_HINT,
+} from "./credential-import";
+
+/**
+ * Ola auth field values from captured olacabs.com requests: the cookie
+ * header of the latest request that sends one, such as the ride history.
+ */
+export function importOlaCredentials(
+	requests: CapturedRequest[],
+): CredentialImport {
+	const olaRequests = requestsTo(requests, "olacabs.com");
+	if (olaRequests.length === 0) {
+		return {
+			error:
+				'No Ola requests found. Copy the history request from book.olacabs.com "Your Rides".',
+		};
+	}
+	const cookie = olaRequests
+		.map((r) => r.headers.cookie ?? "")
+		.filter(Boolean)
+		.at(-1);
+	if (!cookie) {
+		return {
+			error: `The Ola requests have no cookie header. ${SANITIZED_HAR_HINT}`,
+		};
+	}
+	return { values: { cookie } };
+}
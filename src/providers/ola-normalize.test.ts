@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import page1 from "./fixtures/ola-booking-history-page-1.json";
+import page2 from "./fixtures/ola-booking-history-page-2.json";
+import profile from "./fixtures/ola-profile.json";
+import {
+	isOlaPageOlderThanRangeStart,
+	normalizeOlaBooking,
+	normalizeOlaProfile,
+	type OlaBooking,
+	type OlaBookingHistoryPage,
+} from "./ola-normalize";
+import { filterRidesByDateRange } from "./ride-filters";
+
+// Recorded booking-history pages with PII replaced by synthetic values.
+const pages = [page1, page2] as OlaBookingHistoryPage[];
+const bookings: OlaBooking[] = pages.flatMap((p) => p.response?.bookings ?? []);
+
+describe("normalizeOlaProfile", () => {
+	test("maps a successful profile response to a ProviderUser", () => {
+		expect(normalizeOlaProfile(profile)).toEqual({
+			firstName: "Test",
+			lastName: "User",
+			email: "test@example.com",
+		});
+	});
+
+	test("returns null for a failed or empty response", () => {
+		expect(normalizeOlaProfile({ status: "FAILURE" })).toBeNull();
+		expect(normalizeOlaProfile({ status: "SUCCESS", response: {} })).toBeNull();
+	});
+});
+
+describe("normalizeOlaBooking", () => {
+	test("maps a completed booking to a NormalizedRide", () => {
+		expect(normalizeOlaBooking(bookings[0])).toEqual({
+			rideId: "CRN0000000001",
+			startTime: new Date(1778232081797).toISOString(),
+			endTime: new Date(1778233936936).toISOString(),
+			startLocation: "1 Pickup Road, Example City",
+			endLocation: "2 Dropoff Road, Example City",
+			totalAmount: 245.5,
+			currency: "INR",
+			driverName: "Driver One",
+			vehicleType: "Mini",
+			status: "COMPLETED",
+			mapUrl: "",
+			isAutoRide: false,
+			provider: "ola",
+		});
+	});
+
+	test("maps a cancelled booking with null fare/driver to CANCELLED", () => {
+		const ride = normalizeOlaBooking(bookings[1]);
+		expect(ride.status).toBe("CANCELLED");
+		expect(ride.totalAmount).toBe(0);
+		expect(ride.driverName).toBe("");
+		expect(ride.endTime).toBe("");
+	});
+
+	test("normalizes every booking across recorded pages", () => {
+		expect(bookings.map(normalizeOlaBooking).map((r) => r.rideId)).toEqual([
+			"CRN0000000001",
+			"CRN0000000002",
+			"CRN0000000003",
+		]);
+	});
+});
+
+describe("isOlaPageOlderThanRangeStart", () => {
+	test("true when the oldest booking in the page predates the range start", () => {
+		// page 1 oldest = 2026-05-06; start = 2026-05-07
+		expect(
+			isOlaPageOlderThanRangeStart(
+				pages[0].response?.bookings ?? [],
+				new Date("2026-05-07T00:00:00Z").getTime(),
+			),
+		).toBe(true);
+	});
+
+	test("false when no range start is given or the page is empty", () => {
+		expect(isOlaPageOlderThanRangeStart(bookings, undefined)).toBe(false);
+		expect(isOlaPageOlderThanRangeStart([], 123)).toBe(false);
+	});
+});
+
+describe("filterRidesByDateRange on Ola rides", () => {
+	test("keeps only bookings within the selected days", () => {
+		const rides = bookings.map(normalizeOlaBooking);
+		const result = filterRidesByDateRange(rides, {
+			from: new Date("2026-05-07T00:00:00Z"),
+			to: new Date("2026-05-09T00:00:00Z"),
+		});
+		expect(result.map((r) => r.rideId)).toEqual(["CRN0000000001"]);
+	});
+});
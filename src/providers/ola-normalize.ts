@@ -0,0 +1,90 @@
+import type { NormalizedRide, ProviderUser } from "./types";
+
+/**
+ * Subset of an Ola booking (from GET /pwa-services/booking/history) that we
+ * consume. Timestamps are epoch milliseconds; the real payload carries many
+ * more fields that are not needed here.
+ */
+export interface OlaBooking {
+	booking_id: string;
+	pickup_time: number;
+	drop_time?: number | null;
+	pickup_address?: string;
+	drop_address?: string;
+	category_name?: string;
+	/** e.g. "COMPLETED", "CANCELLED", "BOOKING_CANCELLED_BY_CUSTOMER". */
+	status: string;
+	fare?: { total_amount?: number; currency_code?: string } | null;
+	driver?: { name?: string } | null;
+}
+
+/** One page of the booking history response. */
+export interface OlaBookingHistoryPage {
+	status: string;
+	response?: {
+		bookings?: OlaBooking[];
+		has_more?: boolean;
+	};
+}
+
+/** Profile payload from GET /pwa-services/user/profile. */
+export interface OlaProfileResponse {
+	status: string;
+	response?: {
+		user_id?: string;
+		first_name?: string;
+		last_name?: string;
+		email?: string;
+	};
+}
+
+/**
+ * Map Ola's profile payload onto ProviderUser. Returns null when the response
+ * is not a successful profile (e.g. an expired session).
+ */
+export function normalizeOlaProfile(
+	body: OlaProfileResponse,
+): ProviderUser | null {
+	if (body.status !== "SUCCESS" || !body.response?.user_id) return null;
+	return {
+		firstName: body.response.first_name || "",
+		lastName: body.response.last_name || "",
+		email: body.response.email || "",
+	};
+}
+
+/**
+ * Normalize a single Ola booking into the canonical NormalizedRide shape.
+ */
+export function normalizeOlaBooking(booking: OlaBooking): NormalizedRide {
+	return {
+		rideId: booking.booking_id,
+		startTime: new Date(booking.pickup_time).toISOString(),
+		endTime: booking.drop_time ? new Date(booking.drop_time).toISOString() : "",
+		startLocation: booking.pickup_address || "",
+		endLocation: booking.drop_address || "",
+		totalAmount: booking.fare?.total_amount ?? 0,
+		currency: booking.fare?.currency_code || "INR",
+		driverName: booking.driver?.name || "",
+		vehicleType: booking.category_name || "",
+		status: booking.status === "COMPLETED" ? "COMPLETED" : "CANCELLED",
+		mapUrl: "",
+		isAutoRide: false,
+		provider: "ola",
+	};
+}
+
+/**
+ * Whether the oldest booking in a (newest-first) page predates the range
+ * start, signalling that pagination can stop. Returns false when there is no
+ * start bound or the page is empty.
+ */
+export function isOlaPageOlderThanRangeStart(
+	bookings: OlaBooking[],
+	fromMs: number | undefined,
+): boolean {
+	if (fromMs === undefined) return false;
+	if (bookings.length === 0) return false;
+	const oldest = bookings[bookings.length - 1];
+	return oldest.pickup_time < fromMs;
+}
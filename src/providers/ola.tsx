@@ -0,0 +1,109 @@
+import { CarTaxiFront } from "lucide-react";
+import {
+	fetchOlaRides,
+	fetchOlaUser,
+	type OlaAuthCredentials,
+} from "@/server/ola-api";
+import type { DateRange } from "@/types/rides";
+import { importOlaCredentials } from "./ola-credential-import";
+import type {
+	ConnectResult,
+	FetchRidesResult,
+	ProviderDescriptor,
+} from "./types";
+
+const instructions = (
+	<>
+		<strong>How to get your Ola cookies:</strong>
+		<ol className="mt-2 ml-4 list-decimal space-y-1 text-sm">
+			<li>
+				Open{" "}
+				<a
+					href="https://book.olacabs.com"
+					target="_blank"
+					rel="noopener noreferrer"
+					className="underline text-primary"
+				>
+					book.olacabs.com
+				</a>{" "}
+				and log in
+			</li>
+			<li>Open Developer Tools (F12 or Cmd+Option+I)</li>
+			<li>Go to the Network tab</li>
+			<li>Open "Your Rides" from the menu</li>
+			<li>
+				Click the <code>history</code> request and copy the value of the{" "}
+				<code>cookie</code> request header
+			</li>
+		</ol>
+		<p className="mt-3 text-xs text-muted-foreground">
+			Note: Ola emails invoices separately, so only summary and CSV exports are
+			available — individual receipt PDFs are not supported.
+		</p>
+	</>
+);
+
+export const olaProvider: ProviderDescriptor = {
+	id: "ola",
+	name: "Ola",
+	icon: CarTaxiFront,
+	authStorageKey: "ola_auth",
+	capabilities: {
+		receiptPdf: false,
+		serverDateFilter: false,
+	},
+	auth: {
+		instructions,
+		importCredentials: importOlaCredentials,
+		fields: [
+			{
+				key: "cookie",
+				label: "Cookie Header",
+				placeholder: "Paste your Ola cookie header value here...",
+				type: "textarea",
+			},
+		],
+	},
+
+	async connect(input): Promise<ConnectResult> {
+		const cookie = input.cookie?.trim();
+		if (!cookie) {
+			return { error: "Cookie is required" };
+		}
+		const auth: OlaAuthCredentials = { cookie };
+		const result = await fetchOlaUser({ data: { auth } });
+		if (result.error || !result.user) {
+			return {
+				error: result.error || "Failed to authenticate.",
+				status: result.status,
+			};
+		}
+		return { auth, user: result.user };
+	},
+
+	async restoreUser(auth) {
+		const credentials = auth as OlaAuthCredentials;
+		const result = await fetchOlaUser({ data: { auth: credentials } });
+		if (result.error || !result.user) {
+			return {
+				error: result.error || "Session expired.",
+				status: result.status,
+			};
+		}
+		return { user: result.user };
+	},
+
+	async fetchRides(auth, range: DateRange): Promise<FetchRidesResult> {
+		const credentials = auth as OlaAuthCredentials;
+		const fromMs = range.from ? new Date(range.from).getTime() : undefined;
+		const toMs = range.to ? new Date(range.to).getTime() : undefined;
+
+		const result = await fetchOlaRides({
+			data: { auth: credentials, fromMs, toMs },
+		});
+		return {
+			rides: result.rides,
+			errors: result.error ? [result.error] : [],
+		};
+	},
+};
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import {
+	dedupeProviderErrors,
+	describeProviderError,
+	getProviderErrorAction,
+	getRootProviderError,
+	type ProviderError,
+	partialData,
+} from "./provider-errors";
+
+const expired: ProviderError = {
+	kind: "auth-expired",
+	message: "Uber API error: 401 Unauthorized",
+	status: 401,
+};
+const changed: ProviderError = {
+	kind: "schema-changed",
+	message: "Unexpected token <",
+};
+const offline: ProviderError = { kind: "network", message: "fetch failed" };
+
+describe("describeProviderError", () => {
+	test("names the provider and what to do", () => {
+		expect(describeProviderError(expired, "Uber")).toBe(
+			"Uber session expired — reconnect",
+		);
+		expect(describeProviderError(offline, "Ola")).toBe(
+			"Could not reach Ola — check your connection and try again",
+		);
+	});
+
+	test("explains partial data by its cause", () => {
+		expect(
+			describeProviderError(
+				partialData("Stopped after 20 orders", expired),
+				"Rapido",
+			),
+		).toBe(
+			"Some Rapido data could not be loaded — the session expired, reconnect",
+		);
+	});
+});
+
+describe("getProviderErrorAction", () => {
+	test("offers reconnect for expired sessions, even behind partial data", () => {
+		expect(getProviderErrorAction(expired)).toBe("reconnect");
+		expect(getProviderErrorAction(partialData("Stopped", expired))).toBe(
+			"reconnect",
+		);
+	});
+
+	test("offers retry for transient errors only", () => {
+		expect(getProviderErrorAction(offline)).toBe("retry");
+		expect(getProviderErrorAction({ kind: "rate-limited", message: "" })).toBe(
+			"retry",
+		);
+		expect(getProviderErrorAction(changed)).toBeNull();
+		expect(getProviderErrorAction(partialData("Stopped", changed))).toBe(
+			"retry",
+		);
+	});
+});
+
+describe("getRootProviderError", () => {
+	test("unwraps nested partial data", () => {
+		const nested = partialData("outer", partialData("inner", offline));
+		expect(getRootProviderError(nested)).toBe(offline);
+		expect(getRootProviderError(partialData("no cause")).kind).toBe(
+			"partial-data",
+		);
+	});
+});
+
+describe("dedupeProviderErrors", () => {
+	test("keeps the first of each kind and message", () => {
+		expect(
+			dedupeProviderErrors([
+				offline,
+				expired,
+				{ ...offline },
+				{ kind: "network", message: "timed out" },
+			]),
+		).toEqual([offline, expired, { kind: "network", message: "timed out" }]);
+	});
+});
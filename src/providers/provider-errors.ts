@@ -0,0 +1,101 @@
+/**
+ * What went wrong talking to a provider, as returned by fetchRides() and
+ * fetchReceiptPdfs(). `message` carries the technical detail; the dashboard
+ * words the banner itself from `kind`.
+ */
+export type ProviderError =
+	/** The stored session or token no longer works; the user must reconnect. */
+	| { kind: "auth-expired"; message: string; status?: number }
+	/** The provider is throttling requests; trying later should work. */
+	| { kind: "rate-limited"; message: string }
+	/** The provider could not be reached, timed out or had a server error. */
+	| { kind: "network"; message: string }
+	/** The provider answered with something this app does not understand. */
+	| { kind: "schema-changed"; message: string }
+	/** Some data loaded before another error stopped the rest. */
+	| { kind: "partial-data"; message: string; cause?: ProviderError };
+
+export type ProviderErrorKind = ProviderError["kind"];
+
+/** What the user can do about an error. */
+export type ProviderErrorAction = "reconnect" | "retry" | null;
+
+/**
+ * Wrap the error that stopped a fetch once some data had already loaded.
+ */
+export function partialData(
+	message: string,
+	cause?: ProviderError,
+): ProviderError {
+	return { kind: "partial-data", message, cause };
+}
+
+/** The error behind a partial-data error, or the error itself. */
+export function getRootProviderError(error: ProviderError): ProviderError {
+	return error.kind === "partial-data" && error.cause
+		? getRootProviderError(error.cause)
+		: error;
+}
+
+/**
+ * Reconnecting fixes an expired session, and trying again may fix anything
+ * transient. A changed response format needs an app update instead.
+ */
+export function getProviderErrorAction(
+	error: ProviderError,
+): ProviderErrorAction {
+	switch (getRootProviderError(error).kind) {
+		case "auth-expired":
+			return "reconnect";
+		case "schema-changed":
+			return error.kind === "partial-data" ? "retry" : null;
+		default:
+			return "retry";
+	}
+}
+
+/** Why part of the data is missing, after "Some <Provider> data could not be loaded — ". */
+const PARTIAL_CAUSES: Record<ProviderErrorKind, string> = {
+	"auth-expired": "the session expired, reconnect",
+	"rate-limited": "requests were rate limited, try again later",
+	network: "the connection failed, try again",
+	"schema-changed": "a response was not understood",
+	"partial-data": "try again",
+};
+
+/**
+ * Banner headline for an error from `providerName`, e.g.
+ * "Uber session expired — reconnect".
+ */
+export function describeProviderError(
+	error: ProviderError,
+	providerName: string,
+): string {
+	switch (error.kind) {
+		case "auth-expired":
+			return `${providerName} session expired — reconnect`;
+		case "rate-limited":
+			return `${providerName} is limiting requests — try again in a few minutes`;
+		case "network":
+			return `Could not reach ${providerName} — check your connection and try again`;
+		case "schema-changed":
+			return `${providerName} sent a response this app does not understand`;
+		case "partial-data":
+			return `Some ${providerName} data could not be loaded — ${
+				PARTIAL_CAUSES[getRootProviderError(error).kind]
+			}`;
+	}
+}
+
+/**
+ * Drop repeats (same kind and message), keeping the first of each.
+ */
+export function dedupeProviderErrors(errors: ProviderError[]): ProviderError[] {
+	const seen = new Set<string>();
+	return errors.filter((error) => {
+		const key = `${error.kind}:${error.message}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
@@ -0,0 +1,33 @@
+import {
+	type CapturedRequest,
+	type CredentialImport,
+	requestsTo,
+	SANITIZED_HAR_HINT,
+} from "./credential-import";
+import { stripBearerPrefix } from "./rapido-normalize";
+
+/**
+ * Rapido auth field values from captured rapido.bike requests: the Bearer
+ * token of the latest request that sends one, such as /pwa/api/order.
+ */
+export function importRapidoCredentials(
+	requests: CapturedRequest[],
+): CredentialImport {
+	const rapidoRequests = requestsTo(requests, "rapido.bike");
+	if (rapidoRequests.length === 0) {
+		return {
+			error:
+				"No Rapido requests found. Copy the order request from m.rapido.bike/my-rides.",
+		};
+	}
+	const authorization = rapidoRequests
+		.map((r) => r.headers.authorization ?? "")
+		.filter((value) => /^Bearer\s+\S/i.test(value))
+		.at(-1);
+	if (!authorization) {
+		return {
+			error: `The Rapido requests have no Bearer authorization header. ${SANITIZED_HAR_HINT}`,
+		};
+	}
+	return { values: { token: stripBearerPrefix(authorization) } };
+}
@@ -106,6 +106,17 @@ describe("normalizeRapidoOrder", () => {
 		expect(ride.status).toBe("CANCELLED");
 		expect(ride.totalAmount).toBe(0);
 	});
+
+	test("carries distance and duration when the order has them", () => {
+		const ride = normalizeRapidoOrder({
+			...droppedRide,
+			distance: 4.2,
+			duration: 18,
+		});
+		expect(ride.distanceKm).toBe(4.2);
+		expect(ride.durationMinutes).toBe(18);
+		expect(normalizeRapidoOrder(cancelled).distanceKm).toBeUndefined();
+	});
 });
 
 describe("filterRidesByDateRange", () => {
@@ -1,6 +1,7 @@
-import type { DateRange } from "@/types/rides";
 import type { NormalizedRide } from "./types";
 
+export { filterRidesByDateRange } from "./ride-filters";
+
 /**
  * Subset of a Rapido order (from POST /pwa/api/order) that we consume.
  * The real payload has many more fields; only these are needed.
@@ -16,6 +17,10 @@ export interface RapidoOrder {
 	pickupLocation: { address: string };
 	dropLocation: { address: string };
 	rider: { name: string };
+	/** Trip distance in km; only present on some orders. */
+	distance?: number;
+	/** Trip duration in minutes; only present on some orders. */
+	duration?: number;
 }
 
 /** Decoded fields we care about from the Rapido JWT payload. */
@@ -82,6 +87,10 @@ export function decodeRapidoToken(token: string): DecodedRapidoToken | null {
 	};
 }
 
+function positiveOrUndefined(value: number | undefined): number | undefined {
+	return typeof value === "number" && value > 0 ? value : undefined;
+}
+
 /**
  * Normalize a single Rapido order into the canonical NormalizedRide shape.
  */
@@ -101,29 +110,12 @@ export function normalizeRapidoOrder(order: RapidoOrder): NormalizedRide {
 		status: order.status === "dropped" ? "COMPLETED" : "CANCELLED",
 		mapUrl: "",
 		isAutoRide: false,
+		distanceKm: positiveOrUndefined(order.distance),
+		durationMinutes: positiveOrUndefined(order.duration),
 		provider: "rapido",
 	};
 }
 
-/**
- * Filter normalized rides to those whose startTime falls within the range.
- * `to` is treated as end-of-day so the whole selected day is included.
- */
-export function filterRidesByDateRange(
-	rides: NormalizedRide[],
-	range: DateRange,
-): NormalizedRide[] {
-	const fromMs = range.from ? startOfDayMs(range.from) : undefined;
-	const toMs = range.to ? endOfDayMs(range.to) : undefined;
-
-	return rides.filter((ride) => {
-		const t = new Date(ride.startTime).getTime();
-		if (fromMs !== undefined && t < fromMs) return false;
-		if (toMs !== undefined && t > toMs) return false;
-		return true;
-	});
-}
-
 /**
  * Whether the oldest order in a (newest-first) page predates the range start,
  * signalling that pagination can stop. Returns false when there is no start
@@ -138,15 +130,3 @@ export function isPageOlderThanRangeStart(
 	const oldest = orders[orders.length - 1];
 	return oldest.createdOn < fromMs;
 }
-
-function startOfDayMs(date: Date): number {
-	const d = new Date(date);
-	d.setHours(0, 0, 0, 0);
-	return d.getTime();
-}
-
-function endOfDayMs(date: Date): number {
-	const d = new Date(date);
-	d.setHours(23, 59, 59, 999);
-	return d.getTime();
-}
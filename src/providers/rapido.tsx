@@ -6,9 +6,10 @@ import {
 	type RapidoAuthCredentials,
 } from "@/server/rapido-api";
 import type { DateRange } from "@/types/rides";
+import { importRapidoCredentials } from "./rapido-credential-import";
 import type {
 	ConnectResult,
-	NormalizedRide,
+	FetchRidesResult,
 	ProviderDescriptor,
 } from "./types";
 
@@ -55,6 +56,7 @@ export const rapidoProvider: ProviderDescriptor = {
 	},
 	auth: {
 		instructions,
+		importCredentials: importRapidoCredentials,
 		fields: [
 			{
 				key: "token",
@@ -87,7 +89,7 @@ export const rapidoProvider: ProviderDescriptor = {
 		return { user: result.user };
 	},
 
-	async fetchRides(auth, range: DateRange): Promise<NormalizedRide[]> {
+	async fetchRides(auth, range: DateRange): Promise<FetchRidesResult> {
 		const credentials = auth as RapidoAuthCredentials;
 		const fromMs = range.from ? new Date(range.from).getTime() : undefined;
 		const toMs = range.to ? new Date(range.to).getTime() : undefined;
@@ -95,9 +97,9 @@ export const rapidoProvider: ProviderDescriptor = {
 		const result = await fetchRapidoOrders({
 			data: { auth: credentials, fromMs, toMs },
 		});
-		if (result.error) {
-			console.error("Failed to fetch Rapido rides:", result.error);
-		}
-		return result.rides;
+		return {
+			rides: result.rides,
+			errors: result.error ? [result.error] : [],
+		};
 	},
 };
@@ -1,5 +1,10 @@
+import { olaProvider } from "./ola";
 import { rapidoProvider } from "./rapido";
-import type { ProviderDescriptor, ProviderId } from "./types";
+import type {
+	ProviderDescriptor,
+	ProviderId,
+	ProviderSelection,
+} from "./types";
 import { uberProvider } from "./uber";
 
 /**
@@ -9,16 +14,21 @@ import { uberProvider } from "./uber";
 export const PROVIDERS: Record<ProviderId, ProviderDescriptor> = {
 	uber: uberProvider,
 	rapido: rapidoProvider,
+	ola: olaProvider,
 };
 
 /** Providers in display order for the switcher. */
 export const PROVIDER_LIST: ProviderDescriptor[] = [
 	uberProvider,
 	rapidoProvider,
+	olaProvider,
 ];
 
 export const DEFAULT_PROVIDER_ID: ProviderId = "uber";
 
+/** Selection value for the aggregated "All providers" view. */
+export const ALL_PROVIDERS = "all" satisfies ProviderSelection;
+
 const SELECTED_PROVIDER_KEY = "selected_provider";
 
 export function getProvider(id: ProviderId): ProviderDescriptor {
@@ -26,16 +36,22 @@ export function getProvider(id: ProviderId): ProviderDescriptor {
 }
 
 export function isProviderId(value: string | null): value is ProviderId {
-	return value === "uber" || value === "rapido";
+	return value === "uber" || value === "rapido" || value === "ola";
+}
+
+export function isProviderSelection(
+	value: string | null,
+): value is ProviderSelection {
+	return value === ALL_PROVIDERS || isProviderId(value);
 }
 
-export function loadSelectedProviderId(): ProviderId {
+export function loadSelectedProviderId(): ProviderSelection {
 	if (typeof window === "undefined") return DEFAULT_PROVIDER_ID;
 	const stored = localStorage.getItem(SELECTED_PROVIDER_KEY);
-	return isProviderId(stored) ? stored : DEFAULT_PROVIDER_ID;
+	return isProviderSelection(stored) ? stored : DEFAULT_PROVIDER_ID;
 }
 
-export function saveSelectedProviderId(id: ProviderId): void {
+export function saveSelectedProviderId(id: ProviderSelection): void {
 	if (typeof window === "undefined") return;
 	localStorage.setItem(SELECTED_PROVIDER_KEY, id);
 }
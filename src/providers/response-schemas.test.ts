@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import rapidoPage from "./fixtures/rapido-orders-page.json";
+import activitiesPage from "./fixtures/uber-activities-page.json";
+import carTrip from "./fixtures/uber-get-trip.json";
+import motoTrip from "./fixtures/uber-get-trip-moto.json";
+import invoiceFiles from "./fixtures/uber-invoice-files.json";
+import {
+	ProviderSchemaError,
+	rapidoOrdersSchema,
+	type Schema,
+	uberActivitiesSchema,
+	uberGetTripSchema,
+	uberInvoiceFilesSchema,
+	validateResponse,
+} from "./response-schemas";
+
+/** The ProviderSchemaError thrown for `value`, which must not match. */
+function schemaError(schema: Schema, value: unknown): ProviderSchemaError {
+	try {
+		validateResponse("uber", "Uber", schema, value);
+	} catch (error) {
+		expect(error).toBeInstanceOf(ProviderSchemaError);
+		return error as ProviderSchemaError;
+	}
+	throw new Error("Expected the response to be rejected");
+}
+
+/** A deep copy of a fixture, to break without touching the original. */
+const copy = <T>(value: T): T => structuredClone(value);
+
+describe("fixtures match their schemas", () => {
+	test.each<[string, Schema, unknown]>([
+		["uber activities", uberActivitiesSchema, activitiesPage],
+		["uber getTrip (car)", uberGetTripSchema, carTrip],
+		["uber getTrip (moto)", uberGetTripSchema, motoTrip],
+		["uber invoice files", uberInvoiceFilesSchema, invoiceFiles],
+		["rapido orders", rapidoOrdersSchema, rapidoPage],
+	])("%s", (_, schema, fixture) => {
+		expect(() =>
+			validateResponse("uber", "Uber", schema, fixture),
+		).not.toThrow();
+	});
+
+	test("an Uber receipt without distance or duration passes", () => {
+		const trip = copy(motoTrip);
+		Object.assign(trip.data.getTrip.receipt, { distance: null });
+		Reflect.deleteProperty(trip.data.getTrip.receipt, "duration");
+		expect(() =>
+			validateResponse("uber", "Uber", uberGetTripSchema, trip),
+		).not.toThrow();
+	});
+
+	test("a Rapido page without orders passes", () => {
+		expect(() =>
+			validateResponse("rapido", "Rapido", rapidoOrdersSchema, {
+				data: { data: {} },
+			}),
+		).not.toThrow();
+	});
+});
+
+describe("schema drift", () => {
+	test("names a renamed field with its full path", () => {
+		const trip = copy(carTrip);
+		const { uuid } = trip.data.getTrip.trip;
+		Object.assign(trip.data.getTrip.trip, { tripUuid: uuid });
+		Reflect.deleteProperty(trip.data.getTrip.trip, "uuid");
+
+		const error = schemaError(uberGetTripSchema, trip);
+		expect(error.fields).toEqual(["data.getTrip.trip.uuid"]);
+		expect(error.message).toBe(
+			"Uber API changed: data.getTrip.trip.uuid (expected string, got missing)",
+		);
+	});
+
+	test("reports retyped fields inside arrays by index", () => {
+		const page = copy(activitiesPage);
+		const [, second, third] = page.data.activities.past.activities;
+		Object.assign(second, { description: 84 });
+		Object.assign(third, { imageURL: null });
+
+		expect(schemaError(uberActivitiesSchema, page).issues).toEqual([
+			{
+				path: "data.activities.past.activities[1].description",
+				expected: "string",
+				received: "number",
+			},
+			{
+				path: "data.activities.past.activities[2].imageURL",
+				expected: "object",
+				received: "null",
+			},
+		]);
+	});
+
+	test("stops at a missing parent instead of listing every child", () => {
+		expect(
+			schemaError(uberInvoiceFilesSchema, { data: { invoiceFiles: null } })
+				.fields,
+		).toEqual(["data.invoiceFiles"]);
+		expect(
+			schemaError(uberGetTripSchema, { errors: [{ message: "Not found" }] })
+				.fields,
+		).toEqual(["data"]);
+	});
+
+	test("checks every Rapido order", () => {
+		const page = copy(rapidoPage);
+		Object.assign(page.data.data.orders[0], { amount: "142" });
+		Object.assign(page.data.data.orders[1], { createdOn: "2025-01-02" });
+
+		expect(schemaError(rapidoOrdersSchema, page).fields).toEqual([
+			"data.data.orders[0].amount",
+			"data.data.orders[1].createdOn",
+		]);
+	});
+
+	test("lists the first few fields and counts the rest", () => {
+		const page = copy(rapidoPage);
+		Object.assign(page.data.data, {
+			orders: Array.from({ length: 4 }, () => ({})),
+		});
+
+		const error = schemaError(rapidoOrdersSchema, page);
+		expect(error.issues).toHaveLength(16);
+		expect(error.message).toEndWith("and 11 more");
+	});
+});
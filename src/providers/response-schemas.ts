@@ -0,0 +1,204 @@
+import type { ProviderId } from "./types";
+
+/**
+ * Runtime checks for the provider responses the server functions read.
+ * Each schema only covers the fields the app uses, so unrelated additions
+ * on the provider's side pass; a missing or retyped field fails with its
+ * path instead of a TypeError deep inside a normalizer.
+ */
+
+/** One field that did not match, e.g. `data.getTrip.trip.uuid`. */
+export interface SchemaIssue {
+	path: string;
+	expected: string;
+	/** What was there instead: a type name, "null" or "missing". */
+	received: string;
+}
+
+/** Checks `value` at `path`, adding an issue for every mismatch. */
+export type Schema = (
+	value: unknown,
+	path: string,
+	issues: SchemaIssue[],
+) => void;
+
+/** Issues listed in the error message before the rest are counted. */
+const MAX_LISTED_ISSUES = 5;
+
+/** Thrown when a provider response does not have the shape the app reads. */
+export class ProviderSchemaError extends Error {
+	constructor(
+		public provider: ProviderId,
+		public issues: SchemaIssue[],
+		name: string,
+	) {
+		const listed = issues
+			.slice(0, MAX_LISTED_ISSUES)
+			.map(
+				(issue) =>
+					`${issue.path} (expected ${issue.expected}, got ${issue.received})`,
+			);
+		const more = issues.length - listed.length;
+		super(
+			`${name} API changed: ${listed.join(", ")}${more > 0 ? ` and ${more} more` : ""}`,
+		);
+		this.name = "ProviderSchemaError";
+	}
+
+	/** Paths of the fields that failed. */
+	get fields(): string[] {
+		return this.issues.map((issue) => issue.path);
+	}
+}
+
+function describeValue(value: unknown): string {
+	if (value === undefined) return "missing";
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+function primitive(expected: "string" | "number"): Schema {
+	return (value, path, issues) => {
+		if (typeof value !== expected) {
+			issues.push({ path, expected, received: describeValue(value) });
+		}
+	};
+}
+
+export const string = primitive("string");
+export const number = primitive("number");
+
+/** `schema`, or null. */
+export function nullable(schema: Schema): Schema {
+	return (value, path, issues) => {
+		if (value !== null) schema(value, path, issues);
+	};
+}
+
+/** `schema`, or missing. */
+export function optional(schema: Schema): Schema {
+	return (value, path, issues) => {
+		if (value !== undefined) schema(value, path, issues);
+	};
+}
+
+/** An array whose every item matches `item`. */
+export function array(item: Schema): Schema {
+	return (value, path, issues) => {
+		if (!Array.isArray(value)) {
+			issues.push({ path, expected: "array", received: describeValue(value) });
+			return;
+		}
+		value.forEach((entry, index) => {
+			item(entry, `${path}[${index}]`, issues);
+		});
+	};
+}
+
+/** An object with at least these fields; others are ignored. */
+export function object(fields: Record<string, Schema>): Schema {
+	return (value, path, issues) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			issues.push({ path, expected: "object", received: describeValue(value) });
+			return;
+		}
+		const record = value as Record<string, unknown>;
+		for (const [key, schema] of Object.entries(fields)) {
+			schema(record[key], path ? `${path}.${key}` : key, issues);
+		}
+	};
+}
+
+/**
+ * Return `value` as `T` when it matches `schema`; otherwise throw a
+ * ProviderSchemaError naming every field that failed.
+ */
+export function validateResponse<T>(
+	provider: ProviderId,
+	name: string,
+	schema: Schema,
+	value: unknown,
+): T {
+	const issues: SchemaIssue[] = [];
+	schema(value, "", issues);
+	if (issues.length > 0) throw new ProviderSchemaError(provider, issues, name);
+	return value as T;
+}
+
+const uberActivity = object({
+	uuid: string,
+	title: string,
+	subtitle: string,
+	description: string,
+	imageURL: object({ light: string, dark: string }),
+});
+
+/** UberActivitiesResponse: the past activities page. */
+export const uberActivitiesSchema = object({
+	data: object({
+		activities: object({
+			past: object({
+				activities: array(uberActivity),
+				nextPageToken: nullable(string),
+			}),
+		}),
+	}),
+});
+
+/** UberGetTripResponse: trip, receipt and map for one trip. */
+export const uberGetTripSchema = object({
+	data: object({
+		getTrip: object({
+			trip: object({
+				beginTripTime: string,
+				dropoffTime: string,
+				driver: string,
+				fare: string,
+				status: string,
+				uuid: string,
+				waypoints: array(string),
+				paymentProfileUUID: optional(nullable(string)),
+			}),
+			mapURL: string,
+			// Cancelled trips and some Auto rides have no distance or duration
+			receipt: object({
+				distance: optional(nullable(string)),
+				distanceLabel: optional(nullable(string)),
+				duration: optional(nullable(string)),
+				vehicleType: optional(nullable(string)),
+			}),
+		}),
+	}),
+});
+
+/** UberInvoiceFilesResponse: a trip's invoice files and archive. */
+export const uberInvoiceFilesSchema = object({
+	data: object({
+		invoiceFiles: object({
+			archiveURL: nullable(string),
+			files: array(object({ downloadURL: string })),
+		}),
+	}),
+});
+
+const rapidoOrder = object({
+	_id: string,
+	createdOn: number,
+	lastModifiedOn: optional(number),
+	amount: number,
+	status: string,
+	serviceName: optional(string),
+	distance: optional(number),
+	duration: optional(number),
+});
+
+/** A page of POST /pwa/api/order; a missing `orders` list reads as empty. */
+export const rapidoOrdersSchema = object({
+	data: object({
+		data: object({
+			orders: optional(array(rapidoOrder)),
+			meta: optional(object({ totalCount: optional(number) })),
+		}),
+	}),
+});
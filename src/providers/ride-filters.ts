@@ -0,0 +1,34 @@
+import type { DateRange } from "@/types/rides";
+import type { NormalizedRide } from "./types";
+
+/**
+ * Filter normalized rides to those whose startTime falls within the range.
+ * `to` is treated as end-of-day so the whole selected day is included.
+ * Shared by providers that cannot filter by date server-side.
+ */
+export function filterRidesByDateRange(
+	rides: NormalizedRide[],
+	range: DateRange,
+): NormalizedRide[] {
+	const fromMs = range.from ? startOfDayMs(range.from) : undefined;
+	const toMs = range.to ? endOfDayMs(range.to) : undefined;
+
+	return rides.filter((ride) => {
+		const t = new Date(ride.startTime).getTime();
+		if (fromMs !== undefined && t < fromMs) return false;
+		if (toMs !== undefined && t > toMs) return false;
+		return true;
+	});
+}
+
+function startOfDayMs(date: Date): number {
+	const d = new Date(date);
+	d.setHours(0, 0, 0, 0);
+	return d.getTime();
+}
+
+function endOfDayMs(date: Date): number {
+	const d = new Date(date);
+	d.setHours(23, 59, 59, 999);
+	return d.getTime();
+}
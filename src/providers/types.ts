@@ -1,13 +1,31 @@
 import type { LucideIcon } from "lucide-react";
 import type { ReactNode } from "react";
-import type { DateRange } from "@/types/rides";
+import type { DateRange, ReceiptPdfResult } from "@/types/rides";
 import type { TransformedRide } from "@/types/uber-api";
+import type { CapturedRequest, CredentialImport } from "./credential-import";
+import type { ProviderError } from "./provider-errors";
 
 /**
  * Identifier for a supported ride provider.
  * Adding a new provider starts by extending this union.
  */
-export type ProviderId = "uber" | "rapido";
+export type ProviderId = "uber" | "rapido" | "ola";
+
+/**
+ * What the dashboard is showing: a single provider, or the aggregated view
+ * that merges rides from every connected provider.
+ */
+export type ProviderSelection = ProviderId | "all";
+
+/**
+ * Trip measurements, for providers whose payloads carry them.
+ */
+export interface RideMetrics {
+	/** Trip distance in kilometres. */
+	distanceKm?: number;
+	/** Trip duration in whole minutes. */
+	durationMinutes?: number;
+}
 
 /**
  * Canonical, provider-agnostic ride shape consumed by the table, summary,
@@ -15,8 +33,25 @@ export type ProviderId = "uber" | "rapido";
  * remains assignable to components/functions still typed against
  * TransformedRide.
  */
-export interface NormalizedRide extends TransformedRide {
+export interface NormalizedRide extends TransformedRide, RideMetrics {
 	provider: ProviderId;
+	/** Stored account the ride was fetched with (set by the dashboard). */
+	accountId?: string;
+	/** Display label of that account, e.g. "Work". */
+	accountLabel?: string;
+	/** Name of the billing profile the ride was taken on, e.g. "Personal". */
+	profile?: string;
+}
+
+/**
+ * A billing profile within one account, e.g. Uber's personal profile and a
+ * company-billed business profile. Rides can be fetched per profile.
+ */
+export interface ProviderProfile {
+	id: string;
+	name: string;
+	/** Provider-specific profile type, e.g. "PERSONAL" or "BUSINESS". */
+	type: string;
 }
 
 /**
@@ -28,6 +63,8 @@ export interface ProviderUser {
 	lastName: string;
 	email: string;
 	pictureUrl?: string;
+	/** Billing profiles, for providers that split rides by profile. */
+	profiles?: ProviderProfile[];
 }
 
 /**
@@ -39,6 +76,56 @@ export interface AuthField {
 	label: string;
 	placeholder?: string;
 	type: "textarea" | "text";
+	/** May be left blank; connect() then falls back to a default. */
+	optional?: boolean;
+	/** Shown under the field, e.g. what leaving an optional field blank does. */
+	hint?: string;
+}
+
+/**
+ * Optional knobs for fetchRides() that not every provider supports.
+ */
+export interface FetchRidesOptions {
+	/**
+	 * Profiles to fetch rides for. Omitted → the provider's default (for Uber,
+	 * the personal profile only).
+	 */
+	profiles?: ProviderProfile[];
+	/**
+	 * Ride ids already held in the local ride store. Providers whose per-ride
+	 * lookups are expensive may leave these out of the result; the caller
+	 * fills them in from the store.
+	 */
+	knownRideIds?: ReadonlySet<string>;
+}
+
+/**
+ * Rides from fetchRides(), and what stopped any of them from loading. Rides
+ * that did load are returned even when there are errors.
+ */
+export interface FetchRidesResult {
+	rides: NormalizedRide[];
+	errors: ProviderError[];
+}
+
+/**
+ * Per-ride receipts from fetchReceiptPdfs(), plus the distinct problems
+ * behind the failed ones (e.g. an expired session).
+ */
+export interface FetchReceiptsResult {
+	results: ReceiptPdfResult[];
+	errors: ProviderError[];
+}
+
+/**
+ * Optional knobs for fetchReceiptPdfs().
+ */
+export interface FetchReceiptsOptions {
+	/**
+	 * Cancels the downloads; the call then rejects with
+	 * DownloadCancelledError.
+	 */
+	signal?: AbortSignal;
 }
 
 /**
@@ -59,7 +146,10 @@ export interface ProviderDescriptor {
 	/** Display label used in the provider switcher. */
 	name: string;
 	icon: LucideIcon;
-	/** localStorage key for this provider's credentials (independent per provider). */
+	/**
+	 * localStorage key for this provider's stored accounts (independent per
+	 * provider). Holds a list of named credential sets; see account-storage.
+	 */
 	authStorageKey: string;
 	capabilities: {
 		/** true → expose Report/Invoices (per-ride receipt) downloads. */
@@ -70,6 +160,11 @@ export interface ProviderDescriptor {
 	auth: {
 		instructions: ReactNode;
 		fields: AuthField[];
+		/**
+		 * Optional: pick this provider's field values out of requests from a
+		 * HAR file or "Copy as cURL" command.
+		 */
+		importCredentials?: (requests: CapturedRequest[]) => CredentialImport;
 	};
 	/** Validate credentials and resolve the current user. */
 	connect(input: Record<string, string>): Promise<ConnectResult>;
@@ -82,10 +177,16 @@ export interface ProviderDescriptor {
 		auth: unknown,
 		range: DateRange,
 		onProgress?: (message: string) => void,
-	): Promise<NormalizedRide[]>;
-	/** Optional: fetch per-ride receipt PDFs (only when capabilities.receiptPdf). */
+		options?: FetchRidesOptions,
+	): Promise<FetchRidesResult>;
+	/**
+	 * Optional: fetch per-ride receipt PDFs (only when capabilities.receiptPdf).
+	 * Reports progress as each ride finishes.
+	 */
 	fetchReceiptPdfs?(
 		auth: unknown,
 		rides: NormalizedRide[],
-	): Promise<{ rideId: string; pdfBase64: string | null; error?: string }[]>;
+		onProgress?: (message: string) => void,
+		options?: FetchReceiptsOptions,
+	): Promise<FetchReceiptsResult>;
 }
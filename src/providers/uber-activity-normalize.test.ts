@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import type { UberActivitiesResponse } from "@/types/uber-api";
+import page from "./fixtures/uber-activities-page.json";
+import {
+	activitySubtitleToIso,
+	inferActivityYear,
+	normalizeUberActivity,
+	parseActivitySubtitle,
+} from "./uber-activity-normalize";
+
+// Recorded activities page with PII replaced by synthetic values.
+const activities = (page as UberActivitiesResponse).data.activities.past
+	.activities;
+
+// A window spanning the new year: 1 Dec 2024 → 31 Jan 2025.
+const window = {
+	startTimeMs: Date.UTC(2024, 11, 1),
+	endTimeMs: Date.UTC(2025, 0, 31, 23, 59, 59),
+};
+
+describe("parseActivitySubtitle", () => {
+	test("reads day-first subtitles with a 24h clock", () => {
+		expect(parseActivitySubtitle("16 Nov • 22:33")).toEqual({
+			day: 16,
+			month: 10,
+			year: undefined,
+			hours: 22,
+			minutes: 33,
+		});
+	});
+
+	test("reads month-first subtitles with a year and a 12h clock", () => {
+		expect(parseActivitySubtitle("Nov 16, 2023 • 12:05 AM")).toEqual({
+			day: 16,
+			month: 10,
+			year: 2023,
+			hours: 0,
+			minutes: 5,
+		});
+	});
+
+	test("returns null for unreadable subtitles", () => {
+		expect(parseActivitySubtitle("Yesterday")).toBeNull();
+		expect(parseActivitySubtitle("")).toBeNull();
+	});
+});
+
+describe("inferActivityYear", () => {
+	const parts = { hours: 12, minutes: 0 };
+
+	test("places dates on either side of the new year in the window", () => {
+		expect(inferActivityYear({ ...parts, day: 3, month: 0 }, window)).toBe(
+			2025,
+		);
+		expect(inferActivityYear({ ...parts, day: 28, month: 11 }, window)).toBe(
+			2024,
+		);
+	});
+
+	test("uses the window rather than the current year", () => {
+		const now = new Date(Date.UTC(2026, 5, 1));
+		expect(
+			inferActivityYear(
+				{ ...parts, day: 16, month: 10 },
+				{
+					startTimeMs: Date.UTC(2023, 0, 1),
+					endTimeMs: Date.UTC(2023, 11, 31),
+				},
+				now,
+			),
+		).toBe(2023);
+	});
+
+	test("defaults the window end to now and never picks a future date", () => {
+		const now = new Date(Date.UTC(2025, 2, 10));
+		expect(inferActivityYear({ ...parts, day: 20, month: 5 }, {}, now)).toBe(
+			2024,
+		);
+	});
+});
+
+describe("activitySubtitleToIso", () => {
+	test("emits a local ISO date-time without an offset", () => {
+		expect(activitySubtitleToIso("3 Jan • 08:05", window)).toBe(
+			"2025-01-03T08:05:00",
+		);
+	});
+
+	test("returns an empty string for unreadable subtitles", () => {
+		expect(activitySubtitleToIso("Yesterday", window)).toBe("");
+	});
+});
+
+describe("normalizeUberActivity", () => {
+	test("maps recorded activities with inferred years", () => {
+		const rides = activities.map((a) => normalizeUberActivity(a, window));
+		expect(rides.map((r) => r.startTime)).toEqual([
+			"2025-01-03T08:05:00",
+			"2024-12-28T22:33:00",
+			"2023-11-16T22:33:00",
+		]);
+	});
+
+	test("maps amount, vehicle type and map image", () => {
+		const [car, auto] = activities.map((a) => normalizeUberActivity(a, window));
+		expect(car).toEqual({
+			rideId: "00000000-0000-4000-8000-000000000001",
+			startTime: "2025-01-03T08:05:00",
+			endTime: "",
+			startLocation: "1 Pickup Road, Example City",
+			endLocation: "",
+			totalAmount: 1284.38,
+			currency: "INR",
+			driverName: "",
+			vehicleType: "Car",
+			status: "COMPLETED",
+			mapUrl: "https://example.com/static/UberX_dark.png",
+			isAutoRide: false,
+		});
+		expect(auto.isAutoRide).toBe(true);
+		expect(auto.vehicleType).toBe("Auto");
+		expect(auto.mapUrl).toBe("https://example.com/static/TukTuk_light.png");
+	});
+});
@@ -0,0 +1,175 @@
+import type { TransformedRide, UberActivity } from "@/types/uber-api";
+import { parseFare } from "./uber-normalize";
+
+/**
+ * The time window an activities page was requested for. Activity subtitles
+ * carry no year, so it is inferred from this window.
+ */
+export interface ActivityWindow {
+	startTimeMs?: number;
+	endTimeMs?: number;
+}
+
+const MONTHS = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+/**
+ * Subtitle clocks are the rider's local time while the window bounds are
+ * absolute instants; allow this much slack when comparing the two.
+ */
+const TIMEZONE_SLACK_MS = 24 * 60 * 60 * 1000;
+
+interface SubtitleParts {
+	day: number;
+	/** 0-based month index. */
+	month: number;
+	/** Present only when Uber includes it (older trips). */
+	year?: number;
+	hours: number;
+	minutes: number;
+}
+
+function monthIndex(name: string): number {
+	return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Parse an activity subtitle such as "16 Nov • 22:33", "Nov 16 • 10:33 PM"
+ * or "3 Jan 2024 • 08:05". Returns null when the date cannot be read.
+ */
+export function parseActivitySubtitle(subtitle: string): SubtitleParts | null {
+	const [datePart = "", timePart = ""] = subtitle
+		.split("•")
+		.map((part) => part.trim());
+
+	const dayFirst = datePart.match(
+		/^(\d{1,2})\s+([A-Za-z]+)\.?,?(?:\s+(\d{4}))?$/,
+	);
+	const monthFirst = datePart.match(
+		/^([A-Za-z]+)\.?\s+(\d{1,2}),?(?:\s+(\d{4}))?$/,
+	);
+	let day: number;
+	let month: number;
+	let year: number | undefined;
+	if (dayFirst) {
+		day = Number(dayFirst[1]);
+		month = monthIndex(dayFirst[2]);
+		year = dayFirst[3] ? Number(dayFirst[3]) : undefined;
+	} else if (monthFirst) {
+		day = Number(monthFirst[2]);
+		month = monthIndex(monthFirst[1]);
+		year = monthFirst[3] ? Number(monthFirst[3]) : undefined;
+	} else {
+		return null;
+	}
+	if (month < 0 || day < 1 || day > 31) return null;
+
+	let hours = 0;
+	let minutes = 0;
+	const time = timePart.match(/^(\d{1,2}):(\d{2})\s*([AaPp][Mm])?$/);
+	if (time) {
+		hours = Number(time[1]);
+		minutes = Number(time[2]);
+		const meridiem = time[3]?.toLowerCase();
+		if (meridiem === "pm" && hours < 12) hours += 12;
+		if (meridiem === "am" && hours === 12) hours = 0;
+	}
+
+	return { day, month, year, hours, minutes };
+}
+
+/**
+ * Pick the year for a subtitle date: the latest year that places it inside
+ * the requested window (the window's end defaults to `now`). When no year
+ * fits, fall back to the latest year that is not after the window's end.
+ */
+export function inferActivityYear(
+	parts: Pick<SubtitleParts, "day" | "month" | "hours" | "minutes">,
+	window: ActivityWindow,
+	now: Date = new Date(),
+): number {
+	const endMs = window.endTimeMs ?? now.getTime();
+	const startMs = window.startTimeMs ?? endMs;
+	const wallClock = (year: number) =>
+		Date.UTC(year, parts.month, parts.day, parts.hours, parts.minutes);
+
+	const lastYear = new Date(endMs + TIMEZONE_SLACK_MS).getUTCFullYear();
+	const firstYear = new Date(startMs - TIMEZONE_SLACK_MS).getUTCFullYear();
+	for (let year = lastYear; year >= firstYear; year--) {
+		const t = wallClock(year);
+		if (t >= startMs - TIMEZONE_SLACK_MS && t <= endMs + TIMEZONE_SLACK_MS) {
+			return year;
+		}
+	}
+	for (let year = lastYear; ; year--) {
+		if (wallClock(year) <= endMs + TIMEZONE_SLACK_MS) return year;
+	}
+}
+
+function pad(value: number): string {
+	return value.toString().padStart(2, "0");
+}
+
+/**
+ * Convert an activity subtitle to an ISO 8601 local date-time
+ * ("2024-11-16T22:33:00"). No offset is attached: the subtitle is in the
+ * rider's local time, which is how the browser will parse it back.
+ * Returns "" when the subtitle cannot be parsed.
+ */
+export function activitySubtitleToIso(
+	subtitle: string,
+	window: ActivityWindow,
+	now?: Date,
+): string {
+	const parts = parseActivitySubtitle(subtitle);
+	if (!parts) return "";
+	const year = parts.year ?? inferActivityYear(parts, window, now);
+	return `${year}-${pad(parts.month + 1)}-${pad(parts.day)}T${pad(parts.hours)}:${pad(parts.minutes)}:00`;
+}
+
+/**
+ * Map an activity row (from the Activities query) to a TransformedRide. Used
+ * as the fallback when trip-detail enrichment fails, so it only carries what
+ * the activity card shows.
+ */
+export function normalizeUberActivity(
+	activity: UberActivity,
+	window: ActivityWindow,
+	now?: Date,
+): TransformedRide {
+	// Fare from the description (e.g., "₹84.38" or "$12.50")
+	const fare = parseFare(activity.description);
+
+	// Check if it's an auto ride based on image URL
+	const isAutoRide =
+		activity.imageURL.light.includes("TukTuk") ||
+		activity.imageURL.light.includes("Auto") ||
+		activity.imageURL.light.includes("Moto");
+
+	return {
+		rideId: activity.uuid,
+		startTime: activitySubtitleToIso(activity.subtitle, window, now),
+		endTime: "",
+		startLocation: activity.title,
+		endLocation: "",
+		totalAmount: fare.amount,
+		currency: fare.currency,
+		driverName: "",
+		vehicleType: isAutoRide ? "Auto" : "Car",
+		status: "COMPLETED",
+		mapUrl: activity.imageURL.dark || activity.imageURL.light,
+		isAutoRide,
+	};
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import {
+	checkUberCookie,
+	describeUberCookieProblems,
+	parseUberCookieInput,
+} from "./uber-auth";
+
+describe("parseUberCookieInput", () => {
+	test("keeps a bare cookie header value", () => {
+		expect(parseUberCookieInput("  sid=QA.1; csid=1.0 \n")).toEqual({
+			cookie: "sid=QA.1; csid=1.0",
+		});
+	});
+
+	test("picks the cookie and CSRF token out of copied header lines", () => {
+		const pasted = [
+			"content-type: application/json",
+			"cookie: sid=QA.1; csid=1.0",
+			"x-csrf-token: abc123",
+		].join("\n");
+		expect(parseUberCookieInput(pasted)).toEqual({
+			cookie: "sid=QA.1; csid=1.0",
+			csrfToken: "abc123",
+		});
+	});
+});
+
+describe("checkUberCookie", () => {
+	test("passes a header with both session cookies", () => {
+		expect(checkUberCookie("marketing=1; sid=QA.1; csid=1.0")).toEqual({
+			missing: [],
+			malformed: [],
+		});
+	});
+
+	test("lists absent or empty session cookies and stray parts", () => {
+		expect(checkUberCookie("sid=; jwt-session=abc; truncat")).toEqual({
+			missing: ["sid", "csid"],
+			malformed: ["truncat"],
+		});
+	});
+});
+
+describe("describeUberCookieProblems", () => {
+	test("returns null for a usable cookie", () => {
+		expect(describeUberCookieProblems("sid=QA.1; csid=1.0")).toBeNull();
+	});
+
+	test("names each missing cookie on its own line", () => {
+		expect(describeUberCookieProblems("sid=QA.1; uber_sites_geo=x")).toBe(
+			[
+				"The cookie header is missing a required cookie:",
+				"• csid — the session's signature",
+				'Copy the whole "cookie" header of a riders.uber.com/graphql request while signed in.',
+			].join("\n"),
+		);
+	});
+
+	test("hints at a cut-off copy without echoing whole values", () => {
+		const problem = describeUberCookieProblems(
+			"sid=QA.1; abcdefghijklmnopqrstuvwxyz",
+		);
+		expect(problem).toContain("(abcdefghijkl…)");
+		expect(problem).not.toContain("mnop");
+	});
+
+	test("spots a token pasted instead of a cookie", () => {
+		expect(
+			describeUberCookieProblems("eyJhbGciOiJIUzI1NiJ9.e30.sig"),
+		).toContain("looks like a token");
+	});
+});
@@ -0,0 +1,102 @@
+/**
+ * Checks on pasted Uber credentials, run before anything is sent to Uber, so
+ * the auth modal can say what is wrong instead of a generic 401.
+ */
+
+/** Cookies riders.uber.com needs for a signed-in session, and what each is. */
+export const REQUIRED_UBER_COOKIES: Record<string, string> = {
+	sid: "the login session",
+	csid: "the session's signature",
+};
+
+/**
+ * Sent when no x-csrf-token was captured. riders.uber.com has accepted this
+ * placeholder, but the token the browser sent is used whenever it is known.
+ */
+export const FALLBACK_UBER_CSRF_TOKEN = "x";
+
+/**
+ * The cookie and x-csrf-token in what was pasted into the cookie field: the
+ * bare header value, a "cookie: …" line, or several request header lines
+ * copied together.
+ */
+export function parseUberCookieInput(raw: string): {
+	cookie: string;
+	csrfToken?: string;
+} {
+	const lines = raw
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter(Boolean);
+	const headers = new Map<string, string>();
+	for (const line of lines) {
+		const match = /^(cookie|x-csrf-token)\s*:\s*(.*)$/i.exec(line);
+		if (match) headers.set(match[1].toLowerCase(), match[2].trim());
+	}
+	if (headers.size === 0) return { cookie: lines.join("") };
+	const csrfToken = headers.get("x-csrf-token");
+	return {
+		cookie: headers.get("cookie") ?? "",
+		...(csrfToken ? { csrfToken } : {}),
+	};
+}
+
+export interface UberCookieCheck {
+	/** Required cookies that are absent or empty, e.g. ["csid"]. */
+	missing: string[];
+	/** Parts that are not name=value pairs, a sign of a cut-off copy. */
+	malformed: string[];
+}
+
+export function checkUberCookie(cookie: string): UberCookieCheck {
+	const present = new Set<string>();
+	const malformed: string[] = [];
+	for (const part of cookie.split(";")) {
+		const pair = part.trim();
+		if (!pair) continue;
+		const equals = pair.indexOf("=");
+		if (equals <= 0) {
+			malformed.push(pair);
+			continue;
+		}
+		const name = pair.slice(0, equals).trim();
+		if (pair.slice(equals + 1).trim()) present.add(name);
+	}
+	return {
+		missing: Object.keys(REQUIRED_UBER_COOKIES).filter(
+			(name) => !present.has(name),
+		),
+		malformed,
+	};
+}
+
+/** Shorten a cookie part for an error message without echoing a secret. */
+function preview(part: string): string {
+	return part.length > 12 ? `${part.slice(0, 12)}…` : part;
+}
+
+/**
+ * Why a pasted cookie header cannot sign in, one point per line for the auth
+ * modal; null when it has what Uber needs.
+ */
+export function describeUberCookieProblems(cookie: string): string | null {
+	if (/^(Bearer\s|eyJ)/i.test(cookie)) {
+		return 'That looks like a token, not a cookie header. Copy the "cookie" request header of a riders.uber.com request.';
+	}
+	const { missing, malformed } = checkUberCookie(cookie);
+	if (missing.length === 0) return null;
+
+	const lines = [
+		`The cookie header is missing ${missing.length === 1 ? "a required cookie" : "required cookies"}:`,
+		...missing.map((name) => `• ${name} — ${REQUIRED_UBER_COOKIES[name]}`),
+	];
+	if (malformed.length > 0) {
+		lines.push(
+			`It also has parts that are not name=value pairs (${malformed.map(preview).join(", ")}), so the copy may be cut off.`,
+		);
+	}
+	lines.push(
+		'Copy the whole "cookie" header of a riders.uber.com/graphql request while signed in.',
+	);
+	return lines.join("\n");
+}
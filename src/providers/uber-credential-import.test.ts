@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { type CapturedRequest, parseHar } from "./credential-import";
+import har from "./fixtures/uber-riders-har.json";
+import { importUberCredentials } from "./uber-credential-import";
+
+const request = (
+	url: string,
+	headers: Record<string, string>,
+): CapturedRequest => ({ url, method: "POST", headers });
+
+describe("importUberCredentials", () => {
+	test("takes the cookie and CSRF token of the GraphQL request", () => {
+		expect(importUberCredentials(parseHar(JSON.stringify(har)) ?? [])).toEqual({
+			values: {
+				cookie: "sid=QA.test-session; csid=1.0000000000000.test",
+				csrfToken: "test-csrf-token",
+			},
+		});
+	});
+
+	test("falls back to any riders.uber.com request with a cookie", () => {
+		expect(
+			importUberCredentials([
+				request("https://riders.uber.com/trips", { cookie: "sid=page" }),
+			]),
+		).toEqual({ values: { cookie: "sid=page" } });
+	});
+
+	test("explains a HAR exported without cookies", () => {
+		const result = importUberCredentials([
+			request("https://riders.uber.com/graphql", { "x-csrf-token": "x" }),
+		]);
+		expect("error" in result && result.error).toContain(
+			"Export HAR (with sensitive data)",
+		);
+	});
+
+	test("reports captures with no Uber requests", () => {
+		const result = importUberCredentials([
+			request("https://m.rapido.bike/pwa/api/order", { cookie: "a=b" }),
+		]);
+		expect("error" in result && result.error).toContain("No Uber requests");
+	});
+});
@@ -0,0 +1,43 @@
+import {
+	type CapturedRequest,
+	type CredentialImport,
+	requestsTo,
+	SANITIZED_HAR_HINT,
+} from "./credential-import";
+
+/**
+ * Uber auth field values from captured riders.uber.com requests: the cookie
+ * header and, when sent, the x-csrf-token header. The latest GraphQL request
+ * is preferred, since it carries both.
+ */
+export function importUberCredentials(
+	requests: CapturedRequest[],
+): CredentialImport {
+	const uberRequests = requestsTo(requests, "uber.com");
+	if (uberRequests.length === 0) {
+		return {
+			error:
+				"No Uber requests found. Copy a request to riders.uber.com, such as /graphql.",
+		};
+	}
+	const withCookie = uberRequests.filter((r) => r.headers.cookie);
+	const request =
+		withCookie.filter((r) => new URL(r.url).pathname === "/graphql").at(-1) ??
+		withCookie.at(-1);
+	if (!request) {
+		return {
+			error: `The Uber requests have no cookie header. ${SANITIZED_HAR_HINT}`,
+		};
+	}
+
+	const csrfToken =
+		request.headers["x-csrf-token"] ??
+		withCookie.filter((r) => r.headers["x-csrf-token"]).at(-1)?.headers[
+			"x-csrf-token"
+		];
+	return {
+		values: csrfToken
+			? { cookie: request.headers.cookie, csrfToken }
+			: { cookie: request.headers.cookie },
+	};
+}
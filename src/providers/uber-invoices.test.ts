@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { strToU8, zipSync } from "fflate";
+import type { UberInvoiceFilesResponse } from "@/types/uber-api";
+import invoiceFilesResponse from "./fixtures/uber-invoice-files.json";
+import { extractArchivePdfs, getInvoiceDownloadURLs } from "./uber-invoices";
+
+// Recorded GetInvoiceFiles response with URLs replaced by synthetic values.
+const invoiceFiles = (invoiceFilesResponse as UberInvoiceFilesResponse).data
+	.invoiceFiles;
+
+const pdf = (label: string) => strToU8(`%PDF-1.4 ${label}`);
+
+describe("getInvoiceDownloadURLs", () => {
+	test("keeps every invoice file, in order", () => {
+		expect(getInvoiceDownloadURLs(invoiceFiles)).toEqual([
+			"https://example.com/invoices/00000000-0000-4000-8000-000000000001/driver-fare.pdf",
+			"https://example.com/invoices/00000000-0000-4000-8000-000000000001/platform-fee.pdf",
+		]);
+	});
+
+	test("drops blank and repeated URLs", () => {
+		expect(
+			getInvoiceDownloadURLs({
+				archiveURL: null,
+				files: [
+					{ downloadURL: "https://example.com/a.pdf" },
+					{ downloadURL: " " },
+					{ downloadURL: "https://example.com/a.pdf" },
+				],
+			}),
+		).toEqual(["https://example.com/a.pdf"]);
+		expect(getInvoiceDownloadURLs(null)).toEqual([]);
+	});
+});
+
+describe("extractArchivePdfs", () => {
+	test("returns the PDFs in a ZIP, ordered by filename", () => {
+		const archive = zipSync({
+			"invoice-10.pdf": pdf("ten"),
+			"invoice-2.pdf": pdf("two"),
+			"readme.txt": strToU8("not an invoice"),
+			"__MACOSX/._invoice-2.pdf": strToU8("metadata"),
+		});
+		expect(extractArchivePdfs(archive)).toEqual([pdf("two"), pdf("ten")]);
+	});
+
+	test("passes a bare PDF through and ignores anything else", () => {
+		expect(extractArchivePdfs(pdf("single"))).toEqual([pdf("single")]);
+		expect(extractArchivePdfs(strToU8("<html>Sign in</html>"))).toEqual([]);
+	});
+});
@@ -0,0 +1,52 @@
+import { unzipSync } from "fflate";
+import type { UberInvoiceFilesResponse } from "@/types/uber-api";
+
+/** The GetInvoiceFiles payload for one trip. */
+export type UberInvoiceFiles = UberInvoiceFilesResponse["data"]["invoiceFiles"];
+
+/**
+ * Download URLs of every invoice file for a trip, in the order Uber lists
+ * them (e.g. the driver's fare, then the platform fee). Blank and repeated
+ * URLs are dropped.
+ */
+export function getInvoiceDownloadURLs(
+	invoiceFiles: UberInvoiceFiles | null | undefined,
+): string[] {
+	const urls = (invoiceFiles?.files ?? []).map((file) =>
+		file?.downloadURL?.trim(),
+	);
+	return urls.filter(
+		(url, index): url is string => !!url && urls.indexOf(url) === index,
+	);
+}
+
+function isPdf(bytes: Uint8Array): boolean {
+	// "%PDF"
+	return (
+		bytes[0] === 0x25 &&
+		bytes[1] === 0x50 &&
+		bytes[2] === 0x44 &&
+		bytes[3] === 0x46
+	);
+}
+
+/**
+ * The PDFs inside an invoice archive, ordered by filename. The archive is
+ * normally a ZIP; a bare PDF is returned as-is. Anything else yields none.
+ */
+export function extractArchivePdfs(bytes: Uint8Array): Uint8Array[] {
+	if (isPdf(bytes)) return [bytes];
+	try {
+		const files = unzipSync(bytes, {
+			filter: (file) =>
+				file.name.toLowerCase().endsWith(".pdf") &&
+				!file.name.startsWith("__MACOSX/"),
+		});
+		return Object.keys(files)
+			.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+			.map((name) => files[name])
+			.filter(isPdf);
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import type { UberGetTripResponse } from "@/types/uber-api";
+import carTrip from "./fixtures/uber-get-trip.json";
+import motoTrip from "./fixtures/uber-get-trip-moto.json";
+import {
+	detectCurrency,
+	getVehicleInfo,
+	normalizeUberTrip,
+	parseAmount,
+	parseDistanceKm,
+	parseDurationMinutes,
+	parseFare,
+} from "./uber-normalize";
+
+// Recorded getTrip responses with PII replaced by synthetic values.
+const car = (carTrip as UberGetTripResponse).data.getTrip;
+const moto = (motoTrip as UberGetTripResponse).data.getTrip;
+
+describe("parseAmount", () => {
+	test.each([
+		["₹84.38", 84.38],
+		["₹1,23,456.00", 123456],
+		["$1,234,567.89", 1234567.89],
+		["1.234,56 €", 1234.56],
+		["1 234,56 zł", 1234.56],
+		["CHF 1'234.50", 1234.5],
+		["12,50 €", 12.5],
+		["$1,234", 1234],
+		["¥1.234", 1234],
+		["R$ 25", 25],
+		["Rs.99.", 99],
+	])("%s → %d", (text, expected) => {
+		expect(parseAmount(text)).toBe(expected);
+	});
+
+	test("returns 0 when there is no number", () => {
+		expect(parseAmount("Free")).toBe(0);
+		expect(parseAmount("")).toBe(0);
+	});
+});
+
+describe("detectCurrency", () => {
+	test.each([
+		["₹84.38", "INR"],
+		["Rs. 84", "INR"],
+		["US$12.50", "USD"],
+		["$12.50", "USD"],
+		["CA$12.50", "CAD"],
+		["A$12.50", "AUD"],
+		["R$ 25,00", "BRL"],
+		["12,50 €", "EUR"],
+		["£7.20", "GBP"],
+		["USD 12.50", "USD"],
+		["12,50 EUR", "EUR"],
+		["AED 35.00", "AED"],
+	])("%s → %s", (text, expected) => {
+		expect(detectCurrency(text)).toBe(expected);
+	});
+
+	test("returns null when no currency is named", () => {
+		expect(detectCurrency("12.50")).toBeNull();
+		expect(detectCurrency("FREE")).toBeNull();
+	});
+});
+
+describe("parseFare", () => {
+	test("falls back to the given currency when none is named", () => {
+		expect(parseFare("12.50", "INR")).toEqual({
+			amount: 12.5,
+			currency: "INR",
+		});
+		expect(parseFare("12.50")).toEqual({ amount: 12.5, currency: "USD" });
+	});
+});
+
+describe("parseDistanceKm", () => {
+	test("reads kilometres and converts miles", () => {
+		expect(parseDistanceKm("412.30", "kilometres")).toBe(412.3);
+		expect(parseDistanceKm("3.10", "miles")).toBe(4.99);
+		expect(parseDistanceKm("1,204.5", "km")).toBe(1204.5);
+	});
+
+	test("returns undefined for a missing distance", () => {
+		expect(parseDistanceKm("", "kilometres")).toBeUndefined();
+		expect(parseDistanceKm("--", "miles")).toBeUndefined();
+	});
+});
+
+describe("parseDurationMinutes", () => {
+	test.each([
+		["66 min", 66],
+		["1 h 6 min", 66],
+		["1 hr 6 mins", 66],
+		["2 hours", 120],
+		["45 sec", 1],
+		["01:06:00", 66],
+		["15:30", 16],
+	])("%s → %d", (text, expected) => {
+		expect(parseDurationMinutes(text)).toBe(expected);
+	});
+
+	test("returns undefined for an unreadable duration", () => {
+		expect(parseDurationMinutes("")).toBeUndefined();
+		expect(parseDurationMinutes("n/a")).toBeUndefined();
+	});
+});
+
+describe("getVehicleInfo", () => {
+	test("treats autos and bikes as simple-receipt rides", () => {
+		expect(getVehicleInfo("Auto")).toEqual({
+			type: "Auto",
+			isAuto: true,
+			isBike: false,
+		});
+		expect(getVehicleInfo("Moto")).toEqual({
+			type: "Moto",
+			isAuto: true,
+			isBike: true,
+		});
+		expect(getVehicleInfo("")).toEqual({
+			type: "Car",
+			isAuto: false,
+			isBike: false,
+		});
+	});
+});
+
+describe("normalizeUberTrip", () => {
+	test("maps a car trip with Indian digit grouping", () => {
+		expect(normalizeUberTrip(car)).toEqual({
+			rideId: "00000000-0000-4000-8000-000000000001",
+			startTime: "2025-01-03T02:35:12.000Z",
+			endTime: "2025-01-03T03:41:55.000Z",
+			startLocation: "1 Pickup Road, Example City",
+			endLocation: "3 Dropoff Road, Example City",
+			totalAmount: 123456,
+			currency: "INR",
+			driverName: "Driver One",
+			vehicleType: "Premier",
+			status: "COMPLETED",
+			mapUrl: "https://example.com/maps/trip-1.png",
+			isAutoRide: false,
+			distanceKm: 412.3,
+			durationMinutes: 66,
+			paymentProfileUUID: "00000000-0000-4000-8000-0000000000b1",
+		});
+	});
+
+	test("maps a moto trip with a decimal comma and a single waypoint", () => {
+		const ride = normalizeUberTrip(moto);
+		expect(ride.totalAmount).toBe(12.5);
+		expect(ride.currency).toBe("EUR");
+		expect(ride.isAutoRide).toBe(true);
+		expect(ride.startLocation).toBe("4 Pickup Street, Example Town");
+		expect(ride.endLocation).toBe("4 Pickup Street, Example Town");
+	});
+
+	test("leaves out distance and duration the receipt does not have", () => {
+		const ride = normalizeUberTrip({
+			...moto,
+			receipt: { distance: null, vehicleType: "Uber Auto" },
+		});
+		expect(ride.distanceKm).toBeUndefined();
+		expect(ride.durationMinutes).toBeUndefined();
+		expect(ride.isAutoRide).toBe(true);
+	});
+});
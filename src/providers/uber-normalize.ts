@@ -0,0 +1,210 @@
+import type { TransformedRide, UberGetTripResponse } from "@/types/uber-api";
+import type { RideMetrics } from "./types";
+
+/** The getTrip payload (trip + receipt + map) for one trip. */
+export type UberGetTrip = UberGetTripResponse["data"]["getTrip"];
+
+/**
+ * A trip mapped from getTrip, with the receipt's distance and duration and
+ * the billing profile it was charged to.
+ */
+export type UberTripRide = TransformedRide &
+	RideMetrics & { paymentProfileUUID?: string };
+
+const KM_PER_MILE = 1.609344;
+
+/** A fare string split into its amount and ISO 4217 currency code. */
+export interface ParsedFare {
+	amount: number;
+	currency: string;
+}
+
+/**
+ * Currency symbols seen in Uber fare strings, mapped to ISO 4217 codes.
+ * Longer symbols come first so "US$" wins over "$".
+ */
+const CURRENCY_SYMBOLS: Array<[symbol: string, code: string]> = [
+	["US$", "USD"],
+	["CA$", "CAD"],
+	["A$", "AUD"],
+	["AU$", "AUD"],
+	["NZ$", "NZD"],
+	["HK$", "HKD"],
+	["S$", "SGD"],
+	["MX$", "MXN"],
+	["R$", "BRL"],
+	["Rs.", "INR"],
+	["Rs", "INR"],
+	["RM", "MYR"],
+	["zł", "PLN"],
+	["₹", "INR"],
+	["€", "EUR"],
+	["£", "GBP"],
+	["¥", "JPY"],
+	["₩", "KRW"],
+	["₺", "TRY"],
+	["₱", "PHP"],
+	["₦", "NGN"],
+	["₫", "VND"],
+	["฿", "THB"],
+	["₪", "ILS"],
+	["$", "USD"],
+];
+
+/**
+ * Find the ISO 4217 code in a fare string: an explicit three-letter code
+ * ("USD 12.50", "12,50 EUR") wins, then a known symbol. Returns null when
+ * the string names no currency.
+ */
+export function detectCurrency(text: string): string | null {
+	const code = text.match(/(?:^|[^A-Za-z])([A-Z]{3})(?![A-Za-z])/);
+	if (code) return code[1];
+	for (const [symbol, iso] of CURRENCY_SYMBOLS) {
+		if (text.includes(symbol)) return iso;
+	}
+	return null;
+}
+
+/**
+ * Parse the numeric part of a fare, whatever the locale:
+ * "1,23,456.00" (Indian grouping), "1.234,56" (European), "1 234,56",
+ * "1'234.50" and plain "84.38". When a single separator could be either a
+ * decimal point or a thousands separator, exactly three trailing digits mean
+ * thousands ("1,234" → 1234, "12,50" → 12.5).
+ */
+export function parseAmount(text: string): number {
+	const match = text.match(/\d[\d.,'\s]*/);
+	if (!match) return 0;
+	let digits = match[0].replace(/['\s]/g, "").replace(/[.,]$/, "");
+
+	const lastDot = digits.lastIndexOf(".");
+	const lastComma = digits.lastIndexOf(",");
+	let decimal: "." | "," | null = null;
+	if (lastDot !== -1 && lastComma !== -1) {
+		decimal = lastDot > lastComma ? "." : ",";
+	} else if (lastDot !== -1 || lastComma !== -1) {
+		const separator = lastDot !== -1 ? "." : ",";
+		const occurrences = digits.split(separator).length - 1;
+		const fraction = digits.slice(digits.lastIndexOf(separator) + 1);
+		decimal = occurrences === 1 && fraction.length !== 3 ? separator : null;
+	}
+
+	if (decimal) {
+		const grouping = decimal === "." ? "," : ".";
+		digits = digits.split(grouping).join("").replace(decimal, ".");
+	} else {
+		digits = digits.replace(/[.,]/g, "");
+	}
+	const amount = Number.parseFloat(digits);
+	return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Parse an Uber fare string such as "₹1,23,456.00", "US$12.50" or
+ * "12,50 €" into an amount and ISO 4217 code. `fallbackCurrency` is used
+ * when the string carries no currency marker.
+ */
+export function parseFare(text: string, fallbackCurrency = "USD"): ParsedFare {
+	return {
+		amount: parseAmount(text ?? ""),
+		currency: detectCurrency(text ?? "") ?? fallbackCurrency,
+	};
+}
+
+/**
+ * Vehicle type from the receipt. Autos and bikes both use the simple
+ * receipt URL rather than invoice files.
+ */
+export function getVehicleInfo(vehicleType: string | null | undefined): {
+	type: string;
+	isAuto: boolean;
+	isBike: boolean;
+} {
+	const lower = vehicleType?.toLowerCase() || "";
+	const isBike = lower.includes("moto") || lower.includes("bike");
+	const isAuto = lower.includes("auto") || lower.includes("tuk");
+
+	return {
+		type: vehicleType || "Car",
+		isAuto: isAuto || isBike,
+		isBike,
+	};
+}
+
+/**
+ * Receipt distance in kilometres. `distanceLabel` names the unit
+ * ("kilometres", "miles"); miles are converted. Returns undefined when the
+ * receipt has no usable distance.
+ */
+export function parseDistanceKm(
+	distance: string | null | undefined,
+	distanceLabel: string | null | undefined,
+): number | undefined {
+	if (!distance || !/\d/.test(distance)) return undefined;
+	const value = parseAmount(distance);
+	const isMiles = /\bmi(le)?s?\b/i.test(distanceLabel ?? "");
+	const km = isMiles ? value * KM_PER_MILE : value;
+	return Math.round(km * 100) / 100;
+}
+
+/**
+ * Receipt duration in whole minutes. Accepts "66 min", "1 h 6 min",
+ * "1 hr 6 mins" and clock forms ("01:06:00" as h:m:s, "15:30" as m:s).
+ * Returns undefined when the duration cannot be read.
+ */
+export function parseDurationMinutes(
+	duration: string | null | undefined,
+): number | undefined {
+	const text = duration?.trim().toLowerCase() ?? "";
+	if (!text) return undefined;
+
+	const clock = text.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+	if (clock) {
+		const [first, second, third] = clock.slice(1).map((v) => Number(v ?? 0));
+		const minutes =
+			clock[3] !== undefined
+				? first * 60 + second + third / 60
+				: first + second / 60;
+		return Math.round(minutes);
+	}
+
+	const hours = text.match(/(\d+(?:\.\d+)?)\s*h/);
+	const minutes = text.match(/(\d+(?:\.\d+)?)\s*m/);
+	const seconds = text.match(/(\d+(?:\.\d+)?)\s*s/);
+	if (!hours && !minutes && !seconds) return undefined;
+	return Math.round(
+		Number(hours?.[1] ?? 0) * 60 +
+			Number(minutes?.[1] ?? 0) +
+			Number(seconds?.[1] ?? 0) / 60,
+	);
+}
+
+/**
+ * Map a getTrip payload to the app's ride shape, including the receipt's
+ * distance and duration.
+ */
+export function normalizeUberTrip(getTrip: UberGetTrip): UberTripRide {
+	const { trip, receipt } = getTrip;
+	const fare = parseFare(trip.fare);
+	const vehicleInfo = getVehicleInfo(receipt.vehicleType);
+
+	return {
+		rideId: trip.uuid,
+		startTime: trip.beginTripTime,
+		endTime: trip.dropoffTime,
+		startLocation: trip.waypoints[0] || "",
+		endLocation: trip.waypoints[trip.waypoints.length - 1] || "",
+		totalAmount: fare.amount,
+		currency: fare.currency,
+		driverName: trip.driver,
+		vehicleType: vehicleInfo.type,
+		status: trip.status,
+		mapUrl: getTrip.mapURL,
+		isAutoRide: vehicleInfo.isAuto,
+		distanceKm: parseDistanceKm(receipt.distance, receipt.distanceLabel),
+		durationMinutes: parseDurationMinutes(receipt.duration),
+		...(trip.paymentProfileUUID
+			? { paymentProfileUUID: trip.paymentProfileUUID }
+			: {}),
+	};
+}
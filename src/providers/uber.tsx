@@ -1,20 +1,46 @@
 import { endOfDay, startOfDay } from "date-fns";
 import { Car } from "lucide-react";
+import { DownloadCancelledError, runPool } from "@/lib/download-scheduler";
+import {
+	toActivityProfileType,
+	type UberActivityProfileType,
+} from "@/lib/uber-queries";
 import {
 	fetchActivities,
 	fetchCurrentUser,
-	fetchMultipleReceiptPdfs,
 	fetchMultipleTripDetails,
+	fetchReceiptPdf,
 } from "@/server/uber-api";
-import type { DateRange } from "@/types/rides";
-import type { TransformedRide, UberAuthCredentials } from "@/types/uber-api";
+import type { DateRange, ReceiptPdfResult } from "@/types/rides";
+import type {
+	TransformedRide,
+	UberAuthCredentials,
+	UberCurrentUser,
+} from "@/types/uber-api";
+import {
+	dedupeProviderErrors,
+	type ProviderError,
+	partialData,
+} from "./provider-errors";
 import type {
 	ConnectResult,
-	NormalizedRide,
+	FetchReceiptsResult,
+	FetchRidesResult,
 	ProviderDescriptor,
+	ProviderProfile,
+	ProviderUser,
 } from "./types";
+import {
+	describeUberCookieProblems,
+	FALLBACK_UBER_CSRF_TOKEN,
+	parseUberCookieInput,
+} from "./uber-auth";
+import { importUberCredentials } from "./uber-credential-import";
+import type { UberTripRide } from "./uber-normalize";
 
 const TRIP_DETAIL_BATCH_SIZE = 10;
+/** Receipts downloaded at once; more than this gets rate-limited. */
+const RECEIPT_CONCURRENCY = 4;
 
 const instructions = (
 	<>
@@ -39,15 +65,76 @@ const instructions = (
 				Click on any "graphql" request and copy the "cookie" header value under
 				the Request Header
 			</li>
+			<li>Copy the "x-csrf-token" header value too, if the request has one</li>
 		</ol>
 	</>
 );
 
-const withProvider = (ride: TransformedRide): NormalizedRide => ({
-	...ride,
-	provider: "uber",
+const PERSONAL_PROFILE: ProviderProfile = {
+	id: "personal",
+	name: "Personal",
+	type: "PERSONAL",
+};
+
+const toProviderUser = (user: UberCurrentUser): ProviderUser => ({
+	firstName: user.firstName,
+	lastName: user.lastName,
+	email: user.email,
+	pictureUrl: user.pictureUrl,
+	profiles: user.profiles?.map((profile) => ({
+		id: profile.uuid,
+		name:
+			profile.name || (profile.type === "PERSONAL" ? "Personal" : "Business"),
+		type: profile.type,
+	})),
 });
 
+/** One Activities query: a profile type and the requested profiles it covers. */
+interface ProfileGroup {
+	profileType: UberActivityProfileType;
+	profiles: ProviderProfile[];
+}
+
+/**
+ * Group the requested profiles by the Activities query's profile type, since
+ * that is the only profile filter Uber's activity feed accepts. Several
+ * business profiles share one query; their rides are told apart by the
+ * trip's payment profile.
+ */
+function groupProfilesByActivityType(
+	profiles: ProviderProfile[],
+): ProfileGroup[] {
+	const groups = new Map<UberActivityProfileType, ProviderProfile[]>();
+	for (const profile of profiles) {
+		const type = toActivityProfileType(profile.type);
+		groups.set(type, [...(groups.get(type) ?? []), profile]);
+	}
+	return Array.from(groups, ([profileType, grouped]) => ({
+		profileType,
+		profiles: grouped,
+	}));
+}
+
+/**
+ * The requested profile a ride was billed to. A business ride whose trip
+ * names another profile was not asked for, so it gets null; business rides
+ * without trip details fall back to the query's only profile, or "Business"
+ * when the query covered several.
+ */
+function getRideProfile(
+	group: ProfileGroup,
+	paymentProfileUUID: string | undefined,
+): string | null {
+	const [first] = group.profiles;
+	if (group.profileType === "PERSONAL") return first.name;
+	if (paymentProfileUUID) {
+		return (
+			group.profiles.find((p) => p.id === paymentProfileUUID)?.name ?? null
+		);
+	}
+	return group.profiles.length === 1 ? first.name : "Business";
+}
+
 export const uberProvider: ProviderDescriptor = {
 	id: "uber",
 	name: "Uber",
@@ -59,6 +146,7 @@ export const uberProvider: ProviderDescriptor = {
 	},
 	auth: {
 		instructions,
+		importCredentials: importUberCredentials,
 		fields: [
 			{
 				key: "cookie",
@@ -66,39 +154,45 @@ export const uberProvider: ProviderDescriptor = {
 				placeholder: "Paste your cookie header value here...",
 				type: "textarea",
 			},
+			{
+				key: "csrfToken",
+				label: "CSRF Token (optional)",
+				placeholder: "x-csrf-token header value",
+				type: "text",
+				optional: true,
+				hint: `Leave blank to use the x-csrf-token header pasted with the cookie. Without one, the placeholder token "${FALLBACK_UBER_CSRF_TOKEN}" is sent, which Uber may reject.`,
+			},
 		],
 	},
 
 	async connect(input): Promise<ConnectResult> {
-		const cookie = input.cookie?.trim();
-		if (!cookie) {
+		const pasted = parseUberCookieInput(input.cookie ?? "");
+		if (!pasted.cookie) {
 			return { error: "Cookie is required" };
 		}
-		const auth: UberAuthCredentials = { cookie, csrfToken: "x" };
+		const problem = describeUberCookieProblems(pasted.cookie);
+		if (problem) {
+			return { error: problem };
+		}
+		const csrfToken = input.csrfToken?.trim() || pasted.csrfToken;
+		const auth: UberAuthCredentials = {
+			cookie: pasted.cookie,
+			csrfToken: csrfToken || FALLBACK_UBER_CSRF_TOKEN,
+		};
 		const result = await fetchCurrentUser({ data: { auth } });
 		if (result.error || !result.user) {
-			if (result.status === 404) {
-				return {
-					error:
-						"Authentication failed. Your cookie may be invalid or expired. Please get a fresh cookie from Uber.",
-					status: 404,
-				};
-			}
+			const error =
+				result.status === 404
+					? "Authentication failed. Your cookie may be invalid or expired. Please get a fresh cookie from Uber."
+					: result.error || "Failed to authenticate.";
 			return {
-				error: result.error || "Failed to authenticate.",
+				error: csrfToken
+					? error
+					: `${error}\nNo CSRF token was given, so the placeholder "${FALLBACK_UBER_CSRF_TOKEN}" was sent. Paste the x-csrf-token header of the same request too.`,
 				status: result.status,
 			};
 		}
-		const { user } = result;
-		return {
-			auth,
-			user: {
-				firstName: user.firstName,
-				lastName: user.lastName,
-				email: user.email,
-				pictureUrl: user.pictureUrl,
-			},
-		};
+		return { auth, user: toProviderUser(result.user) };
 	},
 
 	async restoreUser(auth) {
@@ -110,63 +204,88 @@ export const uberProvider: ProviderDescriptor = {
 				status: result.status,
 			};
 		}
-		const { user } = result;
-		return {
-			user: {
-				firstName: user.firstName,
-				lastName: user.lastName,
-				email: user.email,
-				pictureUrl: user.pictureUrl,
-			},
-		};
+		return { user: toProviderUser(result.user) };
 	},
 
 	async fetchRides(
 		auth,
 		range: DateRange,
 		onProgress,
-	): Promise<NormalizedRide[]> {
+		options,
+	): Promise<FetchRidesResult> {
 		const credentials = auth as UberAuthCredentials;
 		const startTimeMs = startOfDay(range.from ?? new Date()).getTime();
 		const endTimeMs = endOfDay(range.to ?? new Date()).getTime();
+		const profileGroups = groupProfilesByActivityType(
+			options?.profiles?.length ? options.profiles : [PERSONAL_PROFILE],
+		);
 
-		// Step 1: page through activities (server filters by date range).
+		// Step 1: page through activities per profile type (server filters by
+		// date range), remembering which profiles each ride's query covered.
 		const allActivities: TransformedRide[] = [];
-		let pageToken: string | undefined;
-		let pageCount = 0;
+		const groupByRide = new Map<string, ProfileGroup>();
+		const errors: ProviderError[] = [];
 
-		while (true) {
-			pageCount++;
-			onProgress?.(
-				`Fetching activities (page ${pageCount}, ${allActivities.length} rides)...`,
-			);
+		for (const group of profileGroups) {
+			let pageToken: string | undefined;
+			let pageCount = 0;
 
-			const result = await fetchActivities({
-				data: {
-					auth: credentials,
-					limit: 50,
-					nextPageToken: pageToken,
-					startTimeMs,
-					endTimeMs,
-				},
-			});
+			while (true) {
+				pageCount++;
+				const profileNote =
+					profileGroups.length > 1
+						? `${group.profiles.map((p) => p.name).join(" / ")}, `
+						: "";
+				onProgress?.(
+					`Fetching activities (${profileNote}page ${pageCount}, ${allActivities.length} rides)...`,
+				);
 
-			if (result.error) {
-				console.error("Failed to fetch activities:", result.error);
-				break;
-			}
+				const result = await fetchActivities({
+					data: {
+						auth: credentials,
+						limit: 50,
+						nextPageToken: pageToken,
+						startTimeMs,
+						endTimeMs,
+						profileType: group.profileType,
+					},
+				});
 
-			allActivities.push(...result.activities);
+				if (result.error) {
+					// Rides from earlier pages and profiles are still returned
+					errors.push(
+						allActivities.length > 0
+							? partialData(
+									`Activities stopped after ${allActivities.length} rides: ${result.error.message}`,
+									result.error,
+								)
+							: result.error,
+					);
+					break;
+				}
 
-			if (!result.nextPageToken) break;
-			pageToken = result.nextPageToken;
+				for (const activity of result.activities) {
+					if (groupByRide.has(activity.rideId)) continue;
+					groupByRide.set(activity.rideId, group);
+					allActivities.push(activity);
+				}
+
+				if (!result.nextPageToken) break;
+				pageToken = result.nextPageToken;
+			}
 		}
 
-		if (allActivities.length === 0) return [];
+		// Rides already in the local store keep their cached details.
+		const newActivities = allActivities.filter(
+			(a) => !options?.knownRideIds?.has(a.rideId),
+		);
+		if (newActivities.length === 0) {
+			return { rides: [], errors: dedupeProviderErrors(errors) };
+		}
 
-		// Step 2: enrich with trip details in batches.
-		const tripUUIDs = allActivities.map((a) => a.rideId);
-		const enriched: TransformedRide[] = [];
+		// Step 2: enrich new trips with trip details in batches.
+		const tripUUIDs = newActivities.map((a) => a.rideId);
+		const enriched: UberTripRide[] = [];
 
 		for (let i = 0; i < tripUUIDs.length; i += TRIP_DETAIL_BATCH_SIZE) {
 			const batch = tripUUIDs.slice(i, i + TRIP_DETAIL_BATCH_SIZE);
@@ -181,28 +300,79 @@ export const uberProvider: ProviderDescriptor = {
 				data: { auth: credentials, tripUUIDs: batch },
 			});
 
-			if (detailsResult.rides.length > 0) {
-				enriched.push(...detailsResult.rides);
-			} else {
-				// Fall back to basic activity rows for this batch.
-				enriched.push(...allActivities.filter((a) => batch.includes(a.rideId)));
+			enriched.push(...detailsResult.rides);
+			// Fall back to basic activity rows for trips without details.
+			const detailed = new Set(detailsResult.rides.map((r) => r.rideId));
+			enriched.push(
+				...newActivities.filter(
+					(a) => batch.includes(a.rideId) && !detailed.has(a.rideId),
+				),
+			);
+			if (detailsResult.errors.length > 0) {
+				errors.push(
+					partialData(
+						`Details for ${detailsResult.errors.length} trips could not be loaded; they show activity data only. ${detailsResult.errors[0].message}`,
+						detailsResult.errors[0],
+					),
+				);
 			}
 		}
 
-		return enriched.map(withProvider);
+		// Rides billed to a profile that was not requested are left out
+		return {
+			rides: enriched.flatMap(({ paymentProfileUUID, ...ride }) => {
+				const group = groupByRide.get(ride.rideId);
+				const profile = group
+					? getRideProfile(group, paymentProfileUUID)
+					: undefined;
+				return profile === null ? [] : [{ ...ride, provider: "uber", profile }];
+			}),
+			errors: dedupeProviderErrors(errors),
+		};
 	},
 
-	async fetchReceiptPdfs(auth, rides) {
+	async fetchReceiptPdfs(
+		auth,
+		rides,
+		onProgress,
+		options,
+	): Promise<FetchReceiptsResult> {
 		const credentials = auth as UberAuthCredentials;
-		const { pdfs } = await fetchMultipleReceiptPdfs({
-			data: {
-				auth: credentials,
-				trips: rides.map((ride) => ({
-					tripUUID: ride.rideId,
-					isAutoRide: ride.isAutoRide,
-				})),
+		const errors: ProviderError[] = [];
+		// One request per trip, so progress moves ride by ride
+		const results = await runPool(
+			rides,
+			async (ride, signal): Promise<ReceiptPdfResult> => {
+				try {
+					const result = await fetchReceiptPdf({
+						data: {
+							auth: credentials,
+							tripUUID: ride.rideId,
+							isAutoRide: ride.isAutoRide,
+						},
+						signal,
+					});
+					if (result.error) errors.push(result.error);
+					return {
+						rideId: ride.rideId,
+						pdfsBase64: result.pdfsBase64,
+						error: result.error?.message,
+					};
+				} catch (error) {
+					if (signal?.aborted) throw new DownloadCancelledError();
+					const message =
+						error instanceof Error ? error.message : "Unknown error";
+					errors.push({ kind: "network", message });
+					return { rideId: ride.rideId, pdfsBase64: null, error: message };
+				}
+			},
+			{
+				concurrency: RECEIPT_CONCURRENCY,
+				signal: options?.signal,
+				onProgress: (done, total) =>
+					onProgress?.(`Downloading receipts (${done}/${total})...`),
 			},
-		});
-		return pdfs;
+		);
+		return { results, errors: dedupeProviderErrors(errors) };
 	},
 };
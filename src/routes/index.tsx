@@ -1,42 +1,259 @@
 import { createFileRoute } from "@tanstack/react-router";
 import type { RowSelectionState, SortingState } from "@tanstack/react-table";
 import { format, startOfMonth } from "date-fns";
-import { Calendar, Loader2, RefreshCw } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { Calendar, Layers, Loader2, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AuthSetupModal } from "@/components/AuthSetupModal";
+import {
+	type CredentialSecurityChange,
+	CredentialSecurityDialog,
+} from "@/components/CredentialSecurityDialog";
 import { DateRangePicker } from "@/components/DateRangePicker";
+import { ExchangeRatesDialog } from "@/components/ExchangeRatesDialog";
 import { Navbar } from "@/components/Navbar";
+import { PdfTemplatesDialog } from "@/components/PdfTemplatesDialog";
+import {
+	ProviderErrorBanners,
+	type ProviderErrorEntry,
+} from "@/components/ProviderErrorBanners";
+import { ReceiptResultsDialog } from "@/components/ReceiptResultsDialog";
 import { RidesTable } from "@/components/RidesTable";
 import { SelectionSummary } from "@/components/SelectionSummary";
-
+import { UnlockCredentialsDialog } from "@/components/UnlockCredentialsDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { downloadBlob, generateCsv, generateSummaryPdf } from "@/lib/pdf-utils";
+import { ZipExportDialog } from "@/components/ZipExportDialog";
+import {
+	type CredentialVault,
+	createAccountId,
+	EMPTY_ACCOUNTS,
+	forgetAccounts,
+	getAccountLabel,
+	loadAccounts,
+	removeAccount,
+	type StoredAccount,
+	type StoredAccounts,
+	saveAccounts,
+	upsertAccount,
+} from "@/lib/account-storage";
+import {
+	type CredentialSecurity,
+	createEncryption,
+	DEFAULT_CREDENTIAL_SECURITY,
+	loadCredentialSecurity,
+	saveCredentialSecurity,
+	unlockEncryption,
+} from "@/lib/credential-vault";
+import { getCurrencyTotals } from "@/lib/currency";
+import { DownloadCancelledError } from "@/lib/download-scheduler";
+import {
+	convertRides,
+	DEFAULT_EXCHANGE_RATES,
+	type ExchangeRateSettings,
+	loadExchangeRates,
+	saveExchangeRates,
+} from "@/lib/exchange-rates";
+import {
+	DEFAULT_PDF_TEMPLATES,
+	getSelectedPdfTemplate,
+	loadPdfTemplates,
+	type PdfTemplateSettings,
+	savePdfTemplates,
+} from "@/lib/pdf-templates";
 import {
+	downloadBlob,
+	generateCsv,
+	generateSummaryPdf,
+	loadReceiptPdfs,
+} from "@/lib/pdf-utils";
+import {
+	createZip,
+	DEFAULT_ZIP_EXPORT,
+	formatReceiptFilename,
+	loadZipExport,
+	saveZipExport,
+	uniqueFilename,
+	type ZipEntry,
+	type ZipExportSettings,
+} from "@/lib/receipt-zip";
+import {
+	clearStoredAccount,
+	loadStoredRides,
+	loadSyncMeta,
+	mergeCoverage,
+	mergeRides,
+	planSync,
+	type StoredRide,
+	saveStoredRides,
+	saveSyncMeta,
+	toSyncWindow,
+} from "@/lib/ride-store";
+import type { ProviderError } from "@/providers/provider-errors";
+import {
+	ALL_PROVIDERS,
 	DEFAULT_PROVIDER_ID,
 	getProvider,
 	loadSelectedProviderId,
 	PROVIDER_LIST,
 	saveSelectedProviderId,
 } from "@/providers/registry";
+import { filterRidesByDateRange } from "@/providers/ride-filters";
 import type {
 	NormalizedRide,
+	ProviderDescriptor,
 	ProviderId,
+	ProviderProfile,
+	ProviderSelection,
 	ProviderUser,
 } from "@/providers/types";
-import type { DateRange } from "@/types/rides";
+import type {
+	DateRange,
+	ReceiptOutcome,
+	ReceiptPdfResult,
+} from "@/types/rides";
 
 export const Route = createFileRoute("/")({ component: ReceiptsDashboard });
 
+/** Connected providers: each holds its stored accounts (credentials + user). */
+type ProviderSessions = Partial<Record<ProviderId, StoredAccounts>>;
+
+/** One account to fetch from, with the provider that owns it. */
+interface FetchTarget {
+	provider: ProviderDescriptor;
+	account: StoredAccount;
+}
+
+/** Name shown in exports: the user's name, plus the account label if set. */
+function formatAccountName(account: StoredAccount): string {
+	const name = account.user
+		? `${account.user.firstName} ${account.user.lastName}`.trim() ||
+			account.user.email
+		: "";
+	if (!account.label || account.label === name) return name || account.label;
+	return name ? `${name} (${account.label})` : account.label;
+}
+
+/** Stamp rides with the account they belong to and its current label. */
+function withAccount(
+	rides: NormalizedRide[],
+	account: StoredAccount,
+): StoredRide[] {
+	const accountLabel = getAccountLabel(account);
+	return rides.map((ride) => ({
+		...ride,
+		accountId: account.id,
+		accountLabel,
+	}));
+}
+
+/** Banner entries for one account's errors, keyed so repeats collapse. */
+function toErrorEntries(
+	provider: ProviderDescriptor,
+	account: StoredAccount,
+	errors: ProviderError[],
+	showAccount: boolean,
+): ProviderErrorEntry[] {
+	return errors.map((error) => ({
+		id: `${provider.id}:${account.id}:${error.kind}:${error.message}`,
+		providerId: provider.id,
+		accountId: account.id,
+		providerName: provider.name,
+		accountLabel: showAccount ? getAccountLabel(account) : undefined,
+		error,
+	}));
+}
+
+/** Add entries not already shown. */
+function mergeErrorEntries(
+	current: ProviderErrorEntry[],
+	added: ProviderErrorEntry[],
+): ProviderErrorEntry[] {
+	const ids = new Set(current.map((entry) => entry.id));
+	return [...current, ...added.filter((entry) => !ids.has(entry.id))];
+}
+
+/**
+ * Ride store sync scope for a fetch: the profiles it covered, or "default"
+ * for the provider's default set.
+ */
+function getSyncScope(profiles?: ProviderProfile[]): string {
+	return (
+		profiles
+			?.map((p) => p.id)
+			.sort()
+			.join(",") || "default"
+	);
+}
+
+function withoutSession(
+	sessions: ProviderSessions,
+	id: ProviderId,
+): ProviderSessions {
+	const next = { ...sessions };
+	delete next[id];
+	return next;
+}
+
 function ReceiptsDashboard() {
-	// Provider state
-	const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
-	const provider = getProvider(providerId);
+	// Provider state ("all" merges every connected provider)
+	const [selection, setSelection] =
+		useState<ProviderSelection>(DEFAULT_PROVIDER_ID);
+	const isAllView = selection === ALL_PROVIDERS;
+	const provider = isAllView ? null : getProvider(selection);
+	const viewName = provider?.name ?? "All Providers";
+	const viewId = provider?.id ?? ALL_PROVIDERS;
+	const summaryTitle = provider
+		? `${provider.name} Expense Summary`
+		: "Expense Summary";
+
+	// Auth state, per provider account (auth is provider-specific, opaque here)
+	const [sessions, setSessions] = useState<ProviderSessions>({});
+	const connectedProviders = useMemo(
+		() => PROVIDER_LIST.filter((p) => sessions[p.id]),
+		[sessions],
+	);
+	const activeProviders = useMemo(
+		() =>
+			isAllView
+				? connectedProviders
+				: connectedProviders.filter((p) => p.id === selection),
+		[connectedProviders, isAllView, selection],
+	);
+	const providerAccounts = isAllView ? undefined : sessions[selection];
+	const activeAccount = providerAccounts?.accounts.find(
+		(a) => a.id === providerAccounts.activeAccountId,
+	);
+	const user = activeAccount?.user ?? null;
+	const isAuthenticated = activeProviders.length > 0;
 
-	// Auth state (auth is provider-specific, opaque here)
-	const [auth, setAuth] = useState<unknown>(null);
-	const [user, setUser] = useState<ProviderUser | null>(null);
-	const isAuthenticated = auth != null;
+	// Billing profile to fetch for the active account ("all" → every profile)
+	const [profileId, setProfileId] = useState<string>("all");
+	const userProfiles = user?.profiles ?? [];
+	const selectedProfile = userProfiles.find((p) => p.id === profileId);
+
+	// Accounts to fetch from: the active account, or every account in "All"
+	const fetchTargets = useMemo<FetchTarget[]>(
+		() =>
+			activeProviders.flatMap((p) => {
+				const stored = sessions[p.id];
+				if (!stored) return [];
+				return stored.accounts
+					.filter((a) => isAllView || a.id === stored.activeAccountId)
+					.map((account) => ({ provider: p, account }));
+			}),
+		[activeProviders, sessions, isAllView],
+	);
+
+	// Credential storage and encryption. The vault ref holds the unlocked key
+	// so persisting and restoring always use the current settings.
+	const vault = useRef<CredentialVault>({
+		security: DEFAULT_CREDENTIAL_SECURITY,
+		key: null,
+	});
+	const [credentialSecurity, setCredentialSecurity] =
+		useState<CredentialSecurity>(DEFAULT_CREDENTIAL_SECURITY);
+	const [isLocked, setIsLocked] = useState(false);
+	const [credentialSecurityOpen, setCredentialSecurityOpen] = useState(false);
 
 	// Rides data state
 	const [rides, setRides] = useState<NormalizedRide[]>([]);
@@ -52,8 +269,13 @@ function ReceiptsDashboard() {
 		"COMPLETED",
 	);
 
-	// Auth modal state
+	// Auth modal state: which provider it connects, and the account it
+	// updates (no accountId → add a new account)
 	const [authModalOpen, setAuthModalOpen] = useState(false);
+	const [authTarget, setAuthTarget] = useState<{
+		providerId: ProviderId;
+		accountId?: string;
+	}>({ providerId: DEFAULT_PROVIDER_ID });
 
 	// Date range state - default to 1st of current month to today
 	const [dateRange, setDateRange] = useState<DateRange>({
@@ -63,7 +285,39 @@ function ReceiptsDashboard() {
 
 	// Fetch progress / download state
 	const [fetchProgress, setFetchProgress] = useState<string>("");
+	// Errors from the last fetch and downloads, shown as banners
+	const [providerErrors, setProviderErrors] = useState<ProviderErrorEntry[]>(
+		[],
+	);
 	const [isDownloading, setIsDownloading] = useState(false);
+	// Receipt download progress, and how to cancel the download in flight
+	const [downloadProgress, setDownloadProgress] = useState("");
+	const downloadController = useRef<AbortController | null>(null);
+
+	// Exchange rates into the reporting currency (local only)
+	const [exchangeRates, setExchangeRates] = useState<ExchangeRateSettings>(
+		DEFAULT_EXCHANGE_RATES,
+	);
+	const [exchangeRatesOpen, setExchangeRatesOpen] = useState(false);
+
+	// Summary PDF templates (local only)
+	const [pdfTemplates, setPdfTemplates] = useState<PdfTemplateSettings>(
+		DEFAULT_PDF_TEMPLATES,
+	);
+	const [pdfTemplatesOpen, setPdfTemplatesOpen] = useState(false);
+	const pdfTemplate = getSelectedPdfTemplate(pdfTemplates);
+
+	// ZIP export filename pattern and extras (local only)
+	const [zipExport, setZipExport] =
+		useState<ZipExportSettings>(DEFAULT_ZIP_EXPORT);
+	const [zipExportOpen, setZipExportOpen] = useState(false);
+
+	// What happened to each receipt in the last export
+	const [receiptResults, setReceiptResults] = useState<{
+		kind: "report" | "invoices" | "archive";
+		outcomes: ReceiptOutcome[];
+		rides: NormalizedRide[];
+	} | null>(null);
 
 	// Reset all ride/selection state (used on provider switch + auth change)
 	const resetRideState = useCallback(() => {
@@ -71,42 +325,228 @@ function ReceiptsDashboard() {
 		setRowSelection({});
 		setHasSearched(false);
 		setFetchProgress("");
+		setProviderErrors([]);
 	}, []);
 
-	// Restore a provider's stored session (auth + user) on load / switch
-	const restoreSession = useCallback(async (id: ProviderId) => {
-		const desc = getProvider(id);
-		const stored = localStorage.getItem(desc.authStorageKey);
-		if (!stored) {
-			setAuth(null);
-			setUser(null);
+	// Persist a provider's accounts and mirror them into session state
+	const persistAccounts = useCallback(
+		(id: ProviderId, stored: StoredAccounts) => {
+			// A restore still in flight when the vault locked must not bring the
+			// accounts back
+			if (vault.current.security.encryption && !vault.current.key) return;
+			saveAccounts(getProvider(id), stored, vault.current).catch((error) =>
+				console.error("Failed to save accounts:", error),
+			);
+			setSessions((prev) =>
+				stored.accounts.length > 0
+					? { ...prev, [id]: stored }
+					: withoutSession(prev, id),
+			);
+		},
+		[],
+	);
+
+	// Restore a provider's stored accounts (auth + user) on load
+	const restoreSession = useCallback(
+		async (id: ProviderId) => {
+			const desc = getProvider(id);
+			const { stored, status } = await loadAccounts(desc, vault.current);
+			if (status === "undecryptable") {
+				// Keep what is stored until the user chooses to forget it
+				setProviderErrors((current) =>
+					mergeErrorEntries(current, [
+						{
+							id: `${id}:undecryptable`,
+							providerId: id,
+							providerName: desc.name,
+							error: {
+								kind: "auth-expired",
+								message:
+									"The stored credentials could not be decrypted with this passphrase. Forget them and connect again.",
+							},
+						},
+					]),
+				);
+			}
+			if (stored.accounts.length === 0) {
+				setSessions((prev) => withoutSession(prev, id));
+				return;
+			}
+			const restored = await Promise.all(
+				stored.accounts.map(async (account): Promise<StoredAccount | null> => {
+					try {
+						const result = await desc.restoreUser(account.auth);
+						return "user" in result ? { ...account, user: result.user } : null;
+					} catch {
+						return null;
+					}
+				}),
+			);
+			// Invalid/expired credentials → drop those accounts
+			const valid = restored.filter((a): a is StoredAccount => a !== null);
+			persistAccounts(id, {
+				version: 2,
+				activeAccountId: valid.some((a) => a.id === stored.activeAccountId)
+					? stored.activeAccountId
+					: (valid[0]?.id ?? null),
+				accounts: valid,
+			});
+		},
+		[persistAccounts],
+	);
+
+	const restoreAllSessions = useCallback(() => {
+		for (const p of PROVIDER_LIST) {
+			restoreSession(p.id);
+		}
+	}, [restoreSession]);
+
+	// On mount: pick last-used view and restore every provider's session,
+	// so the "All" view knows which accounts are connected. Encrypted
+	// credentials wait for the passphrase.
+	useEffect(() => {
+		setSelection(loadSelectedProviderId());
+		setExchangeRates(loadExchangeRates());
+		setPdfTemplates(loadPdfTemplates());
+		setZipExport(loadZipExport());
+		const security = loadCredentialSecurity();
+		vault.current = { security, key: null };
+		setCredentialSecurity(security);
+		if (security.encryption) {
+			setIsLocked(true);
 			return;
 		}
-		try {
-			const parsedAuth = JSON.parse(stored);
-			const result = await desc.restoreUser(parsedAuth);
-			if ("user" in result) {
-				setAuth(parsedAuth);
-				setUser(result.user);
-			} else {
-				// Invalid/expired credentials → clear this provider's session
-				localStorage.removeItem(desc.authStorageKey);
-				setAuth(null);
-				setUser(null);
-			}
-		} catch {
-			localStorage.removeItem(desc.authStorageKey);
-			setAuth(null);
-			setUser(null);
+		restoreAllSessions();
+	}, [restoreAllSessions]);
+
+	// Unlock encrypted credentials; false when the passphrase is wrong
+	const handleUnlock = useCallback(
+		async (passphrase: string) => {
+			const { encryption } = vault.current.security;
+			if (!encryption) return true;
+			const key = await unlockEncryption(encryption, passphrase);
+			if (!key) return false;
+			vault.current = { ...vault.current, key };
+			setIsLocked(false);
+			restoreAllSessions();
+			return true;
+		},
+		[restoreAllSessions],
+	);
+
+	// Forget the key and every session; stored credentials stay encrypted
+	const handleLock = useCallback(() => {
+		vault.current = { ...vault.current, key: null };
+		setIsLocked(true);
+		setSessions({});
+		setAuthModalOpen(false);
+		setCredentialSecurityOpen(false);
+		resetRideState();
+	}, [resetRideState]);
+
+	// Lost passphrase: delete the encrypted credentials and stop encrypting
+	const handleForgetCredentials = useCallback(() => {
+		for (const p of PROVIDER_LIST) {
+			forgetAccounts(p);
 		}
+		const security = { ...vault.current.security, encryption: null };
+		saveCredentialSecurity(security);
+		vault.current = { security, key: null };
+		setCredentialSecurity(security);
+		setIsLocked(false);
 	}, []);
 
-	// On mount: pick last-used provider and restore its session
+	// Re-save every provider's accounts under the new storage / passphrase
+	const handleSaveCredentialSecurity = useCallback(
+		async (change: CredentialSecurityChange) => {
+			let { encryption } = vault.current.security;
+			let { key } = vault.current;
+			if (change.passphrase === null) {
+				encryption = null;
+				key = null;
+			} else if (change.passphrase !== undefined) {
+				({ encryption, key } = await createEncryption(change.passphrase));
+			}
+			const security: CredentialSecurity = {
+				version: 1,
+				storage: change.storage,
+				encryption,
+				autoLockMinutes: change.autoLockMinutes,
+			};
+			vault.current = { security, key };
+			await Promise.all(
+				PROVIDER_LIST.map((p) =>
+					saveAccounts(p, sessions[p.id] ?? EMPTY_ACCOUNTS, vault.current),
+				),
+			);
+			saveCredentialSecurity(security);
+			setCredentialSecurity(security);
+		},
+		[sessions],
+	);
+
+	// Lock encrypted credentials after a while without input. A fetch or
+	// download in progress holds the timer off until it finishes.
 	useEffect(() => {
-		const id = loadSelectedProviderId();
-		setProviderId(id);
-		restoreSession(id);
-	}, [restoreSession]);
+		const { encryption, autoLockMinutes } = credentialSecurity;
+		if (!encryption || isLocked || autoLockMinutes === 0) return;
+		if (isLoadingRides || isDownloading) return;
+		const delay = autoLockMinutes * 60_000;
+		let timer = window.setTimeout(handleLock, delay);
+		const restart = () => {
+			window.clearTimeout(timer);
+			timer = window.setTimeout(handleLock, delay);
+		};
+		const events = ["pointerdown", "keydown", "wheel", "touchstart"];
+		for (const event of events) {
+			window.addEventListener(event, restart, { passive: true });
+		}
+		return () => {
+			window.clearTimeout(timer);
+			for (const event of events) {
+				window.removeEventListener(event, restart);
+			}
+		};
+	}, [credentialSecurity, isLocked, isLoadingRides, isDownloading, handleLock]);
+
+	// Profiles fetched for an account: the selected one, or all of them
+	const getTargetProfiles = useCallback(
+		(account: StoredAccount) =>
+			!isAllView && selectedProfile
+				? [selectedProfile]
+				: account.user?.profiles,
+		[isAllView, selectedProfile],
+	);
+
+	// Narrow stored rides to what the current date range / profile shows
+	const selectVisibleRides = useCallback(
+		(stored: NormalizedRide[]) => {
+			const inRange = filterRidesByDateRange(stored, dateRange);
+			if (isAllView || !selectedProfile) return inRange;
+			return inRange.filter((ride) => ride.profile === selectedProfile.name);
+		},
+		[dateRange, isAllView, selectedProfile],
+	);
+
+	// Until the user fetches, open straight from the local ride store
+	useEffect(() => {
+		if (hasSearched || fetchTargets.length === 0) return;
+		let cancelled = false;
+		(async () => {
+			const cached = await Promise.all(
+				fetchTargets.map(async ({ provider: p, account }) =>
+					withAccount(await loadStoredRides(p.id, account.id), account),
+				),
+			);
+			const visible = selectVisibleRides(mergeRides([], cached.flat()));
+			if (cancelled || visible.length === 0) return;
+			setRides(visible);
+			setHasSearched(true);
+		})();
+		return () => {
+			cancelled = true;
+		};
+	}, [fetchTargets, hasSearched, selectVisibleRides]);
 
 	// Filter rides by status
 	const filteredRides = useMemo(() => {
@@ -119,61 +559,202 @@ function ReceiptsDashboard() {
 		const selectedRides = filteredRides.filter(
 			(ride) => rowSelection[ride.rideId],
 		);
-		const totalAmount = selectedRides.reduce(
-			(sum, ride) => sum + ride.totalAmount,
-			0,
-		);
 		return {
 			selectedCount: selectedRides.length,
-			totalAmount,
-			currency: selectedRides[0]?.currency || "INR",
+			totals: getCurrencyTotals(selectedRides),
+			conversion: convertRides(selectedRides, exchangeRates).conversion,
 			rides: selectedRides,
 		};
-	}, [filteredRides, rowSelection]);
+	}, [filteredRides, rowSelection, exchangeRates]);
+
+	const handleSaveExchangeRates = useCallback(
+		(settings: ExchangeRateSettings) => {
+			saveExchangeRates(settings);
+			setExchangeRates(settings);
+		},
+		[],
+	);
+
+	const handleSavePdfTemplates = useCallback(
+		(settings: PdfTemplateSettings) => {
+			savePdfTemplates(settings);
+			setPdfTemplates(settings);
+		},
+		[],
+	);
+
+	const handleSelectPdfTemplate = useCallback(
+		(id: string) => {
+			handleSavePdfTemplates({ ...pdfTemplates, selectedId: id });
+		},
+		[pdfTemplates, handleSavePdfTemplates],
+	);
 
-	// Switch provider
+	// Switch provider / aggregated view
 	const handleSelectProvider = useCallback(
-		(id: ProviderId) => {
-			if (id === providerId) return;
-			setProviderId(id);
+		(id: ProviderSelection) => {
+			if (id === selection) return;
+			setSelection(id);
 			saveSelectedProviderId(id);
 			resetRideState();
-			restoreSession(id);
 		},
-		[providerId, resetRideState, restoreSession],
+		[selection, resetRideState],
 	);
 
-	// Handle auth success
-	const handleAuthSuccess = (newAuth: unknown, newUser: ProviderUser) => {
-		setAuth(newAuth);
-		setUser(newUser);
+	// Open the auth modal for a provider (defaults to the active one). Without
+	// an explicit provider it updates the active account, if there is one.
+	const openAuthModal = useCallback(
+		(id?: ProviderId) => {
+			setAuthTarget({
+				providerId: id ?? provider?.id ?? DEFAULT_PROVIDER_ID,
+				accountId: id ? undefined : activeAccount?.id,
+			});
+			setAuthModalOpen(true);
+		},
+		[provider, activeAccount],
+	);
+
+	// Open the auth modal to add another account to the active provider
+	const handleAddAccount = useCallback(() => {
+		if (!provider) return;
+		setAuthTarget({ providerId: provider.id });
+		setAuthModalOpen(true);
+	}, [provider]);
+
+	// Handle auth success: add or update the targeted account
+	const handleAuthSuccess = (
+		newAuth: unknown,
+		newUser: ProviderUser,
+		label: string,
+	) => {
+		const stored = sessions[authTarget.providerId] ?? EMPTY_ACCOUNTS;
+		persistAccounts(
+			authTarget.providerId,
+			upsertAccount(stored, {
+				id: authTarget.accountId ?? createAccountId(),
+				label,
+				auth: newAuth,
+				user: newUser,
+			}),
+		);
 		resetRideState();
 	};
 
-	// Handle logout (scoped to active provider)
+	// Switch the active account of the selected provider
+	const handleSelectAccount = (accountId: string) => {
+		if (!provider || !providerAccounts) return;
+		if (accountId === providerAccounts.activeAccountId) return;
+		persistAccounts(provider.id, {
+			...providerAccounts,
+			activeAccountId: accountId,
+		});
+		resetRideState();
+	};
+
+	// Handle logout (scoped to the active account of the active provider)
 	const handleLogout = () => {
-		localStorage.removeItem(provider.authStorageKey);
-		setAuth(null);
-		setUser(null);
+		if (!provider || !providerAccounts || !activeAccount) return;
+		persistAccounts(
+			provider.id,
+			removeAccount(providerAccounts, activeAccount.id),
+		);
+		clearStoredAccount(provider.id, activeAccount.id);
 		resetRideState();
 	};
 
-	// Fetch all rides within date range
+	// Fetch rides within the date range from every target account at once.
+	// Each account only fetches what its cached window does not cover yet.
 	const handleFetchRides = useCallback(async () => {
-		if (!auth || !dateRange.from) return;
+		if (fetchTargets.length === 0 || !dateRange.from) return;
 
 		setIsLoadingRides(true);
 		setRowSelection({});
 		setHasSearched(true);
 		setFetchProgress("Fetching rides...");
+		setProviderErrors([]);
+
+		// Per-account progress lines, prefixed with the source when aggregating
+		const progress = new Map<string, string>();
+		const reportProgress = (target: FetchTarget, message: string) => {
+			progress.set(target.account.id, message);
+			setFetchProgress(
+				fetchTargets
+					.filter((t) => progress.has(t.account.id))
+					.map((t) => {
+						const message = progress.get(t.account.id);
+						if (fetchTargets.length === 1) return message;
+						return `${t.provider.name} (${getAccountLabel(t.account)}): ${message}`;
+					})
+					.join(" · "),
+			);
+		};
+
+		const errors: ProviderErrorEntry[] = [];
+		const reportErrors = (target: FetchTarget, found: ProviderError[]) => {
+			errors.push(
+				...toErrorEntries(
+					target.provider,
+					target.account,
+					found,
+					fetchTargets.length > 1,
+				),
+			);
+		};
 
 		try {
-			const fetched = await provider.fetchRides(
-				auth,
-				dateRange,
-				setFetchProgress,
+			const results = await Promise.all(
+				fetchTargets.map(async (target) => {
+					const { provider: p, account } = target;
+					const profiles = getTargetProfiles(account);
+					const key = {
+						provider: p.id,
+						accountId: account.id,
+						scope: getSyncScope(profiles),
+					};
+					const [cached, meta] = await Promise.all([
+						loadStoredRides(key.provider, key.accountId),
+						loadSyncMeta(key.provider, key.accountId, key.scope),
+					]);
+					const plan = planSync(meta, toSyncWindow(dateRange));
+					if (!plan) return withAccount(cached, account);
+
+					try {
+						// Completed rides are final; anything else is re-fetched
+						const knownRideIds = new Set(
+							cached
+								.filter((ride) => ride.status === "COMPLETED")
+								.map((ride) => ride.rideId),
+						);
+						const result = await p.fetchRides(
+							account.auth,
+							{ from: new Date(plan.from), to: new Date(plan.to) },
+							(m) => reportProgress(target, m),
+							{ profiles, knownRideIds },
+						);
+						const fetched = withAccount(result.rides, account);
+						await saveStoredRides(fetched);
+						// A failed or partial fetch leaves the window to fetch again
+						if (result.errors.length === 0) {
+							await saveSyncMeta(mergeCoverage(key, meta, plan, Date.now()));
+						}
+						reportErrors(target, result.errors);
+						return mergeRides(withAccount(cached, account), fetched);
+					} catch (error) {
+						console.error(`Failed to fetch ${p.name} rides:`, error);
+						reportErrors(target, [
+							{
+								kind: "network",
+								message:
+									error instanceof Error ? error.message : "Unknown error",
+							},
+						]);
+						return withAccount(cached, account);
+					}
+				}),
 			);
-			setRides(fetched);
+			// Merge newest-first so rides from different providers interleave
+			setRides(selectVisibleRides(mergeRides([], results.flat())));
+			setProviderErrors(mergeErrorEntries([], errors));
 			setFetchProgress("");
 		} catch (error) {
 			console.error("Failed to fetch rides:", error);
@@ -181,148 +762,374 @@ function ReceiptsDashboard() {
 		} finally {
 			setIsLoadingRides(false);
 		}
-	}, [auth, dateRange, provider]);
+	}, [fetchTargets, dateRange, getTargetProfiles, selectVisibleRides]);
+
+	// Account name(s) carried into exports, including account labels
+	const accountName = useMemo(() => {
+		const names = fetchTargets
+			.map((t) => formatAccountName(t.account))
+			.filter(Boolean);
+		return names.length > 0 ? Array.from(new Set(names)).join(", ") : undefined;
+	}, [fetchTargets]);
+
+	// Whether any active provider can supply per-ride receipt PDFs
+	const supportsReceiptPdf = activeProviders.some(
+		(p) => p.capabilities.receiptPdf && p.fetchReceiptPdfs,
+	);
+
+	// Fetch receipt PDFs, grouping rides by the account that fetched them.
+	// Every ride of a receipt provider gets a result, failed or not. Rejects
+	// with DownloadCancelledError when the user cancels.
+	const fetchReceiptPdfs = useCallback(
+		async (ridesToFetch: NormalizedRide[]): Promise<ReceiptPdfResult[]> => {
+			const byAccount = new Map<string, NormalizedRide[]>();
+			for (const ride of ridesToFetch) {
+				const key = `${ride.provider}:${ride.accountId ?? ""}`;
+				byAccount.set(key, [...(byAccount.get(key) ?? []), ride]);
+			}
+
+			const controller = new AbortController();
+			downloadController.current = controller;
+			// Per-account progress lines, prefixed with the source when several
+			const progress = new Map<string, string>();
+			const reportProgress = (key: string, label: string, message: string) => {
+				progress.set(
+					key,
+					byAccount.size === 1 ? message : `${label}: ${message}`,
+				);
+				setDownloadProgress(Array.from(progress.values()).join(" · "));
+			};
+
+			const errors: ProviderErrorEntry[] = [];
+			const results = await Promise.all(
+				Array.from(byAccount, async ([key, group]) => {
+					const { provider: id, accountId } = group[0];
+					const desc = getProvider(id);
+					const account = sessions[id]?.accounts.find(
+						(a) => a.id === accountId,
+					);
+					if (!desc.capabilities.receiptPdf || !desc.fetchReceiptPdfs) {
+						return [];
+					}
+					const failAll = (error: string) =>
+						group.map((ride) => ({
+							rideId: ride.rideId,
+							pdfsBase64: null,
+							error,
+						}));
+					if (!account) return failAll("The account is no longer connected");
+					try {
+						const result = await desc.fetchReceiptPdfs(
+							account.auth,
+							group,
+							(m) =>
+								reportProgress(
+									key,
+									`${desc.name} (${getAccountLabel(account)})`,
+									m,
+								),
+							{ signal: controller.signal },
+						);
+						errors.push(
+							...toErrorEntries(
+								desc,
+								account,
+								result.errors,
+								byAccount.size > 1,
+							).map((entry) => ({ ...entry, fromReceiptDownload: true })),
+						);
+						return result.results;
+					} catch (error) {
+						if (error instanceof DownloadCancelledError) throw error;
+						console.error(`Failed to fetch ${desc.name} receipts:`, error);
+						return failAll(
+							error instanceof Error ? error.message : "Unknown error",
+						);
+					}
+				}),
+			).finally(() => {
+				downloadController.current = null;
+				setDownloadProgress("");
+			});
+			setProviderErrors((current) => mergeErrorEntries(current, errors));
+			return results.flat();
+		},
+		[sessions],
+	);
+
+	// Reopen the auth modal for the account an error came from. An error
+	// about the provider's stored credentials as a whole forgets them first
+	// and connects a new account
+	const handleReconnect = useCallback((entry: ProviderErrorEntry) => {
+		if (entry.accountId === undefined) {
+			forgetAccounts(getProvider(entry.providerId));
+			setProviderErrors((current) => current.filter((e) => e.id !== entry.id));
+		}
+		setAuthTarget({ providerId: entry.providerId, accountId: entry.accountId });
+		setAuthModalOpen(true);
+	}, []);
+
+	const handleDismissError = useCallback((id: string) => {
+		setProviderErrors((current) => current.filter((entry) => entry.id !== id));
+	}, []);
 
-	const accountName = user
-		? `${user.firstName} ${user.lastName}`.trim()
-		: undefined;
+	const handleCancelDownload = useCallback(() => {
+		downloadController.current?.abort();
+	}, []);
 
 	const buildSummaryPayload = useCallback(
-		(ridesForPayload: NormalizedRide[]) => ({
-			selectedCount: ridesForPayload.length,
-			totalAmount: ridesForPayload.reduce((s, r) => s + r.totalAmount, 0),
-			currency: ridesForPayload[0]?.currency || summary.currency,
-			rides: ridesForPayload.map((r) => ({
-				rideId: r.rideId,
-				startTime: r.startTime,
-				endTime: r.endTime,
-				startLocation: r.startLocation,
-				endLocation: r.endLocation,
-				totalAmount: r.totalAmount,
-				currency: r.currency,
-				driverName: r.driverName,
-				vehicleType: r.vehicleType,
-				status: r.status,
-				invoiceUrl: "",
-			})),
-		}),
-		[summary.currency],
+		(ridesForPayload: NormalizedRide[]) => {
+			const { rides: converted, conversion } = convertRides(
+				ridesForPayload,
+				exchangeRates,
+			);
+			return {
+				selectedCount: ridesForPayload.length,
+				totals: getCurrencyTotals(ridesForPayload),
+				conversion,
+				rides: converted.map((r) => ({
+					rideId: r.rideId,
+					startTime: r.startTime,
+					endTime: r.endTime,
+					startLocation: r.startLocation,
+					endLocation: r.endLocation,
+					totalAmount: r.totalAmount,
+					currency: r.currency,
+					driverName: r.driverName,
+					vehicleType: r.vehicleType,
+					status: r.status,
+					provider: getProvider(r.provider).name,
+					account: r.accountLabel,
+					distanceKm: r.distanceKm,
+					durationMinutes: r.durationMinutes,
+					exchangeRate: r.exchangeRate,
+					convertedAmount: r.convertedAmount,
+					invoiceUrl: "",
+				})),
+			};
+		},
+		[exchangeRates],
 	);
 
-	// Download report handler (summary + all receipts) — receiptPdf providers only
+	// Download report handler (summary + all receipts) — receiptPdf providers only.
+	// Every selected ride stays in the summary table, including rides from
+	// providers without receipts and rides whose receipt failed.
 	const handleDownloadReport = useCallback(async () => {
-		if (!auth || summary.selectedCount === 0 || !provider.fetchReceiptPdfs)
-			return;
+		if (summary.selectedCount === 0 || !supportsReceiptPdf) return;
 
 		setIsDownloading(true);
 		try {
-			const pdfs = await provider.fetchReceiptPdfs(auth, summary.rides);
-			const validPdfs = pdfs.filter(
-				(pdf): pdf is { rideId: string; pdfBase64: string } =>
-					pdf.pdfBase64 !== null,
-			);
-
-			if (validPdfs.length === 0) {
-				console.error("No PDFs were successfully fetched");
-				return;
-			}
-
-			const pdfSummary = buildSummaryPayload(
-				summary.rides.filter((r) =>
-					validPdfs.some((p) => p.rideId === r.rideId),
-				),
-			);
-			const mergedPdf = await generateSummaryPdf(
-				pdfSummary,
+			const receiptPdfs = await fetchReceiptPdfs(summary.rides);
+			const { pdf, receipts } = await generateSummaryPdf(
+				buildSummaryPayload(summary.rides),
 				accountName,
-				validPdfs,
-				`${provider.name} Expense Summary`,
+				receiptPdfs,
+				summaryTitle,
+				pdfTemplate,
+				{ placeholderPages: pdfTemplates.placeholderPages },
 			);
 
-			const filename = `${provider.id}_expenses_${format(new Date(), "yyyy-MM-dd")}.pdf`;
-			downloadBlob(mergedPdf, filename, "application/pdf");
+			const filename = `${viewId}_expenses_${format(new Date(), "yyyy-MM-dd")}.pdf`;
+			downloadBlob(pdf, filename, "application/pdf");
+			setReceiptResults({
+				kind: "report",
+				outcomes: receipts,
+				rides: summary.rides,
+			});
 		} catch (error) {
+			if (error instanceof DownloadCancelledError) return;
 			console.error("Failed to download receipts:", error);
 		} finally {
 			setIsDownloading(false);
 		}
-	}, [auth, summary, provider, accountName, buildSummaryPayload]);
+	}, [
+		summary,
+		supportsReceiptPdf,
+		fetchReceiptPdfs,
+		summaryTitle,
+		pdfTemplate,
+		pdfTemplates.placeholderPages,
+		viewId,
+		accountName,
+		buildSummaryPayload,
+	]);
 
 	// Download invoices handler (receipts only, no summary) — receiptPdf providers only
 	const handleDownloadInvoices = useCallback(async () => {
-		if (!auth || summary.selectedCount === 0 || !provider.fetchReceiptPdfs)
-			return;
+		if (summary.selectedCount === 0 || !supportsReceiptPdf) return;
 
 		setIsDownloading(true);
 		try {
-			const pdfs = await provider.fetchReceiptPdfs(auth, summary.rides);
-			const validPdfs = pdfs.filter(
-				(pdf): pdf is { rideId: string; pdfBase64: string } =>
-					pdf.pdfBase64 !== null,
+			const receiptRides = summary.rides.filter(
+				(r) => getProvider(r.provider).capabilities.receiptPdf,
+			);
+			const receipts = await loadReceiptPdfs(
+				receiptRides.map((r) => r.rideId),
+				await fetchReceiptPdfs(receiptRides),
 			);
-
-			if (validPdfs.length === 0) {
-				console.error("No PDFs were successfully fetched");
-				return;
-			}
 
 			const { PDFDocument } = await import("pdf-lib");
 			const mergedPdf = await PDFDocument.create();
 
-			for (const pdfData of validPdfs) {
+			for (const [rideId, receipt] of receipts) {
+				if (!receipt.pdf) continue;
 				try {
-					const pdfBytes = Uint8Array.from(atob(pdfData.pdfBase64), (c) =>
-						c.charCodeAt(0),
-					);
-					const pdfToMerge = await PDFDocument.load(pdfBytes);
 					const copiedPages = await mergedPdf.copyPages(
-						pdfToMerge,
-						pdfToMerge.getPageIndices(),
+						receipt.pdf,
+						receipt.pdf.getPageIndices(),
 					);
 					for (const page of copiedPages) {
 						mergedPdf.addPage(page);
 					}
 				} catch (error) {
-					console.error(
-						`Failed to merge PDF for ride ${pdfData.rideId}:`,
-						error,
-					);
+					console.error(`Failed to merge PDF for ride ${rideId}:`, error);
+					receipt.outcome = {
+						rideId,
+						status: "merge-failed",
+						error: `The receipt could not be merged: ${error instanceof Error ? error.message : "Unknown error"}`,
+					};
 				}
 			}
 
-			const mergedPdfBytes = await mergedPdf.save();
-			const filename = `${provider.id}_invoices_${format(new Date(), "yyyy-MM-dd")}.pdf`;
-			downloadBlob(mergedPdfBytes, filename, "application/pdf");
+			if (mergedPdf.getPageCount() > 0) {
+				const mergedPdfBytes = await mergedPdf.save();
+				const filename = `${viewId}_invoices_${format(new Date(), "yyyy-MM-dd")}.pdf`;
+				downloadBlob(mergedPdfBytes, filename, "application/pdf");
+			}
+			setReceiptResults({
+				kind: "invoices",
+				outcomes: Array.from(receipts.values(), (r) => r.outcome),
+				rides: receiptRides,
+			});
 		} catch (error) {
+			if (error instanceof DownloadCancelledError) return;
 			console.error("Failed to download invoices:", error);
 		} finally {
 			setIsDownloading(false);
 		}
-	}, [auth, summary, provider]);
+	}, [summary, supportsReceiptPdf, fetchReceiptPdfs, viewId]);
+
+	// Download ZIP handler (one file per receipt, plus optional summaries) —
+	// receiptPdf providers only
+	const handleDownloadZip = useCallback(
+		async (settings: ZipExportSettings) => {
+			if (summary.selectedCount === 0 || !supportsReceiptPdf) return;
+			saveZipExport(settings);
+			setZipExport(settings);
+
+			setIsDownloading(true);
+			try {
+				const payload = buildSummaryPayload(summary.rides);
+				const receiptRides = summary.rides.filter(
+					(r) => getProvider(r.provider).capabilities.receiptPdf,
+				);
+				const receipts = await loadReceiptPdfs(
+					receiptRides.map((r) => r.rideId),
+					await fetchReceiptPdfs(receiptRides),
+				);
+
+				const used = new Set<string>();
+				const entries: ZipEntry[] = [];
+				// Number receipts by their place in the whole selection
+				payload.rides.forEach((ride, index) => {
+					const files = receipts.get(ride.rideId)?.files ?? [];
+					files.forEach((data, part) => {
+						const name = formatReceiptFilename(
+							settings.filenamePattern,
+							ride,
+							index,
+							payload.rides.length,
+							files.length > 1 ? part + 1 : undefined,
+						);
+						entries.push({ name: uniqueFilename(name, used), data });
+					});
+				});
+
+				const date = format(new Date(), "yyyy-MM-dd");
+				if (settings.includeSummaryPdf) {
+					const { pdf } = await generateSummaryPdf(
+						payload,
+						accountName,
+						undefined,
+						summaryTitle,
+						pdfTemplate,
+					);
+					entries.push({
+						name: uniqueFilename(`${viewId}_summary_${date}.pdf`, used),
+						data: pdf,
+					});
+				}
+				if (settings.includeCsv) {
+					entries.push({
+						name: uniqueFilename(`${viewId}_expenses_${date}.csv`, used),
+						data: generateCsv(payload),
+					});
+				}
+
+				if (entries.length > 0) {
+					const filename = `${viewId}_receipts_${date}.zip`;
+					downloadBlob(createZip(entries), filename, "application/zip");
+				}
+				setReceiptResults({
+					kind: "archive",
+					// Files pdf-lib cannot read still go into the archive as downloaded
+					outcomes: Array.from(receipts.values(), (r) =>
+						r.files?.length
+							? { rideId: r.outcome.rideId, status: "merged" }
+							: r.outcome,
+					),
+					rides: receiptRides,
+				});
+			} catch (error) {
+				if (error instanceof DownloadCancelledError) return;
+				console.error("Failed to download ZIP:", error);
+			} finally {
+				setIsDownloading(false);
+			}
+		},
+		[
+			summary,
+			supportsReceiptPdf,
+			fetchReceiptPdfs,
+			summaryTitle,
+			pdfTemplate,
+			viewId,
+			accountName,
+			buildSummaryPayload,
+		],
+	);
 
 	// Download summary PDF handler (all providers)
 	const handleDownloadSummaryPdf = useCallback(async () => {
 		if (summary.selectedCount === 0) return;
 		const pdfSummary = buildSummaryPayload(summary.rides);
-		const pdfBytes = await generateSummaryPdf(
+		const { pdf } = await generateSummaryPdf(
 			pdfSummary,
 			accountName,
 			undefined,
-			`${provider.name} Expense Summary`,
+			summaryTitle,
+			pdfTemplate,
 		);
-		const filename = `${provider.id}_summary_${format(new Date(), "yyyy-MM-dd")}.pdf`;
-		downloadBlob(pdfBytes, filename, "application/pdf");
-	}, [summary, accountName, provider.id, provider.name, buildSummaryPayload]);
+		const filename = `${viewId}_summary_${format(new Date(), "yyyy-MM-dd")}.pdf`;
+		downloadBlob(pdf, filename, "application/pdf");
+	}, [
+		summary,
+		accountName,
+		viewId,
+		summaryTitle,
+		pdfTemplate,
+		buildSummaryPayload,
+	]);
 
 	// Download CSV handler (all providers)
 	const handleDownloadCsv = useCallback(() => {
 		if (summary.selectedCount === 0) return;
 		const csv = generateCsv(buildSummaryPayload(summary.rides));
-		const filename = `${provider.id}_expenses_${format(new Date(), "yyyy-MM-dd")}.csv`;
+		const filename = `${viewId}_expenses_${format(new Date(), "yyyy-MM-dd")}.csv`;
 		downloadBlob(csv, filename, "text/csv");
-	}, [summary, provider.id, buildSummaryPayload]);
+	}, [summary, viewId, buildSummaryPayload]);
 
-	const ProviderIcon = provider.icon;
+	const ProviderIcon = provider?.icon ?? Layers;
 
 	return (
 		<div className="min-h-screen bg-background">
@@ -330,14 +1137,37 @@ function ReceiptsDashboard() {
 				user={user}
 				isAuthenticated={isAuthenticated}
 				providers={PROVIDER_LIST}
-				selectedProviderId={providerId}
+				connectedProviderIds={connectedProviders.map((p) => p.id)}
+				selectedProviderId={selection}
 				onSelectProvider={handleSelectProvider}
-				onOpenAuthModal={() => setAuthModalOpen(true)}
+				onOpenAuthModal={openAuthModal}
+				accounts={(providerAccounts?.accounts ?? []).map((a) => ({
+					id: a.id,
+					label: getAccountLabel(a),
+				}))}
+				activeAccountId={providerAccounts?.activeAccountId ?? null}
+				onSelectAccount={handleSelectAccount}
+				onAddAccount={handleAddAccount}
 				onLogout={handleLogout}
+				onOpenCredentialSecurity={() => setCredentialSecurityOpen(true)}
+				onLock={
+					credentialSecurity.encryption && !isLocked ? handleLock : undefined
+				}
+			/>
+
+			<UnlockCredentialsDialog
+				open={isLocked}
+				onUnlock={handleUnlock}
+				onForget={handleForgetCredentials}
 			/>
 
 			<AuthSetupModal
-				provider={provider}
+				provider={getProvider(authTarget.providerId)}
+				accountLabel={
+					sessions[authTarget.providerId]?.accounts.find(
+						(a) => a.id === authTarget.accountId,
+					)?.label
+				}
 				onAuthSuccess={handleAuthSuccess}
 				open={authModalOpen}
 				onOpenChange={setAuthModalOpen}
@@ -360,6 +1190,27 @@ function ReceiptsDashboard() {
 										dateRange={dateRange}
 										onDateRangeChange={setDateRange}
 									/>
+									{!isAllView && userProfiles.length > 1 && (
+										<div className="flex items-center gap-1 rounded-lg border bg-muted/30 p-1">
+											{[
+												{ id: "all", name: "All profiles" },
+												...userProfiles,
+											].map((profile) => (
+												<button
+													key={profile.id}
+													type="button"
+													onClick={() => setProfileId(profile.id)}
+													className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${
+														(selectedProfile?.id ?? "all") === profile.id
+															? "bg-background text-foreground shadow-sm"
+															: "text-muted-foreground hover:text-foreground"
+													}`}
+												>
+													{profile.name}
+												</button>
+											))}
+										</div>
+									)}
 									<Button
 										onClick={handleFetchRides}
 										disabled={isLoadingRides || !dateRange.from}
@@ -395,6 +1246,14 @@ function ReceiptsDashboard() {
 					</Card>
 				)}
 
+				<ProviderErrorBanners
+					errors={providerErrors}
+					onReconnect={handleReconnect}
+					onRetry={handleFetchRides}
+					onDismiss={handleDismissError}
+					isRetrying={isLoadingRides}
+				/>
+
 				{/* Rides Table */}
 				{hasSearched && (
 					<Card>
@@ -412,14 +1271,42 @@ function ReceiptsDashboard() {
 									onSortingChange={setSorting}
 									statusFilter={statusFilter}
 									onStatusFilterChange={setStatusFilter}
+									showProvider={isAllView}
 								/>
 							)}
 						</CardContent>
 					</Card>
 				)}
 
+				{/* Empty State - All view with nothing connected */}
+				{!isAuthenticated && isAllView && (
+					<Card>
+						<CardContent className="flex flex-col items-center justify-center py-16">
+							<ProviderIcon className="h-16 w-16 text-muted-foreground mb-4" />
+							<h3 className="text-xl font-semibold mb-2">
+								Connect a Provider Account
+							</h3>
+							<p className="text-muted-foreground text-center max-w-md mb-6">
+								The All view merges rides from every connected account. Connect
+								at least one provider to get started.
+							</p>
+							<div className="flex flex-wrap justify-center gap-2">
+								{PROVIDER_LIST.map((p) => (
+									<Button
+										key={p.id}
+										variant="outline"
+										onClick={() => openAuthModal(p.id)}
+									>
+										Connect {p.name}
+									</Button>
+								))}
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
 				{/* Empty State - Not Authenticated */}
-				{!isAuthenticated && (
+				{!isAuthenticated && provider && (
 					<Card>
 						<CardContent className="flex flex-col items-center justify-center py-16">
 							<ProviderIcon className="h-16 w-16 text-muted-foreground mb-4" />
@@ -430,7 +1317,7 @@ function ReceiptsDashboard() {
 								To view and download your ride receipts, you need to connect
 								your {provider.name} account.
 							</p>
-							<Button onClick={() => setAuthModalOpen(true)}>
+							<Button onClick={() => openAuthModal()}>
 								Connect {provider.name} Account
 							</Button>
 						</CardContent>
@@ -445,7 +1332,10 @@ function ReceiptsDashboard() {
 							<h3 className="text-xl font-semibold mb-2">Ready to Fetch</h3>
 							<p className="text-muted-foreground text-center max-w-md">
 								Select a date range above and click "Fetch Rides" to load your{" "}
-								{provider.name} ride history.
+								{provider
+									? provider.name
+									: connectedProviders.map((p) => p.name).join(", ")}{" "}
+								ride history.
 							</p>
 						</CardContent>
 					</Card>
@@ -457,15 +1347,69 @@ function ReceiptsDashboard() {
 				<SelectionSummary
 					summary={summary}
 					isLoading={isDownloading}
+					downloadProgress={downloadProgress}
+					onCancelDownload={handleCancelDownload}
 					userName={accountName}
-					providerName={provider.name}
-					supportsReceiptPdf={provider.capabilities.receiptPdf}
+					providerName={viewName}
+					supportsReceiptPdf={supportsReceiptPdf}
 					onDownloadReport={handleDownloadReport}
 					onDownloadInvoices={handleDownloadInvoices}
+					onDownloadZip={() => setZipExportOpen(true)}
 					onDownloadSummaryPdf={handleDownloadSummaryPdf}
 					onDownloadCsv={handleDownloadCsv}
+					onOpenExchangeRates={() => setExchangeRatesOpen(true)}
+					pdfTemplates={pdfTemplates.templates}
+					selectedPdfTemplateId={pdfTemplate.id}
+					onSelectPdfTemplate={handleSelectPdfTemplate}
+					onOpenPdfTemplates={() => setPdfTemplatesOpen(true)}
+					placeholderPages={pdfTemplates.placeholderPages}
+					onPlaceholderPagesChange={(placeholderPages) =>
+						handleSavePdfTemplates({ ...pdfTemplates, placeholderPages })
+					}
 				/>
 			)}
+
+			<CredentialSecurityDialog
+				security={credentialSecurity}
+				onSave={handleSaveCredentialSecurity}
+				open={credentialSecurityOpen}
+				onOpenChange={setCredentialSecurityOpen}
+			/>
+
+			<ExchangeRatesDialog
+				settings={exchangeRates}
+				onSave={handleSaveExchangeRates}
+				suggestedCurrencies={summary.totals.map((t) => t.currency)}
+				open={exchangeRatesOpen}
+				onOpenChange={setExchangeRatesOpen}
+			/>
+
+			<PdfTemplatesDialog
+				settings={pdfTemplates}
+				onSave={handleSavePdfTemplates}
+				open={pdfTemplatesOpen}
+				onOpenChange={setPdfTemplatesOpen}
+			/>
+
+			<ZipExportDialog
+				settings={zipExport}
+				onDownload={handleDownloadZip}
+				previewRide={buildSummaryPayload(summary.rides.slice(0, 1)).rides[0]}
+				selectedCount={summary.selectedCount}
+				open={zipExportOpen}
+				onOpenChange={setZipExportOpen}
+			/>
+
+			<ReceiptResultsDialog
+				kind={receiptResults?.kind ?? "report"}
+				outcomes={receiptResults?.outcomes ?? []}
+				rides={receiptResults?.rides ?? []}
+				placeholderPages={pdfTemplates.placeholderPages}
+				open={receiptResults !== null}
+				onOpenChange={(open) => {
+					if (!open) setReceiptResults(null);
+				}}
+			/>
 		</div>
 	);
 }
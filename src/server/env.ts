@@ -0,0 +1,9 @@
+/**
+ * A server environment variable, or undefined when unset or empty. Safe to
+ * call from modules that are also bundled for the browser, where there is
+ * no `process`.
+ */
+export function readEnv(name: string): string | undefined {
+	if (typeof process === "undefined") return undefined;
+	return process.env[name] || undefined;
+}
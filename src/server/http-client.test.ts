@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { ProviderErrorKind } from "@/providers/provider-errors";
+import { ProviderSchemaError } from "@/providers/response-schemas";
+import type { ProviderId } from "@/providers/types";
+import { startStubServer } from "@/test/stub-server";
+import {
+	createHttpClient,
+	type HttpLogEntry,
+	NO_RETRY,
+	ProviderHttpError,
+	redactHeaders,
+	redactUrl,
+	toProviderError,
+} from "./http-client";
+
+// "/slow" answers after 200ms
+const { url, hits } = startStubServer({
+	slow: async () => {
+		await Bun.sleep(200);
+		return Response.json({ ok: true });
+	},
+});
+
+let logs: HttpLogEntry[] = [];
+const client = createHttpClient({
+	provider: "uber",
+	name: "Uber",
+	retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+	log: (entry) => logs.push(entry),
+});
+
+/** The rejection of `promise`, which must reject. */
+async function rejection(
+	promise: Promise<unknown>,
+): Promise<ProviderHttpError> {
+	try {
+		await promise;
+	} catch (error) {
+		expect(error).toBeInstanceOf(ProviderHttpError);
+		return error as ProviderHttpError;
+	}
+	throw new Error("Expected the request to fail");
+}
+
+beforeEach(() => {
+	logs = [];
+});
+
+describe("createHttpClient", () => {
+	test("retries server errors and returns the parsed body", async () => {
+		const body = await client.json<{ ok: boolean }>({
+			url: url("/status/502?failures=2"),
+		});
+		expect(body).toEqual({ ok: true });
+		expect(logs.map((entry) => entry.status)).toEqual([502, 502, 200]);
+	});
+
+	test("throws a typed error for a status that is not worth retrying", async () => {
+		const error = await rejection(client.json({ url: url("/missing") }));
+		expect(error).toMatchObject({
+			provider: "uber",
+			kind: "status",
+			status: 404,
+			retryable: false,
+			message: "Uber API error: 404 Not Found",
+		});
+		expect(hits.get("/missing")).toBe(1);
+	});
+
+	test("marks errors left after the last retry as retryable", async () => {
+		const error = await rejection(
+			client.request({ url: url("/status/429?failures=10") }),
+		);
+		expect(error).toMatchObject({ status: 429, retryable: true });
+		expect(hits.get("/status/429")).toBe(3);
+	});
+
+	test("times out each attempt", async () => {
+		const error = await rejection(
+			client.request({
+				url: url("/slow"),
+				timeoutMs: 20,
+				retry: NO_RETRY,
+				label: "receipt download",
+			}),
+		);
+		expect(error).toMatchObject({
+			kind: "timeout",
+			status: undefined,
+			retryable: true,
+			message: "Uber receipt download request timed out after 20ms",
+		});
+		expect(logs[0].error).toBe("timeout");
+	});
+
+	test("logs requests without their credentials", async () => {
+		await client.request({
+			url: url("/status/200?contentType=PDF&token=s3cr3t"),
+			method: "POST",
+			headers: {
+				cookie: "sid=s3cr3t",
+				"x-csrf-token": "s3cr3t",
+				accept: "*/*",
+			},
+		});
+		expect(JSON.stringify(logs)).not.toContain("s3cr3t");
+		expect(logs[0]).toMatchObject({
+			method: "POST",
+			attempt: 1,
+			status: 200,
+			headers: { cookie: "[redacted]", accept: "*/*" },
+		});
+	});
+});
+
+describe("redaction", () => {
+	test("redactUrl keeps harmless query values only", () => {
+		expect(
+			redactUrl(
+				"https://example.com/trips/1/receipt?contentType=PDF&X-Amz-Signature=abc",
+			),
+		).toBe(
+			"https://example.com/trips/1/receipt?contentType=PDF&X-Amz-Signature=[redacted]",
+		);
+		expect(redactUrl("not a url")).toBe("[redacted]");
+	});
+
+	test("redactHeaders hides credential headers in any case", () => {
+		expect(
+			redactHeaders({ Authorization: "Bearer abc", "content-type": "json" }),
+		).toEqual({ Authorization: "[redacted]", "content-type": "json" });
+	});
+});
+
+describe("toProviderError", () => {
+	const httpError = (
+		status: number | undefined,
+		retryable: boolean,
+		provider: ProviderId = "uber",
+	) =>
+		new ProviderHttpError(
+			provider,
+			status === undefined ? "timeout" : "status",
+			status,
+			retryable,
+			"failed",
+		);
+
+	test.each<[unknown, ProviderErrorKind]>([
+		[httpError(401, false), "auth-expired"],
+		[httpError(403, false), "auth-expired"],
+		[httpError(429, true), "rate-limited"],
+		[httpError(503, true), "network"],
+		[httpError(undefined, true), "network"],
+		[httpError(404, false), "auth-expired"],
+		[httpError(404, false, "rapido"), "network"],
+		[httpError(400, false), "network"],
+		[new ProviderSchemaError("uber", [], "Uber"), "schema-changed"],
+		[new SyntaxError("Unexpected token <"), "schema-changed"],
+		[new TypeError("Cannot read properties of null"), "schema-changed"],
+		[new Error("fetch failed"), "network"],
+	])("classifies %p as %s", (error, kind) => {
+		expect(toProviderError(error).kind).toBe(kind);
+	});
+});
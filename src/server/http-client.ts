@@ -0,0 +1,324 @@
+import {
+	DownloadCancelledError,
+	type FetchFn,
+	fetchWithRetry,
+	isRetryableStatus,
+} from "@/lib/download-scheduler";
+import type { ProviderError } from "@/providers/provider-errors";
+import { ProviderSchemaError } from "@/providers/response-schemas";
+import type { ProviderId } from "@/providers/types";
+
+/**
+ * How a provider request failed: the provider answered with an error
+ * status, did not answer in time, or could not be reached.
+ */
+export type ProviderHttpErrorKind = "status" | "timeout" | "network";
+
+/**
+ * Error thrown by the provider HTTP client. `retryable` says whether trying
+ * again later may help (rate limiting, server errors, timeouts, network
+ * failures); it is still set after the client's own retries ran out.
+ */
+export class ProviderHttpError extends Error {
+	constructor(
+		public provider: ProviderId,
+		public kind: ProviderHttpErrorKind,
+		public status: number | undefined,
+		public retryable: boolean,
+		message: string,
+		options?: { cause?: unknown },
+	) {
+		super(message, options);
+		this.name = "ProviderHttpError";
+	}
+}
+
+/**
+ * Statuses that mean the session is no longer valid. Uber answers requests
+ * with an expired cookie with 404 rather than 401.
+ */
+function isAuthFailure(provider: ProviderId, status: number): boolean {
+	return (
+		status === 401 || status === 403 || (provider === "uber" && status === 404)
+	);
+}
+
+/**
+ * Classify a failed provider call for the dashboard. HTTP failures map by
+ * status, and any other failed request counts as a network problem;
+ * responses that do not parse or lack expected fields mean the provider
+ * changed its API.
+ */
+export function toProviderError(error: unknown): ProviderError {
+	const message = error instanceof Error ? error.message : "Unknown error";
+	if (error instanceof ProviderHttpError) {
+		if (
+			error.status !== undefined &&
+			isAuthFailure(error.provider, error.status)
+		) {
+			return { kind: "auth-expired", message, status: error.status };
+		}
+		if (error.status === 429) return { kind: "rate-limited", message };
+		return { kind: "network", message };
+	}
+	if (
+		error instanceof ProviderSchemaError ||
+		error instanceof SyntaxError ||
+		error instanceof TypeError
+	) {
+		return { kind: "schema-changed", message };
+	}
+	return { kind: "network", message };
+}
+
+/** How often and how patiently a request is retried. */
+export interface RetryPolicy {
+	/** Retries after the first attempt; 0 disables retrying. */
+	retries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+}
+
+/** Reads are safe to repeat: retry rate limiting, 5xx, timeouts and network errors. */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: 3,
+	baseDelayMs: 500,
+	maxDelayMs: 10_000,
+};
+
+export const NO_RETRY: RetryPolicy = {
+	retries: 0,
+	baseDelayMs: 0,
+	maxDelayMs: 0,
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** One finished attempt, as passed to the logger. Never holds secrets. */
+export interface HttpLogEntry {
+	provider: ProviderId;
+	method: string;
+	/** URL with credential-like query values redacted */
+	url: string;
+	/** Header names, with credential values redacted */
+	headers: Record<string, string>;
+	attempt: number;
+	durationMs: number;
+	status?: number;
+	error?: string;
+}
+
+export interface HttpClientOptions {
+	provider: ProviderId;
+	/** Display name used in error messages, e.g. "Uber". */
+	name: string;
+	/** Per-attempt timeout. Default 30s. */
+	timeoutMs?: number;
+	retry?: RetryPolicy;
+	/** Defaults to the global fetch; tests point this at a stub server. */
+	fetch?: FetchFn;
+	/** Defaults to console.debug for successes and console.warn otherwise. */
+	log?: (entry: HttpLogEntry) => void;
+}
+
+export interface HttpRequest {
+	url: string;
+	method?: "GET" | "POST";
+	headers?: Record<string, string>;
+	body?: string;
+	/** Overrides the client's timeout for this request. */
+	timeoutMs?: number;
+	/** Overrides the client's retry policy for this request. */
+	retry?: RetryPolicy;
+	signal?: AbortSignal;
+	/** What failed, for error messages. Default "API". */
+	label?: string;
+}
+
+export interface HttpClient {
+	/** Resolves with an OK response, or throws ProviderHttpError. */
+	request(request: HttpRequest): Promise<Response>;
+	json<T>(request: HttpRequest): Promise<T>;
+	bytes(request: HttpRequest): Promise<Uint8Array>;
+}
+
+/** Headers whose values are credentials. */
+const SECRET_HEADERS = new Set([
+	"authorization",
+	"cookie",
+	"set-cookie",
+	"x-csrf-token",
+	"x-consumer-username",
+	"user",
+]);
+
+/** Query parameters that are safe to log; every other value is redacted. */
+const SAFE_QUERY_PARAMS = new Set([
+	"contentType",
+	"timestamp",
+	"page_no",
+	"page_size",
+	"limit",
+	"offset",
+]);
+
+const REDACTED = "[redacted]";
+
+/** The URL with every query value not known to be harmless redacted. */
+export function redactUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		for (const key of Array.from(parsed.searchParams.keys())) {
+			if (!SAFE_QUERY_PARAMS.has(key)) parsed.searchParams.set(key, REDACTED);
+		}
+		return decodeURI(parsed.toString());
+	} catch {
+		return REDACTED;
+	}
+}
+
+/** Header names with the values of credential headers redacted. */
+export function redactHeaders(
+	headers: Record<string, string> = {},
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			SECRET_HEADERS.has(name.toLowerCase()) ? REDACTED : value,
+		]),
+	);
+}
+
+function defaultLog(entry: HttpLogEntry): void {
+	const line = `[${entry.provider}] ${entry.method} ${entry.url} → ${
+		entry.status ?? entry.error
+	} (${entry.durationMs}ms, attempt ${entry.attempt})`;
+	if (entry.status !== undefined && entry.status < 400) {
+		console.debug(line);
+	} else {
+		console.warn(line, entry.headers);
+	}
+}
+
+/**
+ * Create the HTTP client a provider's server functions use. Every request
+ * gets a per-attempt timeout, retries per the policy, redacted logging of
+ * each attempt, and a ProviderHttpError when it finally fails.
+ */
+export function createHttpClient(options: HttpClientOptions): HttpClient {
+	const {
+		provider,
+		name,
+		timeoutMs: clientTimeoutMs = DEFAULT_TIMEOUT_MS,
+		retry: clientRetry = DEFAULT_RETRY_POLICY,
+		fetch: fetchFn = fetch,
+		log = defaultLog,
+	} = options;
+
+	async function request(req: HttpRequest): Promise<Response> {
+		const method = req.method ?? "GET";
+		const timeoutMs = req.timeoutMs ?? clientTimeoutMs;
+		const label = `${name} ${req.label ?? "API"}`;
+		const logged = {
+			provider,
+			method,
+			url: redactUrl(req.url),
+			headers: redactHeaders(req.headers),
+		};
+		let attempt = 0;
+
+		// One attempt: fetch with a timeout, then log the outcome
+		const attemptFetch: FetchFn = async (url, init) => {
+			attempt++;
+			const started = Date.now();
+			const timeout = AbortSignal.timeout(timeoutMs);
+			const signal = init.signal
+				? AbortSignal.any([init.signal, timeout])
+				: timeout;
+			try {
+				const response = await fetchFn(url, { ...init, signal });
+				log({
+					...logged,
+					attempt,
+					durationMs: Date.now() - started,
+					status: response.status,
+				});
+				return response;
+			} catch (error) {
+				const timedOut = timeout.aborted && !init.signal?.aborted;
+				log({
+					...logged,
+					attempt,
+					durationMs: Date.now() - started,
+					error: timedOut
+						? "timeout"
+						: error instanceof Error
+							? error.message
+							: "network error",
+				});
+				if (timedOut) {
+					throw new ProviderHttpError(
+						provider,
+						"timeout",
+						undefined,
+						true,
+						`${label} request timed out after ${timeoutMs}ms`,
+					);
+				}
+				throw error;
+			}
+		};
+
+		let response: Response;
+		try {
+			response = await fetchWithRetry(
+				req.url,
+				{ method, headers: req.headers, body: req.body },
+				{
+					...(req.retry ?? clientRetry),
+					signal: req.signal,
+					fetch: attemptFetch,
+				},
+			);
+		} catch (error) {
+			if (
+				error instanceof ProviderHttpError ||
+				error instanceof DownloadCancelledError
+			) {
+				throw error;
+			}
+			throw new ProviderHttpError(
+				provider,
+				"network",
+				undefined,
+				true,
+				`${label} request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+				{ cause: error },
+			);
+		}
+
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new ProviderHttpError(
+				provider,
+				"status",
+				response.status,
+				isRetryableStatus(response.status),
+				`${label} error: ${response.status} ${response.statusText}`,
+			);
+		}
+		return response;
+	}
+
+	return {
+		request,
+		async json<T>(req: HttpRequest): Promise<T> {
+			const response = await request(req);
+			return response.json() as Promise<T>;
+		},
+		async bytes(req: HttpRequest): Promise<Uint8Array> {
+			const response = await request(req);
+			return new Uint8Array(await response.arrayBuffer());
+		},
+	};
+}
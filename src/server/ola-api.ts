@@ -0,0 +1,173 @@
+import { createServerFn } from "@tanstack/react-start";
+import {
+	isOlaPageOlderThanRangeStart,
+	normalizeOlaBooking,
+	normalizeOlaProfile,
+	type OlaBooking,
+	type OlaBookingHistoryPage,
+	type OlaProfileResponse,
+} from "@/providers/ola-normalize";
+import { type ProviderError, partialData } from "@/providers/provider-errors";
+import { filterRidesByDateRange } from "@/providers/ride-filters";
+import type { NormalizedRide, ProviderUser } from "@/providers/types";
+import {
+	createHttpClient,
+	ProviderHttpError,
+	toProviderError,
+} from "./http-client";
+import { createProviderTransport } from "./provider-transport";
+
+const OLA_API_BASE = "https://book.olacabs.com/pwa-services";
+const OLA_PROFILE_URL = `${OLA_API_BASE}/user/profile`;
+const OLA_HISTORY_URL = `${OLA_API_BASE}/booking/history`;
+const PAGE_SIZE = 20;
+/** Safety cap so a bad response can never loop forever. */
+const MAX_PAGES = 100;
+
+/**
+ * Ola credentials stored in the browser: the session cookie header.
+ */
+export interface OlaAuthCredentials {
+	cookie: string;
+}
+
+const olaHttp = createHttpClient({
+	provider: "ola",
+	name: "Ola",
+	fetch: createProviderTransport("ola"),
+});
+
+/**
+ * Makes an authenticated GET request to Ola's PWA API.
+ */
+async function olaGet<T>(auth: OlaAuthCredentials, url: string): Promise<T> {
+	return olaHttp.json<T>({
+		url,
+		method: "GET",
+		headers: {
+			accept: "application/json, text/plain, */*",
+			"accept-language": "en-GB,en;q=0.9",
+			cookie: auth.cookie,
+		},
+	});
+}
+
+/**
+ * Fetch one page of booking history from Ola (newest first, 1-based pages).
+ */
+async function fetchBookingPage(
+	auth: OlaAuthCredentials,
+	page: number,
+): Promise<{ bookings: OlaBooking[]; hasMore: boolean }> {
+	const url = `${OLA_HISTORY_URL}?page_no=${page}&page_size=${PAGE_SIZE}`;
+	const body = await olaGet<OlaBookingHistoryPage>(auth, url);
+	if (body.status !== "SUCCESS") {
+		throw new Error(`Ola API returned status ${body.status}`);
+	}
+	return {
+		bookings: body.response?.bookings ?? [],
+		hasMore: body.response?.has_more ?? false,
+	};
+}
+
+/**
+ * Validate an Ola cookie and resolve the current user.
+ */
+export const fetchOlaUser = createServerFn({ method: "POST" })
+	.inputValidator((data: { auth: OlaAuthCredentials }) => {
+		if (!data.auth?.cookie) {
+			throw new Error("Ola cookie is required");
+		}
+		return data;
+	})
+	.handler(
+		async ({
+			data,
+		}): Promise<{
+			user: ProviderUser | null;
+			error?: string;
+			status?: number;
+		}> => {
+			try {
+				const body = await olaGet<OlaProfileResponse>(
+					data.auth,
+					OLA_PROFILE_URL,
+				);
+				const user = normalizeOlaProfile(body);
+				if (!user) {
+					return {
+						user: null,
+						error: "Session is invalid. Paste a fresh cookie from Ola.",
+					};
+				}
+				return { user };
+			} catch (error) {
+				console.error("Failed to fetch Ola user:", error);
+				const status =
+					error instanceof ProviderHttpError ? error.status : undefined;
+				return {
+					user: null,
+					error: error instanceof Error ? error.message : "Unknown error",
+					status,
+				};
+			}
+		},
+	);
+
+/**
+ * Fetch all bookings within an optional date range, normalized to
+ * NormalizedRide. Pages through history (newest-first) and stops once the
+ * requested range start is passed or Ola reports no more pages.
+ */
+export const fetchOlaRides = createServerFn({ method: "POST" })
+	.inputValidator(
+		(data: { auth: OlaAuthCredentials; fromMs?: number; toMs?: number }) => {
+			if (!data.auth?.cookie) {
+				throw new Error("Ola cookie is required");
+			}
+			return data;
+		},
+	)
+	.handler(
+		async ({
+			data,
+		}): Promise<{
+			rides: NormalizedRide[];
+			error?: ProviderError;
+		}> => {
+			const allBookings: OlaBooking[] = [];
+			const toRides = () =>
+				filterRidesByDateRange(allBookings.map(normalizeOlaBooking), {
+					from: data.fromMs ? new Date(data.fromMs) : undefined,
+					to: data.toMs ? new Date(data.toMs) : undefined,
+				});
+
+			try {
+				for (let page = 1; page <= MAX_PAGES; page++) {
+					const { bookings, hasMore } = await fetchBookingPage(data.auth, page);
+
+					allBookings.push(...bookings);
+
+					// Stop: no more bookings, last page, or page predates range start.
+					if (bookings.length === 0) break;
+					if (!hasMore) break;
+					if (isOlaPageOlderThanRangeStart(bookings, data.fromMs)) break;
+				}
+
+				return { rides: toRides() };
+			} catch (error) {
+				console.error("Failed to fetch Ola rides:", error);
+				const cause = toProviderError(error);
+				// Keep the pages that did load
+				return allBookings.length > 0
+					? {
+							rides: toRides(),
+							error: partialData(
+								`Stopped after ${allBookings.length} bookings: ${cause.message}`,
+								cause,
+							),
+						}
+					: { rides: [], error: cause };
+			}
+		},
+	);
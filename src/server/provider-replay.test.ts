@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { PDFDocument } from "pdf-lib";
+import {
+	configureTransport,
+	getTransportConfig,
+	type TransportConfig,
+} from "./provider-transport";
+import { loadRapidoOrders } from "./rapido-api";
+import { fetchTripReceiptPdfs, loadActivities, loadTripRide } from "./uber-api";
+
+// Runs the provider server code against the scrubbed recordings in
+// /recordings, without credentials or network access.
+const RECORDINGS_DIR = new URL("../../recordings", import.meta.url).pathname;
+const auth = { cookie: "sid=replay", csrfToken: "replay" };
+const CAR_TRIP = "00000000-0000-4000-8000-000000000001";
+const MOTO_TRIP = "00000000-0000-4000-8000-000000000002";
+
+// Synthetic JWT carrying customerId 000000000000000000000000
+const RAPIDO_TOKEN =
+	"eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJfaWQiOiIwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAiLCJmaXJzdE5hbWUiOiJUZXN0IiwibGFzdE5hbWUiOiJVc2VyIiwibW9iaWxlIjoiMDAwMDAwMDAwMCIsImVtYWlsIjoidGVzdEBleGFtcGxlLmNvbSIsInJvbGVzIjpbImN1c3RvbWVyIl0sInVzZXJJZCI6IjAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCIsInNvdXJjZSI6InB3YSIsImlhdCI6MTcwMDAwMDAwMCwiaXNzIjoidGVzdC1pc3N1ZXIifQ.signature";
+
+const window = {
+	startTimeMs: Date.UTC(2024, 11, 1),
+	endTimeMs: Date.UTC(2025, 0, 31),
+};
+
+let previous: TransportConfig;
+
+beforeAll(() => {
+	previous = getTransportConfig();
+	configureTransport({ mode: "replay", dir: RECORDINGS_DIR });
+});
+
+afterAll(() => {
+	configureTransport(previous);
+});
+
+describe("Uber replay", () => {
+	test("loads an activities page", async () => {
+		const result = await loadActivities({ auth, ...window });
+		expect(result.error).toBeUndefined();
+		expect(result.nextPageToken).toBeNull();
+		expect(result.activities.map((ride) => ride.rideId)).toEqual([
+			CAR_TRIP,
+			MOTO_TRIP,
+			"00000000-0000-4000-8000-000000000003",
+		]);
+		expect(result.activities[0].startLocation).toBe(
+			"1 Example Road, Example City",
+		);
+	});
+
+	test("loads trip details", async () => {
+		const ride = await loadTripRide(auth, CAR_TRIP);
+		expect(ride).toMatchObject({
+			rideId: CAR_TRIP,
+			driverName: "Test Driver",
+			totalAmount: 123456,
+			currency: "INR",
+			distanceKm: 412.3,
+		});
+	});
+
+	test("downloads every invoice file, and the receipt for autos", async () => {
+		const invoices = await fetchTripReceiptPdfs(auth, {
+			tripUUID: CAR_TRIP,
+			isAutoRide: false,
+		});
+		expect(invoices).toHaveLength(2);
+		const pdf = await PDFDocument.load(Buffer.from(invoices[0], "base64"));
+		expect(pdf.getPageCount()).toBe(1);
+
+		const receipt = await fetchTripReceiptPdfs(auth, {
+			tripUUID: MOTO_TRIP,
+			isAutoRide: true,
+		});
+		expect(receipt).toHaveLength(1);
+	});
+
+	test("reports requests that were never recorded", async () => {
+		const result = await loadActivities({ auth, startTimeMs: 1 });
+		expect(result.activities).toEqual([]);
+		expect(result.error?.message).toBe("Uber API error: 404 No recording");
+	});
+});
+
+describe("Rapido replay", () => {
+	test("loads orders within the range", async () => {
+		const result = await loadRapidoOrders({
+			auth: { token: RAPIDO_TOKEN },
+			fromMs: window.startTimeMs,
+			toMs: window.endTimeMs,
+		});
+		expect(result.error).toBeUndefined();
+		expect(
+			result.rides.map((ride) => [ride.rideId, ride.status, ride.totalAmount]),
+		).toEqual([
+			["000000000000000000000101", "COMPLETED", 142],
+			["000000000000000000000102", "CANCELLED", 0],
+		]);
+	});
+});
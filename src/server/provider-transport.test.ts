@@ -0,0 +1,164 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	configureTransport,
+	createProviderTransport,
+	getTransportConfig,
+	scrubJson,
+	scrubText,
+	type TransportConfig,
+	toRecordedRequest,
+} from "./provider-transport";
+
+describe("scrubbing", () => {
+	test("replaces personal fields in any case and nesting", () => {
+		expect(
+			scrubJson({
+				currentUser: {
+					firstName: "Asha",
+					last_name: "Rao",
+					email: "asha@mail.test",
+					rating: "4.9",
+				},
+				trip: { driver: "Ravi", waypoints: ["12 MG Road", "3 Park St"] },
+				fare: 120,
+			}),
+		).toEqual({
+			currentUser: {
+				firstName: "Test",
+				last_name: "Rider",
+				email: "rider@example.com",
+				rating: "4.9",
+			},
+			trip: {
+				driver: "Test Driver",
+				waypoints: [
+					"1 Example Road, Example City",
+					"1 Example Road, Example City",
+				],
+			},
+			fare: 120,
+		});
+	});
+
+	test("scrubs emails, tokens and signed URLs inside other strings", () => {
+		expect(scrubText("Receipt sent to asha@mail.test")).toBe(
+			"Receipt sent to rider@example.com",
+		);
+		expect(scrubText("Bearer eyJhbGc.eyJfaWQ.sig-123")).toBe(
+			"Bearer [redacted]",
+		);
+		expect(scrubText("https://cdn.test/a.pdf?Signature=abc&page_no=2")).toBe(
+			"https://cdn.test/a.pdf?Signature=[redacted]&page_no=2",
+		);
+	});
+
+	test("recorded requests drop volatile values and GraphQL query text", () => {
+		expect(
+			toRecordedRequest(
+				"GET",
+				"https://riders.uber.com/trips/1/receipt?contentType=PDF&timestamp=1700000000000",
+			),
+		).toEqual({
+			method: "GET",
+			url: "https://riders.uber.com/trips/1/receipt?contentType=PDF",
+		});
+		expect(
+			toRecordedRequest(
+				"POST",
+				"https://riders.uber.com/graphql",
+				JSON.stringify({
+					operationName: "GetTrip",
+					query: "query GetTrip { ... }",
+					variables: { tripUUID: "1" },
+				}),
+			).body,
+		).toEqual({ operationName: "GetTrip", variables: { tripUUID: "1" } });
+	});
+});
+
+describe("record and replay", () => {
+	const transport = createProviderTransport("rapido");
+	let previous: TransportConfig;
+	let dir = "";
+	let calls = 0;
+
+	beforeAll(async () => {
+		previous = getTransportConfig();
+		dir = await mkdtemp(join(tmpdir(), "recordings-"));
+		configureTransport({
+			mode: "record",
+			dir,
+			fetch: async () => {
+				calls++;
+				return Response.json({
+					data: { rider: { name: "Ravi" }, amount: 142 },
+				});
+			},
+		});
+	});
+
+	afterAll(async () => {
+		configureTransport({ ...previous, fetch: previous.fetch });
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const request = () =>
+		transport("https://m.rapido.bike/pwa/api/order", {
+			method: "POST",
+			headers: { authorization: "Bearer s3cr3t" },
+			body: JSON.stringify({ customerId: "64f0c0ffee", offset: 0 }),
+		});
+
+	test("record passes the live response through and saves a scrubbed copy", async () => {
+		const response = await request();
+		expect(await response.json()).toEqual({
+			data: { rider: { name: "Ravi" }, amount: 142 },
+		});
+
+		const [file] = await readdir(join(dir, "rapido"));
+		expect(file).toStartWith("order-");
+		const saved = await readFile(join(dir, "rapido", file), "utf8");
+		expect(saved).not.toContain("Ravi");
+		expect(saved).not.toContain("64f0c0ffee");
+		expect(saved).not.toContain("s3cr3t");
+	});
+
+	test("replay answers from the recording without calling out", async () => {
+		configureTransport({ mode: "replay" });
+		const response = await request();
+		expect(await response.json()).toEqual({
+			data: { rider: { name: "Test Person" }, amount: 142 },
+		});
+		expect(calls).toBe(1);
+	});
+
+	test("replay answers 404 for requests never recorded", async () => {
+		configureTransport({ mode: "replay" });
+		const response = await transport("https://m.rapido.bike/pwa/api/other", {
+			method: "GET",
+		});
+		expect(response.status).toBe(404);
+		expect(response.statusText).toBe("No recording");
+	});
+
+	test("requests differing only in redacted query values are kept apart", async () => {
+		configureTransport({ mode: "record" });
+		for (const key of ["first-key", "second-key"]) {
+			await transport(`https://m.rapido.bike/pwa/api/invoice?key=${key}`, {
+				method: "GET",
+			});
+		}
+		const files = (await readdir(join(dir, "rapido"))).filter((file) =>
+			file.startsWith("invoice-"),
+		);
+		expect(files).toHaveLength(2);
+		for (const file of files) {
+			const saved = await readFile(join(dir, "rapido", file), "utf8");
+			expect(saved).toContain("key=[redacted]");
+			expect(saved).not.toContain("-key");
+		}
+	});
+});
@@ -0,0 +1,330 @@
+import { unzipSync, zipSync } from "fflate";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import type { FetchFn } from "@/lib/download-scheduler";
+import type { ProviderId } from "@/providers/types";
+import { readEnv } from "./env";
+import { redactUrl } from "./http-client";
+
+/**
+ * The transport under each provider's HTTP client. "live" calls the
+ * provider; "record" calls it too and saves a scrubbed copy of every
+ * request/response pair; "replay" answers from those copies without any
+ * network access. Set PROVIDER_TRANSPORT=record|replay (and optionally
+ * PROVIDER_RECORDINGS_DIR) before starting the dev server or tests.
+ */
+export type TransportMode = "live" | "record" | "replay";
+
+export interface TransportConfig {
+	mode: TransportMode;
+	/** Where recordings are read and written, one folder per provider. */
+	dir: string;
+	/** What "live" and "record" call. Defaults to the global fetch. */
+	fetch?: FetchFn;
+}
+
+/** A saved request/response pair, with personal data scrubbed. */
+export interface Recording {
+	request: RecordedRequest;
+	response: RecordedResponse;
+}
+
+export interface RecordedRequest {
+	method: string;
+	url: string;
+	/** Parsed JSON body, or the body text. */
+	body?: unknown;
+}
+
+export interface RecordedResponse {
+	status: number;
+	statusText: string;
+	headers: Record<string, string>;
+	/** Set for JSON bodies. */
+	json?: unknown;
+	/** Set for other text bodies. */
+	text?: string;
+	/** Set for PDFs and ZIPs, which are replaced by placeholders. */
+	base64?: string;
+}
+
+/** Read lazily: the module is also loaded where there is no `process`. */
+let config: TransportConfig | null = null;
+
+function configFromEnv(): TransportConfig {
+	const mode = readEnv("PROVIDER_TRANSPORT");
+	return {
+		mode: mode === "record" || mode === "replay" ? mode : "live",
+		dir: readEnv("PROVIDER_RECORDINGS_DIR") ?? `${process.cwd()}/recordings`,
+	};
+}
+
+export function getTransportConfig(): TransportConfig {
+	config ??= configFromEnv();
+	return config;
+}
+
+/** Change the mode or folder for every provider, e.g. from a test. */
+export function configureTransport(next: Partial<TransportConfig>): void {
+	config = { ...getTransportConfig(), ...next };
+}
+
+/** Query values that change on every call without changing the response. */
+const VOLATILE_QUERY_PARAMS = ["timestamp"];
+
+/** Response headers worth replaying; the rest are dropped. */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+const PLACEHOLDER_ADDRESS = "1 Example Road, Example City";
+
+/**
+ * Replacements for personal fields, by key with case and underscores
+ * ignored, so `first_name` and `firstName` both match.
+ */
+const SCRUBBED_FIELDS: Record<string, string> = {
+	firstname: "Test",
+	lastname: "Rider",
+	name: "Test Person",
+	driver: "Test Driver",
+	email: "rider@example.com",
+	formattednumber: "+00 00000 00000",
+	mobile: "0000000000",
+	phone: "0000000000",
+	pictureurl: "https://example.com/picture.png",
+	address: PLACEHOLDER_ADDRESS,
+	pickupaddress: PLACEHOLDER_ADDRESS,
+	dropaddress: PLACEHOLDER_ADDRESS,
+	title: PLACEHOLDER_ADDRESS,
+	waypoints: PLACEHOLDER_ADDRESS,
+	customerid: "000000000000000000000000",
+	userid: "000000000000000000000000",
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+/**
+ * Scrub a string found anywhere: emails and tokens are replaced, and URLs
+ * keep only harmless query values.
+ */
+export function scrubText(value: string): string {
+	if (/^https?:\/\//.test(value)) return redactUrl(value);
+	return value
+		.replace(EMAIL_PATTERN, "rider@example.com")
+		.replace(JWT_PATTERN, "[redacted]");
+}
+
+/**
+ * A copy of a parsed JSON value with personal fields replaced by
+ * placeholders of the same type and every other string scrubbed.
+ */
+export function scrubJson(value: unknown, key?: string): unknown {
+	const replacement =
+		key === undefined
+			? undefined
+			: SCRUBBED_FIELDS[key.replace(/_/g, "").toLowerCase()];
+	if (Array.isArray(value)) {
+		return value.map((item) => scrubJson(item, key));
+	}
+	if (typeof value === "string") {
+		return replacement ?? scrubText(value);
+	}
+	if (typeof value === "object" && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([k, v]) => [k, scrubJson(v, k)]),
+		);
+	}
+	return value;
+}
+
+/** The URL without its volatile query values. */
+function toStableUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		for (const param of VOLATILE_QUERY_PARAMS) {
+			parsed.searchParams.delete(param);
+		}
+		return parsed.toString();
+	} catch {
+		// redactUrl redacts what does not parse
+		return url;
+	}
+}
+
+/**
+ * The scrubbed request saved with a recording, for display. Volatile query
+ * values are dropped, and so is GraphQL query text: the operation name and
+ * variables already say what was asked for.
+ */
+export function toRecordedRequest(
+	method: string,
+	url: string,
+	body?: string,
+): RecordedRequest {
+	const request: RecordedRequest = { method, url: redactUrl(toStableUrl(url)) };
+	if (body === undefined) return request;
+	try {
+		const { query: _query, ...rest } = JSON.parse(body) as Record<
+			string,
+			unknown
+		>;
+		request.body = scrubJson(rest);
+	} catch {
+		request.body = scrubText(body);
+	}
+	return request;
+}
+
+/**
+ * Where the recording for `request`, sent to `url`, lives: named after the
+ * GraphQL operation or the last path segment, plus a hash of the request
+ * with its URL unredacted, so requests that differ only in redacted query
+ * values are kept apart.
+ */
+export async function getRecordingPath(
+	dir: string,
+	provider: ProviderId,
+	request: RecordedRequest,
+	url: string,
+): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(
+			JSON.stringify({ ...request, url: toStableUrl(url) }),
+		),
+	);
+	const hash = Array.from(new Uint8Array(digest).slice(0, 6), (b) =>
+		b.toString(16).padStart(2, "0"),
+	).join("");
+	const operation =
+		typeof request.body === "object" &&
+		request.body !== null &&
+		"operationName" in request.body
+			? String(request.body.operationName)
+			: new URL(request.url, "http://localhost").pathname.split("/").pop();
+	const label = (operation || "request").replace(/[^\w-]+/g, "-");
+	return `${dir}/${provider}/${label}-${hash}.json`;
+}
+
+/** A one-page PDF standing in for a recorded receipt. */
+async function createPlaceholderPdf(): Promise<Uint8Array> {
+	const doc = await PDFDocument.create();
+	const page = doc.addPage([595, 842]);
+	const font = await doc.embedFont(StandardFonts.Helvetica);
+	page.drawText("Recorded receipt placeholder", { x: 50, y: 780, font });
+	return doc.save();
+}
+
+function startsWith(bytes: Uint8Array, text: string): boolean {
+	return Array.from(text).every((char, i) => bytes[i] === char.charCodeAt(0));
+}
+
+/**
+ * Receipts carry names and addresses that cannot be scrubbed in place, so
+ * PDFs become placeholders and ZIPs keep one placeholder per PDF entry.
+ * Returns null for other binary bodies, which are not recorded.
+ */
+async function scrubBinary(bytes: Uint8Array): Promise<Uint8Array | null> {
+	if (startsWith(bytes, "%PDF")) return createPlaceholderPdf();
+	if (startsWith(bytes, "PK")) {
+		const pdfNames = Object.keys(unzipSync(bytes)).filter((name) =>
+			name.toLowerCase().endsWith(".pdf"),
+		);
+		const placeholder = await createPlaceholderPdf();
+		return zipSync(
+			Object.fromEntries(pdfNames.map((_, i) => [`${i + 1}.pdf`, placeholder])),
+		);
+	}
+	return null;
+}
+
+async function toRecordedResponse(
+	response: Response,
+	bytes: Uint8Array,
+): Promise<RecordedResponse> {
+	const headers: Record<string, string> = {};
+	for (const name of RECORDED_HEADERS) {
+		const value = response.headers.get(name);
+		if (value !== null) headers[name] = value;
+	}
+	const recorded: RecordedResponse = {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	};
+
+	const text = new TextDecoder().decode(bytes);
+	if (headers["content-type"]?.includes("json")) {
+		try {
+			recorded.json = scrubJson(JSON.parse(text));
+			return recorded;
+		} catch {
+			// Not actually JSON; fall through
+		}
+	}
+	const binary = await scrubBinary(bytes);
+	if (binary) {
+		recorded.base64 = Buffer.from(binary).toString("base64");
+	} else if (headers["content-type"]?.startsWith("text/")) {
+		recorded.text = scrubText(text);
+	}
+	return recorded;
+}
+
+function toResponse({ response }: Recording): Response {
+	const body =
+		response.json !== undefined
+			? JSON.stringify(response.json)
+			: response.base64 !== undefined
+				? Buffer.from(response.base64, "base64")
+				: (response.text ?? null);
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+/**
+ * The fetch a provider's HTTP client uses, following the configured mode.
+ * Replaying a request that was never recorded answers 404 "No recording".
+ */
+export function createProviderTransport(provider: ProviderId): FetchFn {
+	return async (url, init) => {
+		const { mode, dir, fetch: liveFetch = fetch } = getTransportConfig();
+		if (mode === "live") return liveFetch(url, init);
+
+		const { mkdir, readFile, writeFile } = await import("node:fs/promises");
+		const request = toRecordedRequest(
+			init.method ?? "GET",
+			url,
+			typeof init.body === "string" ? init.body : undefined,
+		);
+		const file = await getRecordingPath(dir, provider, request, url);
+
+		if (mode === "replay") {
+			try {
+				return toResponse(JSON.parse(await readFile(file, "utf8")));
+			} catch {
+				console.warn(`[${provider}] No recording for ${request.url} (${file})`);
+				return new Response("No recording", {
+					status: 404,
+					statusText: "No recording",
+				});
+			}
+		}
+
+		const response = await liveFetch(url, init);
+		const bytes = new Uint8Array(await response.arrayBuffer());
+		const recording: Recording = {
+			request,
+			response: await toRecordedResponse(response, bytes),
+		};
+		await mkdir(file.slice(0, file.lastIndexOf("/")), { recursive: true });
+		await writeFile(file, `${JSON.stringify(recording, null, "\t")}\n`);
+		return new Response(bytes, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+}
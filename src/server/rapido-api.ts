@@ -1,4 +1,5 @@
 import { createServerFn } from "@tanstack/react-start";
+import { type ProviderError, partialData } from "@/providers/provider-errors";
 import {
 	decodeRapidoToken,
 	filterRidesByDateRange,
@@ -7,9 +8,17 @@ import {
 	type RapidoOrder,
 	stripBearerPrefix,
 } from "@/providers/rapido-normalize";
+import {
+	rapidoOrdersSchema,
+	validateResponse,
+} from "@/providers/response-schemas";
 import type { NormalizedRide, ProviderUser } from "@/providers/types";
+import { readEnv } from "./env";
+import { createHttpClient, toProviderError } from "./http-client";
+import { createProviderTransport } from "./provider-transport";
 
-const RAPIDO_ORDER_URL = "https://m.rapido.bike/pwa/api/order";
+/** Set RAPIDO_ORDER_URL to point the app elsewhere, e.g. at the mock server. */
+const DEFAULT_RAPIDO_ORDER_URL = "https://m.rapido.bike/pwa/api/order";
 const PAGE_SIZE = 50;
 /** Safety cap so a bad response can never loop forever. */
 const MAX_PAGES = 100;
@@ -21,15 +30,11 @@ export interface RapidoAuthCredentials {
 	token: string;
 }
 
-class RapidoAPIError extends Error {
-	constructor(
-		public status: number,
-		message: string,
-	) {
-		super(message);
-		this.name = "RapidoAPIError";
-	}
-}
+const rapidoHttp = createHttpClient({
+	provider: "rapido",
+	name: "Rapido",
+	fetch: createProviderTransport("rapido"),
+});
 
 interface RapidoOrderResponse {
 	data?: {
@@ -43,7 +48,10 @@ interface RapidoOrderResponse {
 /**
  * Build the static + dynamic headers Rapido's PWA API expects.
  */
-function buildHeaders(token: string, customerId: string): HeadersInit {
+function buildHeaders(
+	token: string,
+	customerId: string,
+): Record<string, string> {
 	return {
 		accept: "application/json, text/plain, */*",
 		"content-type": "application/json",
@@ -66,20 +74,17 @@ async function fetchOrderPage(
 	customerId: string,
 	offset: number,
 ): Promise<{ orders: RapidoOrder[]; totalCount: number }> {
-	const response = await fetch(RAPIDO_ORDER_URL, {
-		method: "POST",
-		headers: buildHeaders(token, customerId),
-		body: JSON.stringify({ customerId, limit: PAGE_SIZE, offset }),
-	});
-
-	if (!response.ok) {
-		throw new RapidoAPIError(
-			response.status,
-			`Rapido API error: ${response.status} ${response.statusText}`,
-		);
-	}
-
-	const body = (await response.json()) as RapidoOrderResponse;
+	const body = validateResponse<RapidoOrderResponse>(
+		"rapido",
+		"Rapido",
+		rapidoOrdersSchema,
+		await rapidoHttp.json<unknown>({
+			url: readEnv("RAPIDO_ORDER_URL") ?? DEFAULT_RAPIDO_ORDER_URL,
+			method: "POST",
+			headers: buildHeaders(token, customerId),
+			body: JSON.stringify({ customerId, limit: PAGE_SIZE, offset }),
+		}),
+	);
 	const orders = body.data?.data?.orders ?? [];
 	const totalCount = body.data?.data?.meta?.totalCount ?? orders.length;
 	return { orders, totalCount };
@@ -121,70 +126,76 @@ export const fetchRapidoUser = createServerFn({ method: "POST" })
  * Paginates by offset (newest-first) and stops once the requested range start
  * is passed or all orders have been retrieved.
  */
-export const fetchRapidoOrders = createServerFn({ method: "POST" })
-	.inputValidator(
-		(data: { auth: RapidoAuthCredentials; fromMs?: number; toMs?: number }) => {
-			if (!data.auth?.token) {
-				throw new Error("Rapido token is required");
-			}
-			return data;
-		},
-	)
-	.handler(
-		async ({
-			data,
-		}): Promise<{
-			rides: NormalizedRide[];
-			error?: string;
-			status?: number;
-		}> => {
-			const decoded = decodeRapidoToken(data.auth.token);
-			if (!decoded) {
-				return {
-					rides: [],
-					error: "Token is invalid. Paste a fresh Bearer token from Rapido.",
-				};
-			}
+export async function loadRapidoOrders(data: {
+	auth: RapidoAuthCredentials;
+	fromMs?: number;
+	toMs?: number;
+}): Promise<{ rides: NormalizedRide[]; error?: ProviderError }> {
+	const decoded = decodeRapidoToken(data.auth.token);
+	if (!decoded) {
+		return {
+			rides: [],
+			error: {
+				kind: "auth-expired",
+				message: "Token is invalid. Paste a fresh Bearer token from Rapido.",
+			},
+		};
+	}
+
+	const allOrders: RapidoOrder[] = [];
+	const toRides = () =>
+		filterRidesByDateRange(allOrders.map(normalizeRapidoOrder), {
+			from: data.fromMs ? new Date(data.fromMs) : undefined,
+			to: data.toMs ? new Date(data.toMs) : undefined,
+		});
 
-			try {
-				const allOrders: RapidoOrder[] = [];
-				let offset = 0;
+	try {
+		let offset = 0;
 
-				for (let page = 0; page < MAX_PAGES; page++) {
-					const { orders, totalCount } = await fetchOrderPage(
-						data.auth.token,
-						decoded.customerId,
-						offset,
-					);
+		for (let page = 0; page < MAX_PAGES; page++) {
+			const { orders, totalCount } = await fetchOrderPage(
+				data.auth.token,
+				decoded.customerId,
+				offset,
+			);
 
-					allOrders.push(...orders);
+			allOrders.push(...orders);
 
-					// Stop: no more orders, all retrieved, or page predates range start.
-					if (orders.length === 0) break;
-					if (allOrders.length >= totalCount) break;
-					if (isPageOlderThanRangeStart(orders, data.fromMs)) break;
+			// Stop: no more orders, all retrieved, or page predates range start.
+			if (orders.length === 0) break;
+			if (allOrders.length >= totalCount) break;
+			if (isPageOlderThanRangeStart(orders, data.fromMs)) break;
 
-					offset += PAGE_SIZE;
+			offset += PAGE_SIZE;
+		}
+
+		return { rides: toRides() };
+	} catch (error) {
+		console.error("Failed to fetch Rapido orders:", error);
+		const cause = toProviderError(error);
+		// Keep the pages that did load
+		return allOrders.length > 0
+			? {
+					rides: toRides(),
+					error: partialData(
+						`Stopped after ${allOrders.length} orders: ${cause.message}`,
+						cause,
+					),
 				}
+			: { rides: [], error: cause };
+	}
+}
 
-				const rides = filterRidesByDateRange(
-					allOrders.map(normalizeRapidoOrder),
-					{
-						from: data.fromMs ? new Date(data.fromMs) : undefined,
-						to: data.toMs ? new Date(data.toMs) : undefined,
-					},
-				);
-
-				return { rides };
-			} catch (error) {
-				console.error("Failed to fetch Rapido orders:", error);
-				const status =
-					error instanceof RapidoAPIError ? error.status : undefined;
-				return {
-					rides: [],
-					error: error instanceof Error ? error.message : "Unknown error",
-					status,
-				};
+/**
+ * Fetch Rapido orders from the browser; see loadRapidoOrders.
+ */
+export const fetchRapidoOrders = createServerFn({ method: "POST" })
+	.inputValidator(
+		(data: { auth: RapidoAuthCredentials; fromMs?: number; toMs?: number }) => {
+			if (!data.auth?.token) {
+				throw new Error("Rapido token is required");
 			}
+			return data;
 		},
-	);
+	)
+	.handler(({ data }) => loadRapidoOrders(data));
@@ -1,11 +1,32 @@
 import { createServerFn } from "@tanstack/react-start";
+import { runPool } from "@/lib/download-scheduler";
 import {
 	ACTIVITIES_QUERY,
 	buildActivitiesVariables,
 	CURRENT_USER_QUERY,
 	GET_INVOICE_FILES_QUERY,
 	GET_TRIP_QUERY,
+	type UberActivityProfileType,
 } from "@/lib/uber-queries";
+import type { ProviderError } from "@/providers/provider-errors";
+import {
+	type Schema,
+	uberActivitiesSchema,
+	uberGetTripSchema,
+	uberInvoiceFilesSchema,
+	validateResponse,
+} from "@/providers/response-schemas";
+import { normalizeUberActivity } from "@/providers/uber-activity-normalize";
+import {
+	extractArchivePdfs,
+	getInvoiceDownloadURLs,
+	type UberInvoiceFiles,
+} from "@/providers/uber-invoices";
+import {
+	normalizeUberTrip,
+	type UberTripRide,
+} from "@/providers/uber-normalize";
+import type { ReceiptPdfResult } from "@/types/rides";
 import type {
 	TransformedRide,
 	UberActivitiesResponse,
@@ -14,30 +35,47 @@ import type {
 	UberGetTripResponse,
 	UberInvoiceFilesResponse,
 } from "@/types/uber-api";
+import { readEnv } from "./env";
+import {
+	createHttpClient,
+	ProviderHttpError,
+	toProviderError,
+} from "./http-client";
+import { createProviderTransport } from "./provider-transport";
 
-const UBER_GRAPHQL_URL = "https://riders.uber.com/graphql";
+const DEFAULT_UBER_GRAPHQL_URL = "https://riders.uber.com/graphql";
 
 /**
- * Custom error class to include HTTP status code
+ * Uber's GraphQL endpoint. Set UBER_GRAPHQL_URL to point the app elsewhere,
+ * e.g. at the mock server; receipts are fetched from the same origin.
  */
-class UberAPIError extends Error {
-	constructor(
-		public status: number,
-		message: string,
-	) {
-		super(message);
-		this.name = "UberAPIError";
-	}
+function getUberGraphQLUrl(): string {
+	return readEnv("UBER_GRAPHQL_URL") ?? DEFAULT_UBER_GRAPHQL_URL;
 }
 
+/** Trips whose receipts download at once in fetchMultipleReceiptPdfs. */
+const RECEIPT_CONCURRENCY = 4;
+
+/** Receipt PDFs can be slow to render on Uber's side. */
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+const uberHttp = createHttpClient({
+	provider: "uber",
+	name: "Uber",
+	fetch: createProviderTransport("uber"),
+});
+
 /**
- * Makes a GraphQL request to Uber's API
+ * Makes a GraphQL request to Uber's API. With a schema, a response missing
+ * the fields it names throws ProviderSchemaError.
  */
 async function uberGraphQL<T>(
 	auth: UberAuthCredentials,
 	body: object,
+	schema?: Schema,
 ): Promise<T> {
-	const response = await fetch(UBER_GRAPHQL_URL, {
+	const response = await uberHttp.json<T>({
+		url: getUberGraphQLUrl(),
 		method: "POST",
 		headers: {
 			accept: "*/*",
@@ -49,15 +87,9 @@ async function uberGraphQL<T>(
 		},
 		body: JSON.stringify(body),
 	});
-
-	if (!response.ok) {
-		throw new UberAPIError(
-			response.status,
-			`Uber API error: ${response.status} ${response.statusText}`,
-		);
-	}
-
-	return response.json() as Promise<T>;
+	return schema
+		? validateResponse<T>("uber", "Uber", schema, response)
+		: response;
 }
 
 /**
@@ -85,7 +117,8 @@ export const fetchCurrentUser = createServerFn({ method: "POST" })
 				return { user: response.data.currentUser };
 			} catch (error) {
 				console.error("Failed to fetch current user:", error);
-				const status = error instanceof UberAPIError ? error.status : undefined;
+				const status =
+					error instanceof ProviderHttpError ? error.status : undefined;
 				return {
 					user: null,
 					error: error instanceof Error ? error.message : "Unknown error",
@@ -95,6 +128,60 @@ export const fetchCurrentUser = createServerFn({ method: "POST" })
 		},
 	);
 
+/**
+ * Fetch one page of activities (rides)
+ */
+export async function loadActivities(data: {
+	auth: UberAuthCredentials;
+	limit?: number;
+	nextPageToken?: string;
+	startTimeMs?: number;
+	endTimeMs?: number;
+	profileType?: UberActivityProfileType;
+}): Promise<{
+	activities: TransformedRide[];
+	nextPageToken: string | null;
+	error?: ProviderError;
+}> {
+	try {
+		const variables = buildActivitiesVariables({
+			limit: data.limit,
+			nextPageToken: data.nextPageToken,
+			startTimeMs: data.startTimeMs,
+			endTimeMs: data.endTimeMs,
+			profileType: data.profileType,
+		});
+
+		const response = await uberGraphQL<UberActivitiesResponse>(
+			data.auth,
+			{ ...ACTIVITIES_QUERY, variables },
+			uberActivitiesSchema,
+		);
+
+		// Transform activities to our ride format; subtitles carry no
+		// year, so it is inferred from the requested window
+		const activities = response.data.activities.past.activities.map(
+			(activity) =>
+				normalizeUberActivity(activity, {
+					startTimeMs: data.startTimeMs,
+					endTimeMs: data.endTimeMs,
+				}),
+		);
+
+		return {
+			activities,
+			nextPageToken: response.data.activities.past.nextPageToken,
+		};
+	} catch (error) {
+		console.error("Failed to fetch activities:", error);
+		return {
+			activities: [],
+			nextPageToken: null,
+			error: toProviderError(error),
+		};
+	}
+}
+
 /**
  * Fetch activities (rides) with pagination
  */
@@ -106,6 +193,7 @@ export const fetchActivities = createServerFn({ method: "POST" })
 			nextPageToken?: string;
 			startTimeMs?: number;
 			endTimeMs?: number;
+			profileType?: UberActivityProfileType;
 		}) => {
 			if (!data.auth?.cookie || !data.auth?.csrfToken) {
 				throw new Error("Auth credentials are required");
@@ -113,107 +201,21 @@ export const fetchActivities = createServerFn({ method: "POST" })
 			return data;
 		},
 	)
-	.handler(
-		async ({
-			data,
-		}): Promise<{
-			activities: TransformedRide[];
-			nextPageToken: string | null;
-			error?: string;
-		}> => {
-			try {
-				const variables = buildActivitiesVariables({
-					limit: data.limit,
-					nextPageToken: data.nextPageToken,
-					startTimeMs: data.startTimeMs,
-					endTimeMs: data.endTimeMs,
-				});
-
-				const response = await uberGraphQL<UberActivitiesResponse>(data.auth, {
-					...ACTIVITIES_QUERY,
-					variables,
-				});
-
-				// Transform activities to our ride format
-				const activities = response.data.activities.past.activities.map(
-					(activity) => {
-						// Parse amount from description (e.g., "₹84.38" or "$12.50")
-						const amountMatch = activity.description.match(
-							/[₹$€£]?([\d,]+\.?\d*)/,
-						);
-						const amount = amountMatch
-							? Number.parseFloat(amountMatch[1].replace(",", ""))
-							: 0;
-
-						// Determine currency from description
-						let currency = "$";
-						if (activity.description.includes("₹")) currency = "₹";
-						else if (activity.description.includes("€")) currency = "€";
-						else if (activity.description.includes("£")) currency = "£";
-
-						// Parse date from subtitle (e.g., "16 Nov • 22:33")
-						// Add current year to make it parseable
-						const subtitleParts = activity.subtitle.split(" • ");
-						const datePart = subtitleParts[0]; // "16 Nov"
-						const timePart = subtitleParts[1] || "00:00"; // "22:33"
-						const currentYear = new Date().getFullYear();
-						const dateStr = `${datePart} ${currentYear} ${timePart}`;
-
-						// Check if it's an auto ride based on image URL
-						const isAutoRide =
-							activity.imageURL.light.includes("TukTuk") ||
-							activity.imageURL.light.includes("Auto") ||
-							activity.imageURL.light.includes("Moto");
-
-						return {
-							rideId: activity.uuid,
-							startTime: dateStr,
-							endTime: "",
-							startLocation: activity.title,
-							endLocation: "",
-							totalAmount: amount,
-							currency,
-							driverName: "",
-							vehicleType: isAutoRide ? "Auto" : "Car",
-							status: "COMPLETED",
-							mapUrl: activity.imageURL.dark || activity.imageURL.light,
-							isAutoRide,
-						} satisfies TransformedRide;
-					},
-				);
-
-				return {
-					activities,
-					nextPageToken: response.data.activities.past.nextPageToken,
-				};
-			} catch (error) {
-				console.error("Failed to fetch activities:", error);
-				return {
-					activities: [],
-					nextPageToken: null,
-					error: error instanceof Error ? error.message : "Unknown error",
-				};
-			}
-		},
-	);
+	.handler(({ data }) => loadActivities(data));
 
 /**
- * Helper to determine vehicle type from receipt
+ * Fetch one trip's details, normalized
  */
-function getVehicleInfo(vehicleType: string): {
-	type: string;
-	isAuto: boolean;
-	isBike: boolean;
-} {
-	const lower = vehicleType?.toLowerCase() || "";
-	const isBike = lower.includes("moto") || lower.includes("bike");
-	const isAuto = lower.includes("auto") || lower.includes("tuk");
-
-	return {
-		type: vehicleType || "Car",
-		isAuto: isAuto || isBike, // Both use simple receipt URL
-		isBike,
-	};
+export async function loadTripRide(
+	auth: UberAuthCredentials,
+	tripUUID: string,
+): Promise<UberTripRide> {
+	const response = await uberGraphQL<UberGetTripResponse>(
+		auth,
+		{ ...GET_TRIP_QUERY, variables: { tripUUID } },
+		uberGetTripSchema,
+	);
+	return normalizeUberTrip(response.data.getTrip);
 }
 
 /**
@@ -232,46 +234,9 @@ export const fetchTripDetails = createServerFn({ method: "POST" })
 	.handler(
 		async ({
 			data,
-		}): Promise<{ ride: TransformedRide | null; error?: string }> => {
+		}): Promise<{ ride: UberTripRide | null; error?: string }> => {
 			try {
-				const response = await uberGraphQL<UberGetTripResponse>(data.auth, {
-					...GET_TRIP_QUERY,
-					variables: { tripUUID: data.tripUUID },
-				});
-
-				const trip = response.data.getTrip.trip;
-				const receipt = response.data.getTrip.receipt;
-
-				// Parse fare amount
-				const fareMatch = trip.fare.match(/[₹$€£]?([\d,]+\.?\d*)/);
-				const amount = fareMatch
-					? Number.parseFloat(fareMatch[1].replace(",", ""))
-					: 0;
-
-				// Determine currency
-				let currency = "$";
-				if (trip.fare.includes("₹")) currency = "₹";
-				else if (trip.fare.includes("€")) currency = "€";
-				else if (trip.fare.includes("£")) currency = "£";
-
-				const vehicleInfo = getVehicleInfo(receipt.vehicleType);
-
-				return {
-					ride: {
-						rideId: trip.uuid,
-						startTime: trip.beginTripTime,
-						endTime: trip.dropoffTime,
-						startLocation: trip.waypoints[0] || "",
-						endLocation: trip.waypoints[trip.waypoints.length - 1] || "",
-						totalAmount: amount,
-						currency,
-						driverName: trip.driver,
-						vehicleType: vehicleInfo.type,
-						status: trip.status,
-						mapUrl: response.data.getTrip.mapURL,
-						isAutoRide: vehicleInfo.isAuto,
-					},
-				};
+				return { ride: await loadTripRide(data.auth, data.tripUUID) };
 			} catch (error) {
 				console.error("Failed to fetch trip details:", error);
 				return {
@@ -300,60 +265,29 @@ export const fetchMultipleTripDetails = createServerFn({ method: "POST" })
 	.handler(
 		async ({
 			data,
-		}): Promise<{ rides: TransformedRide[]; errors: string[] }> => {
+		}): Promise<{ rides: UberTripRide[]; errors: ProviderError[] }> => {
 			const results = await Promise.all(
 				data.tripUUIDs.map(async (tripUUID) => {
 					try {
-						const response = await uberGraphQL<UberGetTripResponse>(data.auth, {
-							...GET_TRIP_QUERY,
-							variables: { tripUUID },
-						});
-
-						const trip = response.data.getTrip.trip;
-						const receipt = response.data.getTrip.receipt;
-
-						// Parse fare amount
-						const fareMatch = trip.fare.match(/[₹$€£]?([\d,]+\.?\d*)/);
-						const amount = fareMatch
-							? Number.parseFloat(fareMatch[1].replace(",", ""))
-							: 0;
-
-						// Determine currency
-						let currency = "$";
-						if (trip.fare.includes("₹")) currency = "₹";
-						else if (trip.fare.includes("€")) currency = "€";
-						else if (trip.fare.includes("£")) currency = "£";
-
-						const vehicleInfo = getVehicleInfo(receipt.vehicleType);
-
 						return {
 							success: true as const,
-							ride: {
-								rideId: trip.uuid,
-								startTime: trip.beginTripTime,
-								endTime: trip.dropoffTime,
-								startLocation: trip.waypoints[0] || "",
-								endLocation: trip.waypoints[trip.waypoints.length - 1] || "",
-								totalAmount: amount,
-								currency,
-								driverName: trip.driver,
-								vehicleType: vehicleInfo.type,
-								status: trip.status,
-								mapUrl: response.data.getTrip.mapURL,
-								isAutoRide: vehicleInfo.isAuto,
-							} satisfies TransformedRide,
+							ride: await loadTripRide(data.auth, tripUUID),
 						};
 					} catch (error) {
+						const providerError = toProviderError(error);
 						return {
 							success: false as const,
-							error: `Failed to fetch ${tripUUID}: ${error instanceof Error ? error.message : "Unknown"}`,
+							error: {
+								...providerError,
+								message: `Failed to fetch ${tripUUID}: ${providerError.message}`,
+							},
 						};
 					}
 				}),
 			);
 
-			const rides: TransformedRide[] = [];
-			const errors: string[] = [];
+			const rides: UberTripRide[] = [];
+			const errors: ProviderError[] = [];
 
 			for (const result of results) {
 				if (result.success) {
@@ -367,8 +301,102 @@ export const fetchMultipleTripDetails = createServerFn({ method: "POST" })
 		},
 	);
 
+function receiptUrl(tripUUID: string): string {
+	const { origin } = new URL(getUberGraphQLUrl());
+	return `${origin}/trips/${tripUUID}/receipt?contentType=PDF&timestamp=${Date.now()}`;
+}
+
+/**
+ * Download one file with the rider's session cookie
+ */
+async function downloadFile(
+	auth: UberAuthCredentials,
+	url: string,
+): Promise<Uint8Array> {
+	return uberHttp.bytes({
+		url,
+		headers: {
+			cookie: auth.cookie,
+		},
+		timeoutMs: RECEIPT_TIMEOUT_MS,
+		label: "receipt download",
+	});
+}
+
+/**
+ * Download every receipt file for a trip, as base64, in invoice order.
+ *
+ * Auto rides only have a receipt. Other rides use their invoice files —
+ * there can be several, e.g. one for the driver's fare and one for the
+ * platform fee — falling back to the invoice archive when a file fails, and
+ * to the receipt when the trip has no invoices.
+ */
+export async function fetchTripReceiptPdfs(
+	auth: UberAuthCredentials,
+	trip: { tripUUID: string; isAutoRide: boolean },
+): Promise<string[]> {
+	const toBase64 = (pdfs: Uint8Array[]) =>
+		pdfs.map((pdf) => Buffer.from(pdf).toString("base64"));
+
+	if (trip.isAutoRide) {
+		return toBase64([await downloadFile(auth, receiptUrl(trip.tripUUID))]);
+	}
+
+	let invoiceFiles: UberInvoiceFiles | null = null;
+	try {
+		const invoiceResponse = await uberGraphQL<UberInvoiceFilesResponse>(
+			auth,
+			{ ...GET_INVOICE_FILES_QUERY, variables: { tripUUID: trip.tripUUID } },
+			uberInvoiceFilesSchema,
+		);
+		invoiceFiles = invoiceResponse.data.invoiceFiles;
+	} catch (invoiceError) {
+		// Invoice fetch failed, fallback to receipt
+		console.warn(
+			`Invoice fetch failed for ${trip.tripUUID}, falling back to receipt:`,
+			invoiceError,
+		);
+	}
+
+	const urls = getInvoiceDownloadURLs(invoiceFiles);
+	const archiveURL = invoiceFiles?.archiveURL;
+	if (urls.length > 0) {
+		try {
+			return toBase64(
+				await Promise.all(urls.map((url) => downloadFile(auth, url))),
+			);
+		} catch (error) {
+			// Never return part of a trip's invoices; try the archive instead
+			if (!archiveURL) throw error;
+			console.warn(
+				`Invoice file download failed for ${trip.tripUUID}, trying the archive:`,
+				error,
+			);
+			const pdfs = extractArchivePdfs(await downloadFile(auth, archiveURL));
+			if (pdfs.length === 0) throw error;
+			return toBase64(pdfs);
+		}
+	}
+
+	if (archiveURL) {
+		try {
+			const pdfs = extractArchivePdfs(await downloadFile(auth, archiveURL));
+			if (pdfs.length > 0) return toBase64(pdfs);
+		} catch (error) {
+			// Archive download failed, fallback to receipt
+			console.warn(
+				`Invoice archive download failed for ${trip.tripUUID}, falling back to receipt:`,
+				error,
+			);
+		}
+	}
+
+	// No invoice found, fallback to receipt
+	return toBase64([await downloadFile(auth, receiptUrl(trip.tripUUID))]);
+}
+
 /**
- * Fetch receipt PDF for a trip
+ * Fetch receipt PDFs for a trip
  */
 export const fetchReceiptPdf = createServerFn({ method: "POST" })
 	.inputValidator(
@@ -387,76 +415,20 @@ export const fetchReceiptPdf = createServerFn({ method: "POST" })
 		},
 	)
 	.handler(
-		async ({ data }): Promise<{ pdfBase64: string | null; error?: string }> => {
+		async ({
+			data,
+		}): Promise<{ pdfsBase64: string[] | null; error?: ProviderError }> => {
 			try {
-				let pdfUrl: string = "";
-				let useReceiptFallback = false;
-
-				if (data.isAutoRide) {
-					// For auto rides, always use direct receipt PDF URL
-					const timestamp = Date.now();
-					pdfUrl = `https://riders.uber.com/trips/${data.tripUUID}/receipt?contentType=PDF&timestamp=${timestamp}`;
-				} else {
-					// For non-auto (Uber) rides, try invoice first
-					try {
-						const invoiceResponse = await uberGraphQL<UberInvoiceFilesResponse>(
-							data.auth,
-							{
-								...GET_INVOICE_FILES_QUERY,
-								variables: { tripUUID: data.tripUUID },
-							},
-						);
-
-						const files = invoiceResponse.data.invoiceFiles.files;
-						if (!files || files.length === 0) {
-							// No invoice found, fallback to receipt
-							useReceiptFallback = true;
-						} else {
-							pdfUrl = files[0].downloadURL;
-						}
-					} catch (invoiceError) {
-						// Invoice fetch failed, fallback to receipt
-						console.warn(
-							"Invoice fetch failed, falling back to receipt:",
-							invoiceError,
-						);
-						useReceiptFallback = true;
-					}
-
-					// Use receipt as fallback for Uber rides
-					if (useReceiptFallback) {
-						const timestamp = Date.now();
-						pdfUrl = `https://riders.uber.com/trips/${data.tripUUID}/receipt?contentType=PDF&timestamp=${timestamp}`;
-					}
-				}
-
-				// Fetch the PDF
-				const pdfResponse = await fetch(pdfUrl, {
-					headers: {
-						cookie: data.auth.cookie,
-					},
-				});
-
-				if (!pdfResponse.ok) {
-					throw new Error(`Failed to fetch PDF: ${pdfResponse.status}`);
-				}
-
-				const pdfBuffer = await pdfResponse.arrayBuffer();
-				const base64 = Buffer.from(pdfBuffer).toString("base64");
-
-				return { pdfBase64: base64 };
+				return { pdfsBase64: await fetchTripReceiptPdfs(data.auth, data) };
 			} catch (error) {
 				console.error("Failed to fetch receipt PDF:", error);
-				return {
-					pdfBase64: null,
-					error: error instanceof Error ? error.message : "Unknown error",
-				};
+				return { pdfsBase64: null, error: toProviderError(error) };
 			}
 		},
 	);
 
 /**
- * Fetch multiple receipt PDFs
+ * Fetch receipt PDFs for multiple trips, a few at a time
  */
 export const fetchMultipleReceiptPdfs = createServerFn({ method: "POST" })
 	.inputValidator(
@@ -473,78 +445,25 @@ export const fetchMultipleReceiptPdfs = createServerFn({ method: "POST" })
 			return data;
 		},
 	)
-	.handler(
-		async ({
-			data,
-		}): Promise<{
-			pdfs: Array<{ rideId: string; pdfBase64: string | null; error?: string }>;
-		}> => {
-			const pdfs = await Promise.all(
-				data.trips.map(async (trip) => {
-					try {
-						let pdfUrl: string = "";
-						let useReceiptFallback = false;
-
-						if (trip.isAutoRide) {
-							// For auto rides, always use direct receipt PDF URL
-							const timestamp = Date.now();
-							pdfUrl = `https://riders.uber.com/trips/${trip.tripUUID}/receipt?contentType=PDF&timestamp=${timestamp}`;
-						} else {
-							// For non-auto (Uber) rides, try invoice first
-							try {
-								const invoiceResponse =
-									await uberGraphQL<UberInvoiceFilesResponse>(data.auth, {
-										...GET_INVOICE_FILES_QUERY,
-										variables: { tripUUID: trip.tripUUID },
-									});
-
-								const files = invoiceResponse.data.invoiceFiles.files;
-								if (!files || files.length === 0) {
-									// No invoice found, fallback to receipt
-									useReceiptFallback = true;
-								} else {
-									pdfUrl = files[0].downloadURL;
-								}
-							} catch (invoiceError) {
-								// Invoice fetch failed, fallback to receipt
-								console.warn(
-									`Invoice fetch failed for ${trip.tripUUID}, falling back to receipt:`,
-									invoiceError,
-								);
-								useReceiptFallback = true;
-							}
-
-							// Use receipt as fallback for Uber rides
-							if (useReceiptFallback) {
-								const timestamp = Date.now();
-								pdfUrl = `https://riders.uber.com/trips/${trip.tripUUID}/receipt?contentType=PDF&timestamp=${timestamp}`;
-							}
-						}
-
-						const pdfResponse = await fetch(pdfUrl, {
-							headers: {
-								cookie: data.auth.cookie,
-							},
-						});
-
-						if (!pdfResponse.ok) {
-							throw new Error(`Failed to fetch PDF: ${pdfResponse.status}`);
-						}
-
-						const pdfBuffer = await pdfResponse.arrayBuffer();
-						const base64 = Buffer.from(pdfBuffer).toString("base64");
-
-						return { rideId: trip.tripUUID, pdfBase64: base64 };
-					} catch (error) {
-						return {
-							rideId: trip.tripUUID,
-							pdfBase64: null,
-							error: error instanceof Error ? error.message : "Unknown error",
-						};
-					}
-				}),
-			);
+	.handler(async ({ data }): Promise<{ pdfs: ReceiptPdfResult[] }> => {
+		const pdfs = await runPool(
+			data.trips,
+			async (trip): Promise<ReceiptPdfResult> => {
+				try {
+					return {
+						rideId: trip.tripUUID,
+						pdfsBase64: await fetchTripReceiptPdfs(data.auth, trip),
+					};
+				} catch (error) {
+					return {
+						rideId: trip.tripUUID,
+						pdfsBase64: null,
+						error: error instanceof Error ? error.message : "Unknown error",
+					};
+				}
+			},
+			{ concurrency: RECEIPT_CONCURRENCY },
+		);
 
-			return { pdfs };
-		},
-	);
+		return { pdfs };
+	});
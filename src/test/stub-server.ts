@@ -0,0 +1,60 @@
+import { afterAll, beforeEach } from "bun:test";
+
+/** Answers requests to "/<kind>/<value>" for one path kind. */
+type StubRoute = (value: string, request: Request) => Promise<Response>;
+
+export interface StubServer {
+	/** Absolute URL of a path on the server. */
+	url: (path: string) => string;
+	/** Requests per path since the current test started. */
+	hits: Map<string, number>;
+}
+
+/**
+ * A local HTTP server for testing HTTP clients, stopped after the test file.
+ * "/status/<code>?failures=<n>" answers <code> (with retry-after: 0) for the
+ * first n requests to that path, then JSON; `routes` answer other path kinds,
+ * and anything else is a 404. Hits reset before each test.
+ */
+export function startStubServer(
+	routes: Record<string, StubRoute> = {},
+): StubServer {
+	const hits = new Map<string, number>();
+
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const url = new URL(request.url);
+			const count = (hits.get(url.pathname) ?? 0) + 1;
+			hits.set(url.pathname, count);
+
+			const [, kind, value = ""] = url.pathname.split("/");
+			if (kind === "status") {
+				const failures = Number(url.searchParams.get("failures") ?? "0");
+				return count <= failures
+					? new Response("busy", {
+							status: Number(value),
+							headers: { "retry-after": "0" },
+						})
+					: Response.json({ ok: true });
+			}
+			const route = Object.hasOwn(routes, kind) ? routes[kind] : undefined;
+			return route
+				? route(value, request)
+				: new Response("not found", { status: 404 });
+		},
+	});
+
+	beforeEach(() => {
+		hits.clear();
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	return {
+		url: (path) => `http://localhost:${server.port}${path}`,
+		hits,
+	};
+}
@@ -23,6 +23,18 @@ export interface RideData {
 	vehicleType?: string;
 	/** Ride status (e.g., 'COMPLETED', 'CANCELED') */
 	status?: string;
+	/** Display name of the provider the ride came from (e.g., 'Uber') */
+	provider?: string;
+	/** Label of the account the ride was fetched with (e.g., 'Work') */
+	account?: string;
+	/** Trip distance in kilometres, when the provider reports it */
+	distanceKm?: number;
+	/** Trip duration in minutes, when the provider reports it */
+	durationMinutes?: number;
+	/** Rate used to convert into the reporting currency, if one applied */
+	exchangeRate?: number;
+	/** totalAmount in the reporting currency, if a rate applied */
+	convertedAmount?: number;
 	/** URL to download the PDF receipt */
 	invoiceUrl: string;
 }
@@ -71,15 +83,69 @@ export interface UberAPIHeaders {
 }
 
 /**
- * Summary data for selected rides
+ * Sum of ride amounts in one currency
+ */
+export interface CurrencyTotal {
+	/** Currency code (e.g., 'INR') */
+	currency: string;
+	amount: number;
+	/** Number of rides in this currency */
+	count: number;
+}
+
+/**
+ * Selected rides converted into the reporting currency
+ */
+export interface CurrencyConversion {
+	/** Reporting currency code (e.g., 'INR') */
+	currency: string;
+	/** Sum of the converted amounts */
+	total: number;
+	/** Currencies with no applicable rate; their rides are not in `total` */
+	missingCurrencies: string[];
+}
+
+/**
+ * Summary data for selected rides. Totals are kept per currency; more than
+ * one entry means the selection mixes currencies.
  */
 export interface RidesSummary {
 	selectedCount: number;
-	totalAmount: number;
-	currency: string;
+	totals: CurrencyTotal[];
+	/** Converted grand total, when a reporting currency is configured */
+	conversion?: CurrencyConversion;
 	rides: RideData[];
 }
 
+/**
+ * Receipt fetched for one ride, as returned by a provider's fetchReceiptPdfs
+ */
+export interface ReceiptPdfResult {
+	rideId: string;
+	/**
+	 * Base64 PDFs making up the ride's paperwork, in order (e.g. the driver's
+	 * invoice, then the platform fee's), or null when the download failed
+	 */
+	pdfsBase64: string[] | null;
+	error?: string;
+}
+
+/**
+ * What happened to one ride's receipt during an export
+ */
+export interface ReceiptOutcome {
+	rideId: string;
+	/**
+	 * - merged: the receipt is in the export
+	 * - download-failed: the provider did not return a PDF
+	 * - merge-failed: a PDF came back but could not be read
+	 * - not-requested: no receipt was fetched (e.g. the provider has none)
+	 */
+	status: "merged" | "download-failed" | "merge-failed" | "not-requested";
+	/** Failure reason, for the failed statuses */
+	error?: string;
+}
+
 /**
  * Date range for filtering rides
  */
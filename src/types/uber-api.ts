@@ -19,6 +19,22 @@ export interface UberCurrentUser {
 	uuid: string;
 	tenancy: string;
 	signupCountry: string;
+	profiles?: UberProfile[];
+}
+
+/**
+ * Rider profile from CurrentUserRidersWeb (personal or business)
+ */
+export interface UberProfile {
+	uuid: string;
+	/** e.g. "PERSONAL", "BUSINESS", "MANAGED_BUSINESS" */
+	type: string;
+	name: string;
+	defaultPaymentProfileUuid?: string | null;
+	managedBusinessProfileAttributes?: {
+		isBilledToCompany: boolean;
+		logoUrl: string | null;
+	} | null;
 }
 
 /**
@@ -76,6 +92,8 @@ export interface UberTrip {
 	waypoints: string[];
 	isRidepoolTrip: boolean;
 	marketplace: string;
+	/** The billing profile the trip was charged to. */
+	paymentProfileUUID?: string | null;
 }
 
 /**
@@ -88,11 +106,11 @@ export interface UberGetTripResponse {
 			mapURL: string;
 			rating: string;
 			receipt: {
-				carYear: string;
-				distance: string;
-				distanceLabel: string;
-				duration: string;
-				vehicleType: string;
+				carYear?: string | null;
+				distance?: string | null;
+				distanceLabel?: string | null;
+				duration?: string | null;
+				vehicleType?: string | null;
 			};
 		};
 	};